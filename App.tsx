@@ -1,45 +1,57 @@
-import React, { useState, useEffect, useRef, Suspense, useMemo } from 'react';
+import React, { useState, useEffect, useRef, Suspense, useMemo, useCallback, useReducer } from 'react';
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
-import { PointerLockControls, Sky, Stars, KeyboardControls, useKeyboardControls, Text } from '@react-three/drei';
+import { Text } from '@react-three/drei';
 import * as THREE from 'three';
-import { Vector3 as ThreeVector3, Raycaster } from 'three';
-import { Enemy, EnemyType, GameState, Obstacle } from './types';
-import { Joystick } from './components/Joystick';
-import { generateBattleCommentary } from './services/gemini';
-
-// --- Assets & Constants ---
-const WALK_SPEED = 15;
-const FIRE_RATE = 100; // ms between shots
-const ENEMY_SPAWN_RATE = 2000;
-const MAX_AMMO = 30;
-
-// World Gen Constants
-const CHUNK_SIZE = 60;
-const CHUNK_RES = 24; 
-const RENDER_DISTANCE = 2; 
-
-// Scale factors
-const PLAYER_HEIGHT = 1.7;
-const WALL_HEIGHT = 5;
-
-const ENEMY_CONFIG: Record<EnemyType, { hp: number; speed: number; score: number; gold: number; scale: number; color: string }> = {
-  peasant: { hp: 40, speed: 7, score: 50, gold: 10, scale: 0.8, color: '#8B4513' }, 
-  knight: { hp: 100, speed: 4, score: 100, gold: 25, scale: 1.0, color: '#666666' }, 
-  heavy: { hp: 300, speed: 2.5, score: 300, gold: 100, scale: 1.4, color: '#2F4F4F' }, 
-  villager: { hp: 30, speed: 5, score: -100, gold: 0, scale: 0.8, color: '#3b82f6' }, 
-};
+import { Vector3 as ThreeVector3 } from 'three';
+import { GameState, Obstacle, ProjectileKind, SurfaceType } from './types';
+import { TouchControls, isTouchDevice } from './components/TouchControls';
+import { SettingsMenu } from './components/SettingsMenu';
+import { PauseMenu } from './components/PauseMenu';
+import { RunResults, RunStats } from './components/RunResults';
+import { BossBar } from './components/BossBar';
+import { Weapon } from './components/Weapons';
+import { ShopMenu } from './components/ShopMenu';
+import { INSTANCED_TYPES, InstancedObstacles } from './components/InstancedObstacles';
+import { InstancedEnemies } from './components/InstancedEnemies';
+import { InstancedProjectiles } from './components/InstancedProjectiles';
+import { Atmosphere, torchFlameMaterial } from './components/Atmosphere';
+import { geminiProvider, hasGeminiKey } from './services/gemini';
+import { GameEventBus } from './services/events';
+import { CommentaryScheduler, withFallback } from './services/commentary';
+import { createCannedProvider } from './services/cannedCommentary';
+import { BOSS_CONFIG, CHUNK_SIZE, RENDER_DISTANCE, TERRAIN_RENDER_DISTANCE } from './game/config';
+import { chunkKeyOfObstacle } from './game/chunks';
+import { chunkResolution } from './game/terrainMesh';
+import { getEnvironment } from './game/environment';
+import { GameSimulation, SimEvent, SimInput, activeWeaponSlot, createInitialGameState } from './game/simulation';
+import { WEAPONS } from './game/weapons';
+import { getWaveDefinition } from './game/waves';
+import { UNLOCKS, applyUnlocks, recordRun } from './game/save';
+import { dailySeed, dateKey, parseSeed, randomSeed } from './game/random';
+import { clearRun, loadProfile, loadRun, loadSettings, saveProfile, saveRun, saveSettings } from './services/storage';
+import { getTerrainMesher } from './services/terrainMeshing';
+import { GamepadSource, KeyboardMouseSource, TouchSource } from './services/inputSources';
+import { InputManager } from './game/input';
+import { Screen, flowReducer, isInRun, isRunning } from './game/flow';
+import { AccessibilitySettings, ControlSettings, SHADOW_MAP_SIZES, Settings } from './game/settings';
 
 // --- AUDIO SYSTEM ---
 class SoundManager {
     ctx: AudioContext | null = null;
     masterGain: GainNode | null = null;
+    weatherGain: GainNode | null = null; // Rain and thunder, under the master
+    volume = 0.3;
+    weatherVolume = 1;
 
     init() {
         if (!this.ctx) {
             this.ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
             this.masterGain = this.ctx.createGain();
-            this.masterGain.gain.value = 0.3;
+            this.masterGain.gain.value = this.volume;
             this.masterGain.connect(this.ctx.destination);
+            this.weatherGain = this.ctx.createGain();
+            this.weatherGain.gain.value = this.weatherVolume;
+            this.weatherGain.connect(this.masterGain);
         }
         if (this.ctx.state === 'suspended') {
             this.ctx.resume().catch(e => console.error(e));
@@ -60,6 +72,13 @@ class SoundManager {
         osc.stop(t + dur);
     }
 
+    setVolume(master: number, weather: number) {
+        this.volume = master;
+        this.weatherVolume = weather;
+        if (this.masterGain) this.masterGain.gain.value = master;
+        if (this.weatherGain) this.weatherGain.gain.value = weather;
+    }
+
     playShoot() { this.playNoise(0.1, 1000); } // Shorter, punchier
     playReload() { 
         if (!this.ctx) return;
@@ -76,9 +95,19 @@ class SoundManager {
     playHit() {
         this.playTone(200, 'sawtooth', 0.1);
     }
+    playHurt() { this.playTone(110, 'sawtooth', 0.15); }
+    playHorn() {
+        if (!this.ctx) return;
+        this.playTone(110, 'sawtooth', 0.6);
+        setTimeout(() => this.playTone(147, 'sawtooth', 0.9), 350);
+    }
+    playBowShot(kind: ProjectileKind) {
+        if (kind === 'bolt') this.playTone(160, 'square', 0.06);
+        this.playNoise(0.08, kind === 'bolt' ? 1500 : 3000);
+    }
 
-    playNoise(dur: number, filterFreq: number) {
-        if (!this.ctx || !this.masterGain) return;
+    playNoise(dur: number, filterFreq: number, out: AudioNode | null = this.masterGain) {
+        if (!this.ctx || !out) return;
         const t = this.ctx.currentTime;
         const buf = this.ctx.createBuffer(1, this.ctx.sampleRate * dur, this.ctx.sampleRate);
         const data = buf.getChannelData(0);
@@ -91,344 +120,43 @@ class SoundManager {
         const env = this.ctx.createGain();
         env.gain.setValueAtTime(0.5, t);
         env.gain.exponentialRampToValueAtTime(0.01, t + dur);
-        src.connect(filter).connect(env).connect(this.masterGain);
+        src.connect(filter).connect(env).connect(out);
         src.start();
     }
-}
-const sfx = new SoundManager();
 
-// --- Terrain & Noise ---
-
-const noise = (x: number, z: number, seed: number) => {
-    const sin = Math.sin(x * 12.9898 + z * 78.233 + (seed % 1000));
-    const s = sin * 43758.5453123;
-    return s - Math.floor(s);
-}
-
-const smoothNoise = (x: number, z: number, seed: number) => {
-    const i = Math.floor(x);
-    const j = Math.floor(z);
-    const f = x - i;
-    const g = z - j;
-    const a = noise(i, j, seed);
-    const b = noise(i + 1, j, seed);
-    const c = noise(i, j + 1, seed);
-    const d = noise(i + 1, j + 1, seed);
-    const u = f * f * f * (f * (f * 6 - 15) + 10);
-    const v = g * g * g * (g * (g * 6 - 15) + 10);
-    return (1 - u) * (1 - v) * a + u * (1 - v) * b + (1 - u) * v * c + u * v * d;
-}
-
-const getRoadInfluence = (x: number, z: number, seed: number) => {
-    const scale = 0.005; 
-    const n = smoothNoise(x * scale, z * scale, seed);
-    const dist = Math.abs(n - 0.5);
-    const roadWidth = 0.05; 
-    
-    if (dist < roadWidth) return 1;
-    return 0;
-}
-
-const getTerrainHeight = (x: number, z: number, seed: number) => {
-    let y = 0;
-    let amp = 10;
-    let freq = 0.02; 
-    
-    y += smoothNoise(x * freq, z * freq, seed) * amp;
-    y += smoothNoise(x * freq * 2, z * freq * 2, seed) * (amp / 2);
-    
-    let height = Math.pow(Math.abs(y), 1.2); 
-
-    const road = getRoadInfluence(x, z, seed);
-    if (road > 0) {
-        const smoothBase = smoothNoise(x * freq, z * freq, seed) * amp; 
-        height = height * 0.1 + smoothBase * 0.9; 
-    }
-
-    return height;
-};
-
-// --- Generation Logic ---
-
-const seededRandom = (seed: number) => {
-    const x = Math.sin(seed) * 10000;
-    return x - Math.floor(x);
-};
-
-// New Building Generator supporting multiple types
-type BuildingType = 'cottage' | 'tower' | 'market';
-
-const generateBuilding = (
-    type: BuildingType,
-    x: number, 
-    z: number, 
-    y: number, 
-    rotation: number, 
-    idPrefix: string
-): Obstacle[] => {
-    const parts: Obstacle[] = [];
-    
-    if (type === 'market') {
-        const w = 6, d = 6;
-        const h = 4;
-        [-1, 1].forEach(dx => [-1, 1].forEach(dz => {
-            parts.push({
-                id: `${idPrefix}:pillar:${dx}:${dz}`,
-                type: 'wall',
-                position: { x: x + dx * (w/2.2), y: y + h/2, z: z + dz * (d/2.2) },
-                rotation: 0,
-                scale: { x: 1, y: 1, z: 1 },
-                radius: 0.5,
-                dims: { w: 0.5, h: h, d: 0.5 }
-            });
-        }));
-        parts.push({
-            id: `${idPrefix}:roof`,
-            type: 'wall',
-            position: { x, y: y + h, z },
-            rotation: 0,
-            scale: { x: 1, y: 1, z: 1 },
-            radius: 0,
-            dims: { w: w, h: 0.5, d: d }
-        });
-        parts.push({
-            id: `${idPrefix}:shop`,
-            type: 'shop_table',
-            position: { x, y: y, z },
-            rotation: rotation,
-            scale: { x: 1, y: 1, z: 1 },
-            radius: 3 
-        });
-        return parts;
+    // Looping filtered noise, faded to `level` (0..1). Started on first use.
+    rainGain: GainNode | null = null;
+    setRain(level: number) {
+        if (!this.ctx || !this.weatherGain) return;
+        if (!this.rainGain) {
+            if (level <= 0) return;
+            const buf = this.ctx.createBuffer(1, this.ctx.sampleRate * 2, this.ctx.sampleRate);
+            const data = buf.getChannelData(0);
+            for(let i=0; i<data.length; i++) data[i] = (Math.random() * 2 - 1);
+            const src = this.ctx.createBufferSource();
+            src.buffer = buf;
+            src.loop = true;
+            const filter = this.ctx.createBiquadFilter();
+            filter.type = 'lowpass';
+            filter.frequency.value = 1400;
+            this.rainGain = this.ctx.createGain();
+            this.rainGain.gain.value = 0;
+            src.connect(filter).connect(this.rainGain).connect(this.weatherGain);
+            src.start();
+        }
+        this.rainGain.gain.setTargetAtTime(level * 0.3, this.ctx.currentTime, 0.5);
     }
-
-    if (type === 'tower') {
-        const w = 5, d = 5;
-        const h = 12;
-        const wallDefs = [
-            { pos: {x:0, z:-d/2}, rot: 0, dim: {w, h, d:1} },
-            { pos: {x:0, z:d/2}, rot: 0, dim: {w, h, d:1} },
-            { pos: {x:-w/2, z:0}, rot: Math.PI/2, dim: {w:d, h, d:1} },
-            { pos: {x:w/2, z:0}, rot: Math.PI/2, dim: {w:d, h, d:1} },
-        ];
-        wallDefs.forEach((wd, i) => {
-             const cos = Math.cos(rotation);
-             const sin = Math.sin(rotation);
-             const wx = x + (wd.pos.x * cos - wd.pos.z * sin);
-             const wz = z + (wd.pos.x * sin + wd.pos.z * cos);
-             parts.push({
-                id: `${idPrefix}:wall:${i}`,
-                type: 'wall',
-                position: { x: wx, y: y + h/2, z: wz },
-                rotation: rotation + wd.rot,
-                scale: {x:1,y:1,z:1}, radius:1,
-                dims: wd.dim
-             });
-        });
-        parts.push({
-            id: `${idPrefix}:roof`,
-            type: 'roof',
-            position: { x, y: y + h, z },
-            rotation: rotation,
-            scale: { x: w + 2, y: 6, z: d + 2 },
-            radius: 0
-        });
-        return parts;
+    playThunder() {
+        if (!this.ctx) return;
+        this.playNoise(2.5, 300, this.weatherGain);
+        setTimeout(() => this.playNoise(1.5, 200, this.weatherGain), 250);
     }
-
-    const width = 8;
-    const depth = 8;
-    const h = WALL_HEIGHT;
-    const walls = [
-        { type: 'back', w: width, d: 1, pos: { x: 0, z: -depth/2 }, rot: 0 },
-        { type: 'left', w: depth, d: 1, pos: { x: -width/2, z: 0 }, rot: Math.PI/2 },
-        { type: 'right', w: depth, d: 1, pos: { x: width/2, z: 0 }, rot: Math.PI/2 },
-    ];
-    walls.forEach(w => {
-         const cos = Math.cos(rotation);
-         const sin = Math.sin(rotation);
-         const wx = x + (w.pos.x * cos - w.pos.z * sin);
-         const wz = z + (w.pos.x * sin + w.pos.z * cos);
-         parts.push({
-            id: `${idPrefix}:wall:${w.type}`,
-            type: 'wall',
-            position: { x: wx, y: y + h/2, z: wz },
-            rotation: rotation + w.rot,
-            scale: { x: 1, y: 1, z: 1 },
-            radius: 1,
-            dims: { w: w.w, h: h, d: 1 }
-        });
-    });
-
-    const doorGap = 3;
-    const frontWallW = (width - doorGap) / 2;
-    const fOffset = depth/2;
-    const flX = x + (-frontWallW/2 - doorGap/2) * Math.cos(rotation) - fOffset * Math.sin(rotation);
-    const flZ = z + (-frontWallW/2 - doorGap/2) * Math.sin(rotation) + fOffset * Math.cos(rotation);
-    parts.push({
-        id: `${idPrefix}:wall:fl`,
-        type: 'wall',
-        position: { x: flX, y: y + h/2, z: flZ },
-        rotation: rotation,
-        scale: { x: 1, y: 1, z: 1 },
-        radius: 1,
-        dims: { w: frontWallW, h: h, d: 1 }
-    });
-    const frX = x + (frontWallW/2 + doorGap/2) * Math.cos(rotation) - fOffset * Math.sin(rotation);
-    const frZ = z + (frontWallW/2 + doorGap/2) * Math.sin(rotation) + fOffset * Math.cos(rotation);
-    parts.push({
-        id: `${idPrefix}:wall:fr`,
-        type: 'wall',
-        position: { x: frX, y: y + h/2, z: frZ },
-        rotation: rotation,
-        scale: { x: 1, y: 1, z: 1 },
-        radius: 1,
-        dims: { w: frontWallW, h: h, d: 1 }
-    });
-    parts.push({
-        id: `${idPrefix}:roof`,
-        type: 'roof',
-        position: { x, y: y + h, z },
-        rotation: rotation,
-        scale: { x: width + 1, y: 4, z: depth + 1 },
-        radius: 0
-    });
-    return parts;
 }
-
-const generateChunk = (chunkX: number, chunkZ: number, worldSeed: number): Obstacle[] => {
-  const obstacles: Obstacle[] = [];
-  const chunkSeed = chunkX * 73856093 ^ chunkZ * 19349663 ^ Math.floor(worldSeed); 
-  const getRand = (offset: number) => seededRandom(chunkSeed + offset);
-
-  const worldX = chunkX * CHUNK_SIZE;
-  const worldZ = chunkZ * CHUNK_SIZE;
-  const centerX = worldX + CHUNK_SIZE / 2;
-  const centerZ = worldZ + CHUNK_SIZE / 2;
-  const centerRoadInf = getRoadInfluence(centerX, centerZ, worldSeed);
-  
-  let villageChance = 0.96; 
-  if (centerRoadInf > 0) villageChance = 0.6; 
-  const isVillage = getRand(999) > villageChance;
-
-  if (isVillage) {
-      const cy = getTerrainHeight(centerX, centerZ, worldSeed);
-      if (getRoadInfluence(centerX, centerZ, worldSeed) === 0) { 
-          obstacles.push(...generateBuilding('market', centerX, centerZ, cy, 0, `${chunkX}:${chunkZ}:market`));
-      }
-      const houseCount = 3 + Math.floor(getRand(888) * 3);
-      const radius = 15;
-      for(let i=0; i<houseCount; i++) {
-          const angle = (Math.PI * 2 * i) / houseCount + getRand(i)*0.5;
-          const dist = radius + getRand(i+50) * 10;
-          const hx = centerX + Math.cos(angle) * dist;
-          const hz = centerZ + Math.sin(angle) * dist;
-          if (getRoadInfluence(hx, hz, worldSeed) > 0) continue; 
-          const y = getTerrainHeight(hx, hz, worldSeed);
-          const rot = Math.atan2(centerZ - hz, centerX - hx); 
-          const bType: BuildingType = getRand(i * 99) > 0.7 ? 'tower' : 'cottage';
-          obstacles.push(...generateBuilding(bType, hx, hz, y, rot, `${chunkX}:${chunkZ}:b${i}`));
-      }
-      if (getRand(50) > 0.5) {
-        const wx = centerX + 5;
-        const wz = centerZ + 5;
-        const wy = getTerrainHeight(wx, wz, worldSeed);
-        obstacles.push({
-            id: `${chunkX}:${chunkZ}:well`,
-            type: 'well',
-            position: { x: wx, y: wy, z: wz },
-            rotation: 0,
-            scale: { x: 1, y: 1, z: 1 },
-            radius: 2
-        });
-      }
-  }
-
-  const treeCount = isVillage ? 2 : Math.floor(getRand(1) * 10) + 2; 
-  for (let i = 0; i < treeCount; i++) {
-      const lx = getRand(i * 10) * CHUNK_SIZE - (CHUNK_SIZE/2);
-      const lz = getRand(i * 10 + 1) * CHUNK_SIZE - (CHUNK_SIZE/2);
-      const wx = worldX + lx + CHUNK_SIZE/2;
-      const wz = worldZ + lz + CHUNK_SIZE/2;
-      if (getRoadInfluence(wx, wz, worldSeed) > 0) continue;
-      const y = getTerrainHeight(wx, wz, worldSeed);
-      obstacles.push({
-          id: `${chunkX}:${chunkZ}:tree:${i}`,
-          type: 'tree',
-          position: { x: wx, y: y, z: wz },
-          rotation: getRand(i * 10 + 2) * Math.PI,
-          scale: { x: 1 + getRand(i)*0.5, y: 1 + getRand(i+5), z: 1 + getRand(i)*0.5 },
-          radius: 1
-      });
-  }
-  return obstacles;
-};
+const sfx = new SoundManager();
+const gameEvents = new GameEventBus();
 
 // --- Visual Components ---
 
-const Wall = React.memo(({ data }: { data: Obstacle }) => {
-    if (!data.dims) return null;
-    const hasWindow = data.dims.w > 3 && data.dims.h > 3;
-
-    return (
-        <group position={[data.position.x, data.position.y, data.position.z]} rotation={[0, data.rotation, 0]}>
-            <mesh castShadow receiveShadow>
-                <boxGeometry args={[data.dims.w, data.dims.h, data.dims.d * 0.8]} />
-                <meshStandardMaterial color="#f2e8d5" roughness={0.9} />
-            </mesh>
-            <mesh position={[-data.dims.w/2 + 0.2, 0, 0]} castShadow>
-                <boxGeometry args={[0.4, data.dims.h + 0.1, data.dims.d]} />
-                <meshStandardMaterial color="#3e2723" roughness={1} />
-            </mesh>
-            <mesh position={[data.dims.w/2 - 0.2, 0, 0]} castShadow>
-                <boxGeometry args={[0.4, data.dims.h + 0.1, data.dims.d]} />
-                <meshStandardMaterial color="#3e2723" roughness={1} />
-            </mesh>
-            <mesh position={[0, data.dims.h/2 - 0.2, 0]} castShadow>
-                 <boxGeometry args={[data.dims.w, 0.4, data.dims.d]} />
-                 <meshStandardMaterial color="#3e2723" roughness={1} />
-            </mesh>
-            <mesh position={[0, -data.dims.h/2 + 0.2, 0]} castShadow>
-                 <boxGeometry args={[data.dims.w, 0.4, data.dims.d]} />
-                 <meshStandardMaterial color="#3e2723" roughness={1} />
-            </mesh>
-            {data.dims.w > 4 && (
-                <mesh position={[0, 0, 0]} castShadow>
-                    <boxGeometry args={[data.dims.w, 0.3, data.dims.d]} />
-                    <meshStandardMaterial color="#3e2723" roughness={1} />
-                </mesh>
-            )}
-            {hasWindow && (
-                <mesh position={[0, 0.5, 0]}>
-                    <boxGeometry args={[1.5, 1.5, data.dims.d + 0.1]} />
-                    <meshStandardMaterial color="#2c3e50" roughness={0.2} metalness={0.5} />
-                    <mesh position={[0, 0, 0.06]}>
-                        <boxGeometry args={[1.5, 0.1, 0.1]} />
-                        <meshStandardMaterial color="#3e2723" />
-                    </mesh>
-                    <mesh position={[0, 0, 0.06]}>
-                        <boxGeometry args={[0.1, 1.5, 0.1]} />
-                        <meshStandardMaterial color="#3e2723" />
-                    </mesh>
-                </mesh>
-            )}
-        </group>
-    );
-});
-
-const Roof = React.memo(({ data }: { data: Obstacle }) => (
-    <group position={[data.position.x, data.position.y + 0.5, data.position.z]} rotation={[0, data.rotation, 0]}>
-        <mesh position={[0, 1, 0]} rotation={[0, Math.PI/4, 0]} castShadow>
-            <coneGeometry args={[data.scale.x * 0.75, data.scale.y, 4]} />
-            <meshStandardMaterial color="#8d6e63" roughness={0.8} />
-        </mesh>
-        <mesh position={[0, -data.scale.y/2 + 1, 0]} rotation={[0, Math.PI/4, 0]}>
-             <boxGeometry args={[data.scale.x, 0.2, data.scale.z]} />
-             <meshStandardMaterial color="#3e2723" />
-        </mesh>
-    </group>
-));
-
 const ShopTable = React.memo(({ data }: { data: Obstacle }) => (
     <group position={[data.position.x, data.position.y, data.position.z]} rotation={[0, data.rotation, 0]}>
         <mesh position={[0, 0.5, 0]} castShadow>
@@ -453,19 +181,6 @@ const ShopTable = React.memo(({ data }: { data: Obstacle }) => (
     </group>
 ));
 
-const Tree: React.FC<{ data: Obstacle }> = React.memo(({ data }) => (
-  <group position={[data.position.x, data.position.y, data.position.z]} rotation={[0, data.rotation, 0]} scale={[data.scale.x, data.scale.y, data.scale.z]}>
-    <mesh position={[0, 1, 0]} castShadow>
-      <cylinderGeometry args={[0.2, 0.4, 2, 8]} />
-      <meshStandardMaterial color="#4d3319" />
-    </mesh>
-    <mesh position={[0, 3, 0]} castShadow>
-      <coneGeometry args={[1.5, 4, 8]} />
-      <meshStandardMaterial color="#1a4d1a" />
-    </mesh>
-  </group>
-));
-
 const Well: React.FC<{ data: Obstacle }> = React.memo(({ data }) => (
   <group position={[data.position.x, data.position.y, data.position.z]} rotation={[0, data.rotation, 0]} scale={[data.scale.x, data.scale.y, data.scale.z]}>
      <mesh position={[0, 0.4, 0]} castShadow>
@@ -483,42 +198,209 @@ const Well: React.FC<{ data: Obstacle }> = React.memo(({ data }) => (
   </group>
 ));
 
-const TerrainChunk = React.memo(({ x, z, seed }: { x: number, z: number, seed: number }) => {
-    const geometry = useMemo(() => {
-        const geo = new THREE.PlaneGeometry(CHUNK_SIZE, CHUNK_SIZE, CHUNK_RES, CHUNK_RES);
-        geo.rotateX(-Math.PI / 2); 
-        const count = geo.attributes.position.count;
-        const pos = geo.attributes.position;
-        const colors = new Float32Array(count * 3); 
-        const worldX = x * CHUNK_SIZE;
-        const worldZ = z * CHUNK_SIZE;
-        const grassColor = new THREE.Color("#2d4c1e");
-        const dirtColor = new THREE.Color("#4d3319");
-        const roadColor = new THREE.Color("#8B7355"); 
-        const tempColor = new THREE.Color();
-
-        for (let i = 0; i < count; i++) {
-            const px = pos.getX(i) + worldX; 
-            const pz = pos.getZ(i) + worldZ;
-            const h = getTerrainHeight(px, pz, seed);
-            pos.setY(i, h);
-            const roadInf = getRoadInfluence(px, pz, seed);
-            
-            if (roadInf > 0) {
-                tempColor.lerpColors(grassColor, roadColor, roadInf);
-            } else {
-                const noiseVal = smoothNoise(px * 0.1, pz * 0.1, seed);
-                tempColor.lerpColors(grassColor, dirtColor, noiseVal * 0.3);
-            }
-            colors[i * 3] = tempColor.r;
-            colors[i * 3 + 1] = tempColor.g;
-            colors[i * 3 + 2] = tempColor.b;
-        }
-        geo.setAttribute('color', new THREE.BufferAttribute(colors, 3));
-        geo.computeVertexNormals();
-        return geo;
-    }, [x, z, seed]);
+const Rock: React.FC<{ data: Obstacle }> = React.memo(({ data }) => (
+  <mesh position={[data.position.x, data.position.y + 0.4 * data.scale.y, data.position.z]} rotation={[0.3, data.rotation, 0.2]} scale={[data.scale.x, data.scale.y, data.scale.z]} castShadow receiveShadow>
+    <dodecahedronGeometry args={[1, 0]} />
+    <meshStandardMaterial color="#7a7a72" roughness={1} flatShading />
+  </mesh>
+));
+
+// Broken stretch of stone wall: a jagged top on a solid base
+const Ruin = React.memo(({ data }: { data: Obstacle }) => {
+    if (!data.dims) return null;
+    const { w, h, d } = data.dims;
+    return (
+        <group position={[data.position.x, data.position.y, data.position.z]} rotation={[0, data.rotation, 0]}>
+            <mesh castShadow receiveShadow>
+                <boxGeometry args={[w, h, d]} />
+                <meshStandardMaterial color="#8a8578" roughness={1} />
+            </mesh>
+            <mesh position={[-w / 4, h / 2 + 0.3, 0]} castShadow>
+                <boxGeometry args={[w / 3, 0.6, d]} />
+                <meshStandardMaterial color="#8a8578" roughness={1} />
+            </mesh>
+            <mesh position={[w / 2 + 0.3, -h / 2 + 0.2, 0.4]} rotation={[0, 0.6, 0.3]} castShadow>
+                <boxGeometry args={[0.6, 0.4, 0.5]} />
+                <meshStandardMaterial color="#6f6a5f" roughness={1} />
+            </mesh>
+        </group>
+    );
+});
+
+const Mountain: React.FC<{ data: Obstacle }> = React.memo(({ data }) => (
+  <group position={[data.position.x, data.position.y, data.position.z]} rotation={[0, data.rotation, 0]}>
+    <mesh position={[0, data.scale.y / 2, 0]} castShadow receiveShadow>
+      <coneGeometry args={[data.scale.x, data.scale.y, 7]} />
+      <meshStandardMaterial color="#6b6660" roughness={1} flatShading />
+    </mesh>
+    {/* Snow cap on the taller peaks */}
+    {data.scale.y > 16 && (
+      <mesh position={[0, data.scale.y * 0.85, 0]}>
+        <coneGeometry args={[data.scale.x * 0.3 + 0.05, data.scale.y * 0.3, 7]} />
+        <meshStandardMaterial color="#f0f0f0" roughness={0.9} flatShading />
+      </mesh>
+    )}
+  </group>
+));
+
+// The board's +x end points at the village named on it
+const Signpost: React.FC<{ data: Obstacle }> = React.memo(({ data }) => (
+  <group position={[data.position.x, data.position.y, data.position.z]} rotation={[0, data.rotation, 0]}>
+    <mesh position={[0, 1.3, 0]} castShadow>
+      <cylinderGeometry args={[0.08, 0.1, 2.6, 6]} />
+      <meshStandardMaterial color="#4d3319" />
+    </mesh>
+    <mesh position={[0.9, 2.2, 0]} castShadow>
+      <boxGeometry args={[1.8, 0.4, 0.08]} />
+      <meshStandardMaterial color="#8b6b47" />
+    </mesh>
+    <mesh position={[1.9, 2.2, 0]} rotation={[0, 0, -Math.PI / 2]}>
+      <coneGeometry args={[0.2, 0.25, 3]} />
+      <meshStandardMaterial color="#8b6b47" />
+    </mesh>
+    {[0.05, -0.05].map(side => (
+      <Text key={side} position={[0.9, 2.2, side]} rotation={[0, side > 0 ? 0 : Math.PI, 0]} fontSize={0.18} color="#2b1a0e" anchorX="center" anchorY="middle">
+        {data.label || ''}
+      </Text>
+    ))}
+  </group>
+));
+
+// Two rails between posts; position is the middle of the fence
+const Fence = React.memo(({ data }: { data: Obstacle }) => {
+    if (!data.dims) return null;
+    const { w, h } = data.dims;
+    const posts = Math.max(2, Math.round(w / 2) + 1);
+    return (
+        <group position={[data.position.x, data.position.y - h / 2, data.position.z]} rotation={[0, data.rotation, 0]}>
+            {[0.45, 0.85].map(y => (
+                <mesh key={y} position={[0, h * y, 0]} castShadow>
+                    <boxGeometry args={[w, 0.12, 0.08]} />
+                    <meshStandardMaterial color="#7a5a3a" roughness={1} />
+                </mesh>
+            ))}
+            {Array.from({ length: posts }, (_, i) => (
+                <mesh key={i} position={[-w / 2 + (w * i) / (posts - 1), h / 2, 0]} castShadow>
+                    <boxGeometry args={[0.15, h, 0.15]} />
+                    <meshStandardMaterial color="#5d4037" roughness={1} />
+                </mesh>
+            ))}
+        </group>
+    );
+});
+
+// Upright logs with sharpened tops
+const Palisade = React.memo(({ data }: { data: Obstacle }) => {
+    if (!data.dims) return null;
+    const { w, h, d } = data.dims;
+    const logs = Math.max(1, Math.round(w / d));
+    return (
+        <group position={[data.position.x, data.position.y - h / 2, data.position.z]} rotation={[0, data.rotation, 0]}>
+            {Array.from({ length: logs }, (_, i) => {
+                const x = -w / 2 + (w / logs) * (i + 0.5);
+                return (
+                    <group key={i} position={[x, 0, 0]}>
+                        <mesh position={[0, h / 2, 0]} castShadow receiveShadow>
+                            <cylinderGeometry args={[d / 2, d / 2, h, 6]} />
+                            <meshStandardMaterial color="#6d4c33" roughness={1} />
+                        </mesh>
+                        <mesh position={[0, h + 0.3, 0]} castShadow>
+                            <coneGeometry args={[d / 2, 0.6, 6]} />
+                            <meshStandardMaterial color="#6d4c33" roughness={1} />
+                        </mesh>
+                    </group>
+                );
+            })}
+        </group>
+    );
+});
+
+const FURNITURE_COLORS: Record<string, string> = {
+    bed: '#8d6e63',
+    table: '#6d4c41',
+    bench: '#6d4c41',
+    chest: '#5d4037',
+    shelf: '#5d4037',
+    barrel: '#795548',
+    hearth: '#616161',
+    forge: '#4e4e4e',
+    anvil: '#37383a',
+    hay: '#d4b45a',
+};
+
+// Interior props: a box in the variant's colour, with a little detail for the common ones
+const Furniture = React.memo(({ data }: { data: Obstacle }) => {
+    if (!data.dims) return null;
+    const { w, h, d } = data.dims;
+    const color = FURNITURE_COLORS[data.variant || ''] || '#6d4c41';
+    return (
+        <group position={[data.position.x, data.position.y, data.position.z]} rotation={[0, data.rotation, 0]}>
+            {data.variant === 'barrel' ? (
+                <mesh castShadow>
+                    <cylinderGeometry args={[w / 2, w / 2.3, h, 10]} />
+                    <meshStandardMaterial color={color} roughness={0.9} />
+                </mesh>
+            ) : (
+                <mesh castShadow receiveShadow>
+                    <boxGeometry args={[w, h, d]} />
+                    <meshStandardMaterial color={color} roughness={0.9} />
+                </mesh>
+            )}
+            {data.variant === 'bed' && (
+                <mesh position={[0, h / 2 + 0.05, -d / 2 + 0.35]}>
+                    <boxGeometry args={[w * 0.8, 0.15, 0.5]} />
+                    <meshStandardMaterial color="#eeeeee" />
+                </mesh>
+            )}
+            {(data.variant === 'hearth' || data.variant === 'forge') && (
+                <mesh position={[0, h / 2 + 0.1, 0]}>
+                    <boxGeometry args={[w * 0.6, 0.2, d * 0.6]} />
+                    <meshStandardMaterial color="#ff6a00" emissive="#ff4500" emissiveIntensity={1.5} />
+                </mesh>
+            )}
+        </group>
+    );
+});
 
+// A post with a burning head; the flame material brightens at night
+const Torch = React.memo(({ data }: { data: Obstacle }) => (
+    <group position={[data.position.x, data.position.y, data.position.z]}>
+        <mesh position={[0, 1.1, 0]} castShadow>
+            <cylinderGeometry args={[0.07, 0.1, 2.2, 6]} />
+            <meshStandardMaterial color="#3e2723" roughness={1} />
+        </mesh>
+        <mesh position={[0, 2.25, 0]}>
+            <cylinderGeometry args={[0.14, 0.09, 0.2, 6]} />
+            <meshStandardMaterial color="#222" metalness={0.6} />
+        </mesh>
+        <mesh position={[0, 2.5, 0]} material={torchFlameMaterial}>
+            <coneGeometry args={[0.13, 0.35, 6]} />
+        </mesh>
+    </group>
+));
+
+// Terrain for one chunk, meshed off the main thread. While a new level of
+// detail is on its way the previous mesh stays up, so nothing flickers.
+const TerrainChunk = React.memo(({ x, z, seed, res, north, south, west, east, priority }: {
+    x: number, z: number, seed: number, res: number,
+    north: number, south: number, west: number, east: number, priority: number
+}) => {
+    const [geometry, setGeometry] = useState<THREE.BufferGeometry | null>(null);
+
+    useEffect(() => getTerrainMesher().request({ x, z, seed, res, seams: { north, south, west, east } }, priority, mesh => {
+        const geo = new THREE.BufferGeometry();
+        geo.setAttribute('position', new THREE.BufferAttribute(mesh.positions, 3));
+        geo.setAttribute('normal', new THREE.BufferAttribute(mesh.normals, 3));
+        geo.setAttribute('color', new THREE.BufferAttribute(mesh.colors, 3));
+        geo.setIndex(new THREE.BufferAttribute(mesh.indices, 1));
+        geo.computeBoundingSphere();
+        setGeometry(geo);
+    // Priority only orders the queue; a change of it does not call for a new mesh
+    }), [x, z, seed, res, north, south, west, east]);
+
+    useEffect(() => () => geometry?.dispose(), [geometry]);
+
+    if (!geometry) return null;
     return (
         <mesh geometry={geometry} position={[x * CHUNK_SIZE, 0, z * CHUNK_SIZE]} receiveShadow>
             <meshStandardMaterial vertexColors roughness={1} />
@@ -526,43 +408,23 @@ const TerrainChunk = React.memo(({ x, z, seed }: { x: number, z: number, seed: n
     );
 });
 
-// --- Physics & Collision ---
-
-const checkCollision = (position: THREE.Vector3, obstacles: Obstacle[], radius: number): boolean => {
-  for (const obs of obstacles) {
-    const dx = position.x - obs.position.x;
-    const dz = position.z - obs.position.z;
-    if (Math.abs(dx) > 15 || Math.abs(dz) > 15) continue;
-    if (obs.type === 'wall' && obs.dims) {
-        const cos = Math.cos(-obs.rotation);
-        const sin = Math.sin(-obs.rotation);
-        const localX = dx * cos - dz * sin;
-        const localZ = dx * sin + dz * cos;
-        const halfW = (obs.dims.w / 2) + radius;
-        const halfD = (obs.dims.d / 2) + radius;
-        if (Math.abs(localX) < halfW && Math.abs(localZ) < halfD) return true;
-    } else if (obs.radius > 0) {
-        const distSq = dx * dx + dz * dz;
-        const minDist = obs.radius + radius;
-        if (distSq < minDist * minDist) return true;
-    }
-  }
-  return false;
-};
-
 // --- Player & Game Logic ---
 
 // Visual Component for the Laser Beam (Weapon Tracer)
 const LaserBeam: React.FC<{ start: THREE.Vector3, end: THREE.Vector3 }> = ({ start, end }) => {
-    const ref = useRef<THREE.Mesh>(null);
     const distance = start.distanceTo(end);
     const position = start.clone().lerp(end, 0.5);
+    // Cylinders are built along +Y: turn that axis towards the impact point
+    const quaternion = useMemo(() => new THREE.Quaternion().setFromUnitVectors(
+        new THREE.Vector3(0, 1, 0),
+        end.clone().sub(start).normalize()
+    ), [start, end]);
 
     return (
-        <mesh ref={ref} position={position} lookAt={end}>
+        <mesh position={position} quaternion={quaternion}>
             <cylinderGeometry args={[0.03, 0.03, distance, 6]} />
             <meshBasicMaterial color="#ffff00" transparent opacity={0.8} />
-            <mesh rotation={[Math.PI/2, 0, 0]}>
+            <mesh>
                  <cylinderGeometry args={[0.06, 0.06, distance, 6]} />
                  <meshBasicMaterial color="#ffaa00" transparent opacity={0.3} blending={THREE.AdditiveBlending} />
             </mesh>
@@ -570,193 +432,73 @@ const LaserBeam: React.FC<{ start: THREE.Vector3, end: THREE.Vector3 }> = ({ sta
     );
 };
 
-const Weapon = ({ isFiring, isReloading }: { isFiring: boolean; isReloading: boolean }) => {
-    const group = useRef<THREE.Group>(null);
-    useFrame((state) => {
-        if(!group.current) return;
-        const t = state.clock.getElapsedTime();
-        group.current.position.y = -0.25 + Math.sin(t * 2) * 0.005;
-        group.current.position.x = 0.3 + Math.cos(t * 1.5) * 0.005;
-        
-        // Recoil
-        if (isFiring) {
-            group.current.position.z = Math.min(group.current.position.z + 0.1, -0.3);
-            group.current.rotation.x = 0.1;
-        } else {
-            group.current.position.z = THREE.MathUtils.lerp(group.current.position.z, -0.5, 0.1);
-            group.current.rotation.x = THREE.MathUtils.lerp(group.current.rotation.x, 0, 0.1);
-        }
+const IMPACT_COLORS: Record<SurfaceType, string> = {
+    ground: '#6b5a3e',
+    wood: '#a0743b',
+    plaster: '#f2e8d5',
+    stone: '#9e9e9e',
+    foliage: '#2e7d32',
+    flesh: '#b71c1c',
+};
+const IMPACT_PARTICLES = 6;
 
-        if(isReloading) {
-            group.current.rotation.x = -0.5;
-            group.current.rotation.z = -0.5;
-        } else {
-            group.current.rotation.z = 0;
-        }
+// Short burst of debris coloured by the surface that was hit
+const ImpactEffect: React.FC<{ point: THREE.Vector3, surface: SurfaceType }> = ({ point, surface }) => {
+    const group = useRef<THREE.Group>(null);
+    const velocities = useMemo(() => Array.from({ length: IMPACT_PARTICLES }, () =>
+        new THREE.Vector3((Math.random() - 0.5) * 4, Math.random() * 4, (Math.random() - 0.5) * 4)
+    ), []);
+
+    useFrame((_, delta) => {
+        if (!group.current) return;
+        group.current.children.forEach((child, i) => {
+            child.position.addScaledVector(velocities[i], delta);
+            velocities[i].y -= 15 * delta;
+        });
+        group.current.scale.multiplyScalar(Math.max(0, 1 - delta * 3));
     });
 
     return (
-        <group ref={group} position={[0.3, -0.25, -0.5]}>
-             <mesh castShadow>
-                 <boxGeometry args={[0.08, 0.1, 0.6]} />
-                 <meshStandardMaterial color="#222" />
-             </mesh>
-             <mesh position={[0, -0.05, 0.2]} rotation={[0.2,0,0]}>
-                 <boxGeometry args={[0.08, 0.15, 0.3]} />
-                 <meshStandardMaterial color="#5C4033" />
-             </mesh>
-             <mesh position={[0, 0.05, -0.4]}>
-                 <cylinderGeometry args={[0.015, 0.02, 0.4]} />
-                 <meshStandardMaterial color="#111" />
-             </mesh>
-             {/* Magazine */}
-             <mesh position={[0, -0.15, -0.1]} rotation={[0.2, 0, 0]}>
-                 <boxGeometry args={[0.06, 0.25, 0.1]} />
-                 <meshStandardMaterial color="#333" />
-             </mesh>
+        <group ref={group} position={point}>
+            {velocities.map((_, i) => (
+                <mesh key={i}>
+                    <boxGeometry args={[0.08, 0.08, 0.08]} />
+                    <meshBasicMaterial color={IMPACT_COLORS[surface]} />
+                </mesh>
+            ))}
         </group>
     );
 };
 
-const ProceduralCharacter: React.FC<{ enemy: Enemy; seed: number; terrainHeight: (x:number, z:number, s:number) => number }> = ({ enemy, seed, terrainHeight }) => {
-  const group = useRef<THREE.Group>(null);
-  const head = useRef<THREE.Mesh>(null);
-  const body = useRef<THREE.Mesh>(null);
-  const armL = useRef<THREE.Mesh>(null);
-  const armR = useRef<THREE.Mesh>(null);
-  const legL = useRef<THREE.Mesh>(null);
-  const legR = useRef<THREE.Mesh>(null);
-
-  const isDeadRef = useRef(false);
-  const velocityRef = useRef(new THREE.Vector3());
-  const config = ENEMY_CONFIG[enemy.type];
-
-  useFrame((state, delta) => {
-      if (!group.current) return;
-      const t = state.clock.getElapsedTime();
-      
-      if (enemy.isDead) {
-          if (!isDeadRef.current) {
-              isDeadRef.current = true;
-              if (enemy.velocity) velocityRef.current.copy(enemy.velocity);
-              else velocityRef.current.set(0, 5, 0); 
-          }
-          const vel = velocityRef.current;
-          group.current.position.add(vel.clone().multiplyScalar(delta));
-          vel.y -= 25 * delta; 
-          
-          const ground = terrainHeight(group.current.position.x, group.current.position.z, seed);
-          if (group.current.position.y < ground + 0.2) {
-              group.current.position.y = ground + 0.2;
-              vel.multiplyScalar(0.9); 
-              if (Math.abs(vel.y) < 0.1) vel.y = 0;
-              else vel.y *= -0.3; 
-          }
-          group.current.rotation.x = THREE.MathUtils.lerp(group.current.rotation.x, -Math.PI / 2, delta * 8);
-          return;
-      }
-
-      const terrainH = terrainHeight(enemy.position.x, enemy.position.z, seed);
-      group.current.position.set(enemy.position.x, terrainH + (0.9 * config.scale), enemy.position.z);
-      group.current.lookAt(0, group.current.position.y, 0); 
-
-      const walkSpeed = enemy.speed * 2;
-      const walkCycle = t * walkSpeed;
-      
-      if (legL.current && legR.current && armL.current && armR.current && body.current && head.current) {
-          legL.current.rotation.x = Math.sin(walkCycle) * 0.8;
-          legR.current.rotation.x = Math.sin(walkCycle + Math.PI) * 0.8;
-          if (enemy.type === 'villager' && !enemy.isAttacking) {
-              if (Math.abs(Math.sin(walkCycle)) > 0.1) {
-                   armL.current.rotation.z = 2.5; 
-                   armR.current.rotation.z = -2.5;
-                   armL.current.rotation.x = Math.sin(t * 15) * 0.5;
-                   armR.current.rotation.x = Math.cos(t * 15) * 0.5;
-              } else {
-                  armL.current.rotation.z = 0;
-                  armR.current.rotation.z = 0;
-              }
-          } else if (!enemy.isAttacking) {
-              armL.current.rotation.x = Math.sin(walkCycle + Math.PI) * 0.6;
-              armR.current.rotation.x = Math.sin(walkCycle) * 0.6;
-          } else {
-              armL.current.rotation.x = -Math.PI / 2 + Math.sin(t * 15) * 0.2;
-              armR.current.rotation.x = -Math.PI / 2 + Math.cos(t * 15) * 0.2;
-          }
-          body.current.rotation.y = Math.sin(walkCycle) * 0.1;
-          head.current.rotation.y = Math.sin(t) * 0.1;
-      }
-  });
-
-  const skinColor = config.color;
-  const isKnight = enemy.type === 'knight' || enemy.type === 'heavy';
-  const headColor = isKnight ? '#888' : '#e0ac69';
-
-  return (
-    <group ref={group} scale={[config.scale, config.scale, config.scale]}>
-        <mesh ref={head} position={[0, 0.7, 0]} castShadow>
-            <boxGeometry args={[0.4, 0.4, 0.4]} />
-            <meshStandardMaterial color={headColor} />
-            <mesh position={[0.1, 0.05, 0.21]}>
-                <planeGeometry args={[0.05, 0.05]} />
-                <meshBasicMaterial color="black" />
-            </mesh>
-            <mesh position={[-0.1, 0.05, 0.21]}>
-                <planeGeometry args={[0.05, 0.05]} />
-                <meshBasicMaterial color="black" />
-            </mesh>
-        </mesh>
-        <mesh ref={body} position={[0, 0.1, 0]} castShadow>
-            <boxGeometry args={[0.5, 0.8, 0.3]} />
-            <meshStandardMaterial color={skinColor} />
-        </mesh>
-        <group position={[-0.35, 0.4, 0]}>
-            <mesh ref={armL} position={[0, -0.3, 0]}>
-                <boxGeometry args={[0.15, 0.7, 0.15]} />
-                <meshStandardMaterial color={skinColor} />
-            </mesh>
-        </group>
-        <group position={[0.35, 0.4, 0]}>
-             <mesh ref={armR} position={[0, -0.3, 0]}>
-                <boxGeometry args={[0.15, 0.7, 0.15]} />
-                <meshStandardMaterial color={skinColor} />
-                 {isKnight && (
-                     <mesh position={[0, -0.4, 0.3]} rotation={[1.5, 0, 0]}>
-                         <boxGeometry args={[0.05, 0.8, 0.05]} />
-                         <meshStandardMaterial color="#ccc" metalness={0.8} roughness={0.2} />
-                         <mesh position={[0, -0.3, 0]} rotation={[0,0,1.57]}>
-                             <boxGeometry args={[0.05, 0.2, 0.05]} />
-                             <meshStandardMaterial color="#333" />
-                         </mesh>
-                     </mesh>
-                 )}
-            </mesh>
-        </group>
-        <group position={[-0.15, -0.3, 0]}>
-            <mesh ref={legL} position={[0, -0.35, 0]}>
-                <boxGeometry args={[0.18, 0.75, 0.18]} />
-                <meshStandardMaterial color="#111" />
-            </mesh>
-        </group>
-        <group position={[0.15, -0.3, 0]}>
-            <mesh ref={legR} position={[0, -0.35, 0]}>
-                <boxGeometry args={[0.18, 0.75, 0.18]} />
-                <meshStandardMaterial color="#111" />
-            </mesh>
-        </group>
-    </group>
-  );
-};
-
 const World = React.memo(({ obstacles, playerPos, seed }: { obstacles: Obstacle[], playerPos: THREE.Vector3, seed: number }) => {
     const cx = Math.floor(playerPos.x / CHUNK_SIZE);
     const cz = Math.floor(playerPos.z / CHUNK_SIZE);
     
+    // Trees, walls and roofs are batched per chunk
+    const instancedChunks = useMemo(() => {
+        const byChunk = new Map<string, Obstacle[]>();
+        obstacles.forEach(obs => {
+            if (!INSTANCED_TYPES.has(obs.type)) return;
+            const key = chunkKeyOfObstacle(obs.id);
+            const list = byChunk.get(key);
+            if (list) list.push(obs);
+            else byChunk.set(key, [obs]);
+        });
+        return Array.from(byChunk.entries());
+    }, [obstacles]);
+
+    // Rings of terrain around the player's chunk, coarser further out
     const visibleChunks = useMemo(() => {
+        const resAt = (x: number, z: number) => chunkResolution(Math.max(Math.abs(x - cx), Math.abs(z - cz)));
         const chunks = [];
-        for (let x = cx - RENDER_DISTANCE; x <= cx + RENDER_DISTANCE; x++) {
-            for (let z = cz - RENDER_DISTANCE; z <= cz + RENDER_DISTANCE; z++) {
-                chunks.push({ x, z, key: `${x}:${z}` });
+        for (let x = cx - TERRAIN_RENDER_DISTANCE; x <= cx + TERRAIN_RENDER_DISTANCE; x++) {
+            for (let z = cz - TERRAIN_RENDER_DISTANCE; z <= cz + TERRAIN_RENDER_DISTANCE; z++) {
+                chunks.push({
+                    x, z, key: `${x}:${z}`,
+                    res: resAt(x, z),
+                    north: resAt(x, z - 1), south: resAt(x, z + 1), west: resAt(x - 1, z), east: resAt(x + 1, z),
+                    priority: Math.max(Math.abs(x - cx), Math.abs(z - cz)),
+                });
             }
         }
         return chunks;
@@ -764,23 +506,30 @@ const World = React.memo(({ obstacles, playerPos, seed }: { obstacles: Obstacle[
 
     return (
         <>
-            <ambientLight intensity={0.4} />
-            <directionalLight position={[100, 100, 50]} intensity={1.5} castShadow shadow-mapSize={[2048, 2048]} />
-            <Sky sunPosition={[100, 40, 100]} />
-            <Stars />
-
-            {visibleChunks.map(c => <TerrainChunk key={c.key} x={c.x} z={c.z} seed={seed} />)}
+            {visibleChunks.map(c => (
+                <TerrainChunk
+                    key={c.key} x={c.x} z={c.z} seed={seed} res={c.res}
+                    north={c.north} south={c.south} west={c.west} east={c.east} priority={c.priority}
+                />
+            ))}
 
+            {instancedChunks.map(([key, list]) => <InstancedObstacles key={key} obstacles={list} />)}
             {obstacles.map(obs => {
+                if (INSTANCED_TYPES.has(obs.type)) return null;
                 if (Math.abs(obs.position.x - playerPos.x) > CHUNK_SIZE * (RENDER_DISTANCE + 0.5)) return null;
                 if (Math.abs(obs.position.z - playerPos.z) > CHUNK_SIZE * (RENDER_DISTANCE + 0.5)) return null;
 
                 switch(obs.type) {
-                    case 'wall': return <Wall key={obs.id} data={obs} />;
-                    case 'roof': return <Roof key={obs.id} data={obs} />;
                     case 'shop_table': return <ShopTable key={obs.id} data={obs} />;
                     case 'well': return <Well key={obs.id} data={obs} />;
-                    case 'tree': return <Tree key={obs.id} data={obs} />;
+                    case 'rock': return <Rock key={obs.id} data={obs} />;
+                    case 'ruin': return <Ruin key={obs.id} data={obs} />;
+                    case 'mountain': return <Mountain key={obs.id} data={obs} />;
+                    case 'signpost': return <Signpost key={obs.id} data={obs} />;
+                    case 'fence': return <Fence key={obs.id} data={obs} />;
+                    case 'palisade': return <Palisade key={obs.id} data={obs} />;
+                    case 'furniture': return <Furniture key={obs.id} data={obs} />;
+                    case 'torch': return <Torch key={obs.id} data={obs} />;
                     default: return null;
                 }
             })}
@@ -788,396 +537,399 @@ const World = React.memo(({ obstacles, playerPos, seed }: { obstacles: Obstacle[
     );
 });
 
+// Shop menu picks collected between simulation steps; everything else comes through the InputManager
+type PendingActions = Pick<SimInput, 'buyItem' | 'closeShop'>;
+const NO_PENDING_ACTIONS: PendingActions = { buyItem: null, closeShop: false };
+const RECOIL_TIME = 80; // ms the viewmodel stays kicked back after a shot
+const MAX_PITCH = Math.PI / 2 - 0.01;
+const DEATH_SCREEN_TIME = 2500; // ms on the death screen before the results
+const RESUME_GRACE = 200; // ms after pausing in which Escape cannot resume, see the Escape handler
+
 const GameController = ({ 
-    gameState,
+    sim,
     setGameState,
-    joystickData, 
     onShoot,
-    enemiesRef, 
     playerRef, 
-    obstacles, 
-    seed 
+    setObstacles,
+    pending,
+    input,
+    controls,
+    accessibility,
+    active
 }: { 
-    gameState: GameState,
+    sim: GameSimulation,
     setGameState: React.Dispatch<React.SetStateAction<GameState>>,
-    joystickData: {x: number, y: number}, 
-    onShoot: (fired: boolean, trigger: number) => void, 
-    enemiesRef: React.MutableRefObject<Enemy[]>, 
+    pending: React.MutableRefObject<PendingActions>,
+    input: InputManager,
+    controls: ControlSettings,
+    accessibility: AccessibilitySettings,
+    active: boolean, // False while paused or dead: the simulation clock stands still
+    onShoot: (fired: boolean) => void, 
     playerRef: React.MutableRefObject<THREE.Vector3>, 
-    obstacles: Obstacle[], 
-    seed: number 
+    setObstacles: (obstacles: Obstacle[]) => void
 }) => {
-    const { camera } = useThree();
-    const [, get] = useKeyboardControls();
-    const [enemies, setEnemies] = useState<Enemy[]>([]);
+    const { camera, gl } = useThree();
+    // Only re-render the enemy list when enemies are added or removed; positions are read live
     // Beams: Visual laser sticks
     const [beams, setBeams] = useState<{start: ThreeVector3, end: ThreeVector3, id: number}[]>([]);
-    const [shopMessage, setShopMessage] = useState<string | null>(null);
+    const [impacts, setImpacts] = useState<{point: ThreeVector3, surface: SurfaceType, id: number}[]>([]);
 
-    const lastShot = useRef(0);
-    const lastSpawn = useRef(0);
-    const isMouseDown = useRef(false);
     const shake = useRef(0);
+    const look = useMemo(() => new THREE.Euler(0, 0, 0, 'YXZ'), []);
 
     useEffect(() => {
-        camera.position.set(0, 5, 0);
-        setEnemies([]);
-    }, [seed]);
+        const p = sim.player.position;
+        camera.position.set(p.x, p.y, p.z);
+    }, [sim]);
 
-    useEffect(() => { enemiesRef.current = enemies; }, [enemies]);
+    const worldVersion = useRef(-1);
 
+    // Keyboard and mouse only while playing; the pointer stays free in the shop and on touch screens
+    const mouse = useRef<KeyboardMouseSource | null>(null);
     useEffect(() => {
-        const down = () => isMouseDown.current = true;
-        const up = () => isMouseDown.current = false;
-        const key = (e: KeyboardEvent) => {
-            if (e.key === 'r') reload();
-            if (e.key === 'e' && shopMessage) handleShopAction(); 
-        };
-        window.addEventListener('mousedown', down);
-        window.addEventListener('mouseup', up);
-        window.addEventListener('keydown', key);
-        return () => {
-            window.removeEventListener('mousedown', down);
-            window.removeEventListener('mouseup', up);
-            window.removeEventListener('keydown', key);
-        }
-    }, [shopMessage, gameState.gold]);
-
-    const reload = () => {
-        if (gameState.ammo < MAX_AMMO) {
-            setGameState(p => ({...p, ammo: MAX_AMMO}));
-            sfx.playReload();
-        }
-    };
-
-    const handleShopAction = () => {
-        if (!shopMessage) return;
-        setGameState(prev => {
-            if (shopMessage.includes("AMMO") && prev.gold >= 50) {
-                sfx.playBuy();
-                return { ...prev, gold: prev.gold - 50, ammo: MAX_AMMO };
-            }
-            if (shopMessage.includes("HEALTH") && prev.gold >= 100) {
-                sfx.playBuy();
-                return { ...prev, gold: prev.gold - 100, health: 100 };
-            }
-            if (shopMessage.includes("UPGRADE") && prev.gold >= 500) {
-                sfx.playBuy();
-                return { ...prev, gold: prev.gold - 500, damageMultiplier: prev.damageMultiplier + 0.5 };
+        const source = new KeyboardMouseSource(gl.domElement, () => sim.state.isPlaying && !sim.state.shopOpen && !isTouchDevice());
+        mouse.current = source;
+        return input.add(source);
+    }, [input, sim]);
+    useEffect(() => mouse.current?.configure(controls), [controls, sim]);
+
+    const handleEvent = (ev: SimEvent) => {
+        switch (ev.type) {
+            case 'shot': {
+                sfx.playShoot();
+                if (ev.impacts.some(i => i.hitEnemyId)) sfx.playHit();
+                shake.current = ev.weapon === 'shotgun' ? 0.05 : 0.02;
+                input.rumble(ev.weapon === 'shotgun' ? 0.6 : 0.25, 80);
+                // Start slightly down and right from camera to simulate gun barrel
+                const gunOffset = new THREE.Vector3(0.2, -0.25, -0.3).applyQuaternion(camera.quaternion);
+                const start = camera.position.clone().add(gunOffset);
+                ev.impacts.forEach(impact => {
+                    const end = new THREE.Vector3(impact.to.x, impact.to.y, impact.to.z);
+                    const id = Math.random();
+                    setBeams(p => [...p, { start, end, id }]);
+                    // Remove beam quickly (flash effect)
+                    setTimeout(() => setBeams(p => p.filter(b => b.id !== id)), 50);
+                    if (impact.surface) {
+                        const surface = impact.surface;
+                        setImpacts(p => [...p, { point: end, surface, id }]);
+                        setTimeout(() => setImpacts(p => p.filter(i => i.id !== id)), 400);
+                    }
+                });
+                break;
             }
-            sfx.playEmpty(); 
-            return prev;
-        });
+            case 'dry_fire': sfx.playEmpty(); break;
+            case 'reload': sfx.playReload(); break;
+            case 'weapon_switch': sfx.playTone(600, 'square', 0.04); break;
+            case 'enemy_shot': sfx.playBowShot(ev.kind); break;
+            case 'boss_phase':
+                sfx.playHorn();
+                shake.current = 0.04;
+                break;
+            case 'wall_destroyed':
+                sfx.playNoise(0.6, 500);
+                if (camera.position.distanceTo(new THREE.Vector3(ev.position.x, ev.position.y, ev.position.z)) < 30) shake.current = 0.04;
+                break;
+            case 'player_damaged':
+                sfx.playHurt();
+                shake.current = 0.05;
+                input.rumble(0.9, 200);
+                break;
+            case 'shop_buy': sfx.playBuy(); break;
+            case 'shop_denied': sfx.playEmpty(); break;
+            case 'commentary': gameEvents.emit({ type: ev.commentary, context: ev.context }); break;
+        }
     };
 
     useFrame((state, delta) => {
-        const time = state.clock.getElapsedTime() * 1000;
-        
-        // 1. Movement
-        const { fwd: kFwd, back: kBack, left: kLeft, right: kRight } = get();
-        
-        const speed = WALK_SPEED * delta;
-        const fwdVec = new THREE.Vector3(0,0,-1).applyQuaternion(camera.quaternion);
-        const rightVec = new THREE.Vector3(1,0,0).applyQuaternion(camera.quaternion);
-        fwdVec.y = 0; fwdVec.normalize();
-        rightVec.y = 0; rightVec.normalize();
-
-        const joyX = joystickData.x;
-        const joyY = joystickData.y;
-        const keyX = Number(kRight) - Number(kLeft);
-        const keyY = Number(kBack) - Number(kFwd);
-        const finalX = joyX + keyX;
-        const finalY = joyY + keyY;
-
-        let move = new THREE.Vector3();
-        if (finalX !== 0 || finalY !== 0) {
-            move.add(rightVec.multiplyScalar(finalX)).add(fwdVec.multiplyScalar(-finalY));
-            if (move.lengthSq() > 1) move.normalize();
-            move.multiplyScalar(speed);
+        if (!active) return;
+        const actions = input.read(delta);
+        look.setFromQuaternion(camera.quaternion);
+        if (actions.lookYaw !== 0 || actions.lookPitch !== 0) {
+            look.y += actions.lookYaw;
+            look.x = Math.max(-MAX_PITCH, Math.min(MAX_PITCH, look.x + actions.lookPitch));
+            camera.quaternion.setFromEuler(look);
         }
 
-        const nextPos = camera.position.clone().add(move);
-        if (!checkCollision(nextPos, obstacles, 0.5)) {
-            camera.position.x = nextPos.x;
-            camera.position.z = nextPos.z;
+        const simInput: SimInput = {
+            moveX: actions.moveX,
+            moveY: actions.moveY,
+            yaw: look.y,
+            pitch: look.x,
+            fire: actions.fire,
+            reload: actions.reload,
+            interact: actions.interact,
+            selectWeapon: actions.selectWeapon,
+            cycleWeapon: actions.cycleWeapon,
+            ...pending.current,
+        };
+        if (sim.advance(simInput, delta) > 0) {
+            input.consume();
+            pending.current = { ...NO_PENDING_ACTIONS };
         }
+        sim.drainEvents().forEach(handleEvent);
 
-        const ground = getTerrainHeight(camera.position.x, camera.position.z, seed);
-        const bob = move.length() > 0 ? Math.sin(time * 0.015) * 0.1 : 0;
-        camera.position.y = ground + PLAYER_HEIGHT + bob;
+        const p = sim.player.position;
+        const bob = sim.player.isMoving && accessibility.headBob ? Math.sin(sim.time * 0.015) * 0.1 : 0;
+        camera.position.set(p.x, p.y + bob, p.z);
         playerRef.current.copy(camera.position);
 
-        // Shop Check
-        let nearShop = false;
-        for(const obs of obstacles) {
-            if (Math.abs(obs.position.x - camera.position.x) > 10) continue;
-            if (obs.type === 'shop_table') {
-                if (camera.position.distanceTo(obs.position) < 3) {
-                    nearShop = true;
-                    if (gameState.gold >= 500) setShopMessage("PRESS 'E': UPGRADE DMG (500G)");
-                    else if (gameState.health < 50) setShopMessage("PRESS 'E': BUY HEALTH (100G)");
-                    else setShopMessage("PRESS 'E': BUY AMMO (50G)");
-                    break;
-                }
-            }
-        }
-        if (!nearShop) setShopMessage(null);
-
-        // --- SHOOTING LOGIC (HITSCAN) ---
-        if (isMouseDown.current && time - lastShot.current > FIRE_RATE) {
-            if (gameState.ammo > 0) {
-                lastShot.current = time;
-                setGameState(p => ({...p, ammo: p.ammo - 1}));
-                sfx.playShoot();
-                onShoot(true, time);
-                shake.current = 0.02;
-
-                // 1. RAYCAST FROM CENTER (The "Crosshair Stick")
-                const raycaster = new Raycaster();
-                raycaster.setFromCamera(new THREE.Vector2(0,0), camera);
-                
-                // Default hit point is far away
-                let hitPoint = raycaster.ray.at(100, new THREE.Vector3()); 
-                let hitId: string | null = null;
-                let minDist = 100;
-
-                setEnemies(prev => {
-                    const nextEnemies = prev.map(e => {
-                        if (e.isDead) return e;
-                        const config = ENEMY_CONFIG[e.type];
-                        const y = getTerrainHeight(e.position.x, e.position.z, seed) + (0.9 * config.scale);
-                        const ePos = new THREE.Vector3(e.position.x, y, e.position.z);
-                        
-                        // Hitbox logic: Use a generous sphere around the enemy
-                        // Increased hitbox size for better game feel (2.0 scale)
-                        const hitboxSize = 2.0 * config.scale; 
-                        
-                        // Math: Ray to point distance
-                        const distToRay = raycaster.ray.distanceSqToPoint(ePos);
-                        
-                        if (distToRay < hitboxSize * hitboxSize) {
-                             const distToCam = camera.position.distanceTo(ePos);
-                             // Check if this enemy is closer than previous hit and within range
-                             if (distToCam < minDist) {
-                                 minDist = distToCam;
-                                 hitId = e.id;
-                                 // Update hitpoint to be on the enemy
-                                 hitPoint.copy(ePos);
-                             }
-                        }
-                        return e;
-                    }).map(e => {
-                        if (e.id === hitId) {
-                            // Hit confirmed logic
-                            const newHp = e.hp - (35 * gameState.damageMultiplier);
-                            if (newHp <= 0) {
-                                return { 
-                                    ...e, 
-                                    hp: 0, 
-                                    isDead: true, 
-                                    deadTime: time,
-                                    velocity: raycaster.ray.direction.clone().normalize().multiplyScalar(8).add(new THREE.Vector3(0,4,0))
-                                };
-                            }
-                            return { ...e, hp: newHp };
-                        }
-                        return e;
-                    });
-
-                    if (hitId) {
-                        sfx.playHit();
-                        const hitEnemy = prev.find(e => e.id === hitId);
-                        if(hitEnemy && hitEnemy.hp > 0 && nextEnemies.find(e => e.id === hitId)?.hp === 0) {
-                             const cfg = ENEMY_CONFIG[hitEnemy.type];
-                             setGameState(g => ({...g, score: g.score + cfg.score, gold: g.gold + cfg.gold}));
-                        }
-                    }
-
-                    return nextEnemies;
-                });
-
-                // 2. VISUAL BEAM (The "Weapon Stick")
-                // Start slightly down and right from camera to simulate gun barrel
-                const gunOffset = new THREE.Vector3(0.2, -0.25, -0.3).applyQuaternion(camera.quaternion);
-                const start = camera.position.clone().add(gunOffset);
-                const id = Math.random();
-                
-                // Add beam to state
-                setBeams(p => [...p, { start, end: hitPoint, id }]);
-                
-                // Remove beam quickly (flash effect)
-                setTimeout(() => setBeams(p => p.filter(b => b.id !== id)), 50);
-
-            } else {
-                sfx.playEmpty();
-                if (gameState.ammo === 0) reload();
-                onShoot(false, 0);
-            }
-        } else if (!isMouseDown.current) {
-            onShoot(false, 0);
-        }
+        onShoot(sim.time - sim.lastShotAt < RECOIL_TIME);
 
-        if (shake.current > 0) {
+        if (shake.current > 0 && accessibility.screenShake) {
             camera.rotation.x += (Math.random() - 0.5) * shake.current;
             camera.rotation.y += (Math.random() - 0.5) * shake.current;
             shake.current *= 0.9;
         }
 
-        if (time - lastSpawn.current > ENEMY_SPAWN_RATE) {
-            lastSpawn.current = time;
-            const angle = Math.random() * Math.PI * 2;
-            const dist = 30 + Math.random() * 20;
-            const ex = camera.position.x + Math.cos(angle) * dist;
-            const ez = camera.position.z + Math.sin(angle) * dist;
-            const ey = getTerrainHeight(ex, ez, seed);
-            
-            const rand = Math.random();
-            let type: EnemyType = 'knight';
-            if (rand < 0.2) type = 'villager';
-            else if (rand > 0.8) type = 'heavy';
-            else if (rand < 0.4) type = 'peasant';
-
-            const cfg = ENEMY_CONFIG[type];
-
-            setEnemies(p => [...p, {
-                id: Math.random().toString(),
-                type: type, 
-                position: {x: ex, y: ey, z: ez},
-                hp: cfg.hp, maxHp: cfg.hp, speed: cfg.speed,
-                isAttacking: false
-            }]);
+        // Bails out when the state is unchanged
+        setGameState(sim.state);
+        if (worldVersion.current !== sim.world.version) {
+            worldVersion.current = sim.world.version;
+            setObstacles(sim.obstacles);
         }
-
-        setEnemies(prev => {
-            let damageDealt = 0;
-            const next = prev.map(e => {
-                if (e.isDead) return e;
-                const pPos = new THREE.Vector3(camera.position.x, 0, camera.position.z);
-                const ePos = new THREE.Vector3(e.position.x, 0, e.position.z);
-                const dist = pPos.distanceTo(ePos);
-                
-                if (dist > 50) return e;
-
-                if (e.type === 'villager') {
-                    if (dist < 15) {
-                         const dir = ePos.clone().sub(pPos).normalize();
-                         ePos.add(dir.multiplyScalar(e.speed * delta));
-                    }
-                } else {
-                    if (dist < 1.5) {
-                        e.isAttacking = true;
-                        damageDealt += 0.2;
-                    } else {
-                        e.isAttacking = false;
-                        const dir = pPos.sub(ePos).normalize();
-                        const nextPos = ePos.clone().add(dir.multiplyScalar(e.speed * delta));
-                        if (!checkCollision(nextPos, obstacles, 0.2)) {
-                            ePos.copy(nextPos);
-                        } else {
-                            const sideStep = nextPos.clone().add(new THREE.Vector3(1,0,0));
-                            if (!checkCollision(sideStep, obstacles, 0.2)) ePos.copy(sideStep);
-                        }
-                    }
-                }
-                
-                const ny = getTerrainHeight(ePos.x, ePos.z, seed);
-                return { ...e, position: {x: ePos.x, y: ny, z: ePos.z} };
-            }).filter(e => !e.isDead || (time - (e.deadTime || 0) < 3000));
-            
-            if (damageDealt > 0) {
-                 setGameState(g => {
-                     const nh = Math.max(0, g.health - damageDealt);
-                     if (nh === 0 && g.isPlaying) return { ...g, health: 0, isPlaying: false };
-                     return { ...g, health: nh };
-                 });
-                 shake.current = 0.05;
-            }
-            return next;
-        });
-
-        const shopEl = document.getElementById('shop-ui');
-        if (shopEl) shopEl.innerText = shopMessage || "";
     });
 
     return (
         <>
-            {enemies.map(e => <ProceduralCharacter key={e.id} enemy={e} seed={seed} terrainHeight={getTerrainHeight} />)}
+            <InstancedEnemies enemies={() => sim.enemies} seed={sim.seed} target={playerRef} />
+            <InstancedProjectiles projectiles={() => sim.projectiles} />
             {/* Render Beams (Visual Sticks) */}
             {beams.map(b => (
                 <LaserBeam key={b.id} start={b.start} end={b.end} />
             ))}
+            {impacts.map(i => (
+                <ImpactEffect key={i.id} point={i.point} surface={i.surface} />
+            ))}
         </>
     );
 };
 
+// Canvas only reads its camera prop once; later changes are applied here
+const CameraSettings = ({ fov }: { fov: number }) => {
+    const camera = useThree(state => state.camera) as THREE.PerspectiveCamera;
+    useEffect(() => {
+        camera.fov = fov;
+        camera.updateProjectionMatrix();
+    }, [camera, fov]);
+    return null;
+};
+
 export default function App() {
-  const [gameState, setGameState] = useState<GameState>({
-    score: 0, gold: 0, health: 100, wave: 1, isPlaying: false, ammo: MAX_AMMO, damageMultiplier: 1
-  });
+  const [gameState, setGameState] = useState<GameState>({ ...createInitialGameState(), isPlaying: false });
+  const [screen, dispatch] = useReducer(flowReducer, 'title' as Screen);
+  const [results, setResults] = useState<RunStats | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const pausedAt = useRef(0);
   
   const [obstacles, setObstacles] = useState<Obstacle[]>([]);
   const [seed, setSeed] = useState(123);
-  const [joystick, setJoystick] = useState({x: 0, y: 0});
+  // Seed box on the title screen, prefilled from a shared ?seed= link
+  const [seedInput, setSeedInput] = useState(() => new URLSearchParams(window.location.search).get('seed') || '');
   const [isFiring, setIsFiring] = useState(false);
   const [commentary, setCommentary] = useState("");
   
-  const enemiesRef = useRef<Enemy[]>([]);
+  const simRef = useRef<GameSimulation | null>(null);
+  const pendingRef = useRef<PendingActions>({ ...NO_PENDING_ACTIONS });
+  const runRecorded = useRef(false);
+  const [profile, setProfile] = useState(loadProfile);
+  const [savedRun, setSavedRun] = useState(() => loadRun(createInitialGameState()));
   const playerRef = useRef(new THREE.Vector3());
-  const loadedChunksRef = useRef(new Set<string>());
-
-  const startGame = () => {
-      const newSeed = Math.random() * 999999;
-      setSeed(newSeed);
-      setGameState({ score: 0, gold: 0, health: 100, wave: 1, isPlaying: true, ammo: MAX_AMMO, damageMultiplier: 1 });
+  const input = useMemo(() => new InputManager(), []);
+  const touchInput = useMemo(() => new TouchSource(), []);
+  const gamepad = useMemo(() => new GamepadSource(), []);
+  const isTouch = useMemo(isTouchDevice, []);
+  const [settings, setSettings] = useState(loadSettings);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const changeSettings = useCallback((next: Settings) => {
+      setSettings(next);
+      saveSettings(next);
+  }, []);
+  const closeSettings = useCallback(() => setSettingsOpen(false), []);
+
+  useEffect(() => sfx.setVolume(settings.audio.masterVolume, settings.audio.weatherVolume), [settings.audio]);
+  useEffect(() => gamepad.configure(settings.controls), [gamepad, settings.controls]);
+
+  useEffect(() => {
+      const removers = [input.add(touchInput), input.add(gamepad)];
+      return () => removers.forEach(remove => remove());
+  }, [input, touchInput, gamepad]);
+
+  useEffect(() => {
+      const provider = hasGeminiKey()
+          ? withFallback(geminiProvider, createCannedProvider())
+          : createCannedProvider();
+      const scheduler = new CommentaryScheduler(provider, line => setCommentary(line));
+      const off = gameEvents.on(event => scheduler.request(event));
+      return () => {
+          off();
+          scheduler.dispose();
+      };
+  }, []);
+
+  const beginRun = (sim: GameSimulation) => {
+      simRef.current = sim;
+      runRecorded.current = false;
+      setSeed(sim.seed);
+      // Keep the address bar shareable: opening it replays this seed
+      const url = new URL(window.location.href);
+      url.searchParams.set('seed', String(sim.seed));
+      window.history.replaceState(null, '', url.toString());
+      setGameState(sim.state);
       setObstacles([]); 
-      loadedChunksRef.current.clear(); 
+      setCommentary("");
+      pendingRef.current = { ...NO_PENDING_ACTIONS };
+      input.consume();
       sfx.init();
+      setResults(null);
+      dispatch({ type: 'start', state: sim.state });
+      gameEvents.emit({ type: 'intro', context: sim.commentaryContext() });
+  };
+
+  const startGame = (worldSeed: number) => {
+      const sim = new GameSimulation(worldSeed);
+      sim.state = applyUnlocks(sim.state, profile);
+      clearRun();
+      setSavedRun(null);
+      beginRun(sim);
   };
 
-  const WorldGen = () => {
-      const { camera } = useThree();
-      useFrame(() => {
-          if (!gameState.isPlaying) return;
-
-          const cx = Math.floor(camera.position.x / CHUNK_SIZE);
-          const cz = Math.floor(camera.position.z / CHUNK_SIZE);
-          
-          let newObs: Obstacle[] = [];
-          let hasNew = false;
-
-          for(let x = cx - RENDER_DISTANCE; x <= cx + RENDER_DISTANCE; x++) {
-              for(let z = cz - RENDER_DISTANCE; z <= cz + RENDER_DISTANCE; z++) {
-                  const key = `${x}:${z}`;
-                  if (!loadedChunksRef.current.has(key)) {
-                      loadedChunksRef.current.add(key);
-                      newObs.push(...generateChunk(x, z, seed));
-                      hasNew = true;
-                  }
-              }
-          }
-
-          if (hasNew) {
-              setObstacles(prev => [...prev, ...newObs]);
-          }
+  const continueRun = () => {
+      if (savedRun) beginRun(GameSimulation.fromSave(savedRun));
+  };
+
+  const persistRun = useCallback(() => {
+      const sim = simRef.current;
+      if (!sim || !sim.state.isPlaying) return;
+      const save = sim.toSave();
+      saveRun(save);
+      setSavedRun(save);
+  }, []);
+
+  // Autosave between waves and whenever the tab is hidden or closed
+  useEffect(() => {
+      if (gameState.isPlaying && gameState.wavePhase === 'intermission' && gameState.wave > 0) persistRun();
+  }, [gameState.isPlaying, gameState.wavePhase, gameState.wave]);
+
+  useEffect(() => {
+      const onHide = () => { if (document.visibilityState === 'hidden') persistRun(); };
+      document.addEventListener('visibilitychange', onHide);
+      window.addEventListener('pagehide', persistRun);
+      return () => {
+          document.removeEventListener('visibilitychange', onHide);
+          window.removeEventListener('pagehide', persistRun);
+      };
+  }, [persistRun]);
+
+  // The simulation decides when the shop opens, waves break and the player dies
+  useEffect(() => {
+      dispatch({ type: 'sync', state: gameState });
+  }, [gameState.isPlaying, gameState.shopOpen, gameState.wavePhase]);
+
+  // A death ends the run: drop the save and fold the run into the profile
+  useEffect(() => {
+      const sim = simRef.current;
+      if (gameState.isPlaying || !sim || runRecorded.current) return;
+      runRecorded.current = true;
+      clearRun();
+      setSavedRun(null);
+      const context = sim.commentaryContext();
+      setResults({
+          seed: sim.seed,
+          wave: sim.state.wave,
+          score: sim.state.score,
+          goldEarned: sim.state.goldEarned,
+          time: sim.time,
+          kills: context.enemiesKilled,
+          newBestWave: sim.state.wave > profile.bestWave,
+          newBestScore: sim.state.score > profile.bestScore,
       });
-      return null;
+      const next = recordRun(profile, sim.state);
+      saveProfile(next);
+      setProfile(next);
+      document.exitPointerLock();
+  }, [gameState.isPlaying]);
+
+  useEffect(() => {
+      if (screen !== 'game_over') return;
+      const timer = setTimeout(() => dispatch({ type: 'show_results' }), DEATH_SCREEN_TIME);
+      return () => clearTimeout(timer);
+  }, [screen]);
+
+  const pause = useCallback(() => {
+      pausedAt.current = performance.now();
+      dispatch({ type: 'pause' });
+  }, []);
+
+  const resume = () => {
+      const sim = simRef.current;
+      if (!sim) return;
+      // Drop whatever was pressed on the menu
+      input.read(0);
+      input.consume();
+      dispatch({ type: 'resume', state: sim.state });
+      if (!isTouch && canvasRef.current?.requestPointerLock) {
+          Promise.resolve(canvasRef.current.requestPointerLock()).catch(() => {});
+      }
   };
 
-  const keys = useMemo(()=> [
-      { name: 'fwd', keys: ['w', 'ArrowUp'] }, 
-      { name: 'back', keys: ['s', 'ArrowDown'] }, 
-      { name: 'left', keys: ['a', 'ArrowLeft'] }, 
-      { name: 'right', keys: ['d', 'ArrowRight'] }
-  ], []);
+  const quitToTitle = () => {
+      persistRun();
+      dispatch({ type: 'quit' });
+      document.exitPointerLock();
+  };
+
+  // Losing the mouse (Escape while captured, alt-tab) pauses, except where the game freed it
+  useEffect(() => {
+      const onLockChange = () => {
+          const sim = simRef.current;
+          if (document.pointerLockElement || !sim || !sim.state.isPlaying || sim.state.shopOpen) return;
+          pause();
+      };
+      const onHide = () => { if (document.visibilityState === 'hidden') pause(); };
+      document.addEventListener('pointerlockchange', onLockChange);
+      document.addEventListener('visibilitychange', onHide);
+      return () => {
+          document.removeEventListener('pointerlockchange', onLockChange);
+          document.removeEventListener('visibilitychange', onHide);
+      };
+  }, [pause]);
+
+  // Escape when the mouse is free (touch, or not captured yet). Some browsers
+  // also deliver the Escape that released the capture, which must not resume.
+  useEffect(() => {
+      const key = (e: KeyboardEvent) => {
+          if (e.code !== 'Escape') return;
+          if (screen === 'paused' && performance.now() - pausedAt.current > RESUME_GRACE) resume();
+          else if (screen !== 'paused') pause();
+      };
+      window.addEventListener('keydown', key);
+      return () => window.removeEventListener('keydown', key);
+  });
+
+  const activeSlot = activeWeaponSlot(gameState);
+  const upcomingBoss = getWaveDefinition(gameState.wave + 1).boss;
+
+  const buyItem = useCallback((itemId: string) => { pendingRef.current.buyItem = itemId; }, []);
+  const closeShop = useCallback(() => { pendingRef.current.closeShop = true; }, []);
+
+  // The menu needs the cursor; clicking the canvas re-locks it after closing
+  useEffect(() => {
+      if (gameState.shopOpen) document.exitPointerLock();
+  }, [gameState.shopOpen]);
 
   return (
     <div className="w-full h-screen bg-black relative select-none">
-        {gameState.isPlaying && (
+        {isInRun(screen) && (
             <div className="absolute inset-0 z-20 pointer-events-none p-4 flex flex-col justify-between">
                 <div className="flex justify-between items-start">
                      <div className="text-white font-mono bg-black/40 p-2 rounded backdrop-blur-md">
                          <div className="text-2xl font-bold text-yellow-500">SCORE: {gameState.score}</div>
                          <div className="text-xl text-yellow-300">GOLD: ${gameState.gold}</div>
+                         <div className="text-lg text-red-400">WAVE {gameState.wave}</div>
+                         <div className="text-xs text-gray-400">
+                             {gameState.isNight ? 'NIGHT' : 'DAY'}{gameState.weather !== 'clear' && ` · ${gameState.weather.toUpperCase()}`}
+                         </div>
+                         <div className="text-xs text-gray-400">SEED {seed}</div>
                      </div>
                      <div className="text-cyan-400 font-mono text-xs max-w-xs text-right bg-black/40 p-2 rounded">
                          {commentary || "MedievalGemini System Online."}
@@ -1185,8 +937,27 @@ export default function App() {
                 </div>
                 
                 <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-2 h-2 bg-white rounded-full shadow-[0_0_10px_white]" />
+
+                {isTouch && screen !== 'paused' && (
+                    <button onClick={pause} className="absolute top-4 left-1/2 -translate-x-1/2 w-10 h-10 rounded-full bg-black/50 text-white font-bold pointer-events-auto">
+                        II
+                    </button>
+                )}
                 
-                <div id="shop-ui" className="absolute top-2/3 left-1/2 -translate-x-1/2 text-2xl font-black text-white drop-shadow-md text-center"></div>
+                {gameState.boss && <BossBar boss={gameState.boss} />}
+
+                {screen === 'intermission' && (
+                    <div className="absolute top-1/4 left-1/2 -translate-x-1/2 text-3xl font-black text-red-500 drop-shadow-md text-center">
+                        WAVE {gameState.wave + 1} INCOMING
+                        {upcomingBoss && <div className="text-xl text-yellow-400">{BOSS_CONFIG[upcomingBoss].name} APPROACHES</div>}
+                    </div>
+                )}
+
+                {gameState.nearShop && !gameState.shopOpen && (
+                    <div className="absolute top-2/3 left-1/2 -translate-x-1/2 text-2xl font-black text-white drop-shadow-md text-center">
+                        {isTouch ? 'TAP USE' : "PRESS 'E'"} TO OPEN SHOP
+                    </div>
+                )}
 
                 <div className="flex justify-between items-end">
                     <div className="w-48">
@@ -1196,52 +967,129 @@ export default function App() {
                         </div>
                     </div>
                     <div className="text-right text-white">
-                        <div className="text-4xl font-bold">{gameState.ammo} <span className="text-lg text-gray-400">/ ∞</span></div>
-                        <div className="text-xs text-gray-400">AK-47 LVL {gameState.damageMultiplier}</div>
+                        <div className="text-4xl font-bold">{activeSlot.ammo} <span className="text-lg text-gray-400">/ {activeSlot.reserve}</span></div>
+                        <div className="text-xs text-gray-400">
+                            {gameState.isReloading ? 'RELOADING...' : `${WEAPONS[activeSlot.id].name} LVL ${gameState.damageMultiplier}`}
+                        </div>
+                        <div className="flex gap-1 justify-end mt-1">
+                            {gameState.weapons.map((w, i) => (
+                                <div key={w.id} className={`text-[10px] px-1 rounded ${i === gameState.activeWeapon ? 'bg-white text-black' : 'bg-black/40 text-gray-400'}`}>
+                                    {i + 1} {WEAPONS[w.id].name}
+                                </div>
+                            ))}
+                        </div>
                     </div>
                 </div>
             </div>
         )}
 
-        {!gameState.isPlaying && (
+        {screen === 'shop' && (
+            <ShopMenu state={gameState} bindings={settings.controls.bindings} onBuy={buyItem} onClose={closeShop} />
+        )}
+
+        {screen === 'paused' && (
+            <PauseMenu wave={gameState.wave} seed={seed} onResume={resume} onSettings={() => setSettingsOpen(true)} onQuit={quitToTitle} />
+        )}
+
+        {screen === 'game_over' && (
+            <div
+                className="absolute inset-0 z-50 flex items-center justify-center bg-red-900/40 pointer-events-auto"
+                onClick={() => dispatch({ type: 'show_results' })}
+            >
+                <div className="text-7xl font-black text-red-500 drop-shadow-md">YOU DIED</div>
+            </div>
+        )}
+
+        {screen === 'results' && results && (
+            <RunResults
+                stats={results}
+                onRetry={() => startGame(results.seed)}
+                onNewRun={() => startGame(randomSeed())}
+                onQuit={() => dispatch({ type: 'quit' })}
+            />
+        )}
+
+        {screen === 'title' && (
             <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/90">
                 <div className="text-center">
                     <h1 className="text-6xl text-purple-500 font-black mb-4">MEDIEVAL GEMINI</h1>
                     <p className="text-gray-400 mb-8">Defend the timeline. Upgrade weapons. Survive.</p>
-                    <button onClick={startGame} className="px-8 py-3 bg-white text-black font-bold text-xl hover:bg-gray-200 pointer-events-auto">
-                        DEPLOY
-                    </button>
-                    {gameState.health <= 0 && gameState.score > 0 && <p className="mt-4 text-red-500 font-mono">MISSION FAILED</p>}
+                    <div className="flex flex-col items-center gap-3">
+                        {savedRun && (
+                            <button onClick={continueRun} className="px-8 py-3 bg-purple-500 text-white font-bold text-xl hover:bg-purple-400 pointer-events-auto">
+                                CONTINUE (WAVE {savedRun.state.wave})
+                            </button>
+                        )}
+                        <input
+                            value={seedInput}
+                            onChange={e => setSeedInput(e.target.value)}
+                            placeholder="SEED (RANDOM)"
+                            className="w-64 px-3 py-2 bg-gray-900 text-white font-mono text-center border border-gray-600 pointer-events-auto"
+                        />
+                        <button onClick={() => startGame(parseSeed(seedInput) ?? randomSeed())} className="px-8 py-3 bg-white text-black font-bold text-xl hover:bg-gray-200 pointer-events-auto">
+                            {savedRun ? 'NEW RUN' : 'DEPLOY'}
+                        </button>
+                        <button onClick={() => startGame(dailySeed())} className="px-6 py-2 bg-yellow-600 text-black font-bold hover:bg-yellow-500 pointer-events-auto">
+                            DAILY RUN ({dateKey()})
+                        </button>
+                        <button onClick={() => setSettingsOpen(true)} className="px-6 py-2 bg-gray-700 text-white font-bold hover:bg-gray-600 pointer-events-auto">
+                            SETTINGS
+                        </button>
+                    </div>
+                    {profile.runs > 0 && (
+                        <div className="mt-8 text-gray-400 font-mono text-sm">
+                            <div>BEST WAVE {profile.bestWave} · BEST SCORE {profile.bestScore} · LIFETIME GOLD {profile.lifetimeGold}</div>
+                            {UNLOCKS.filter(u => profile.unlocks.includes(u.id)).map(u => (
+                                <div key={u.id} className="text-yellow-500 text-xs">{u.name}: {u.description}</div>
+                            ))}
+                        </div>
+                    )}
                 </div>
             </div>
         )}
 
-        {gameState.isPlaying && (
-            <div className="absolute bottom-10 left-10 z-30 pointer-events-auto">
-                <Joystick onMove={(x, y) => setJoystick({x, y})} />
-            </div>
+        {(screen === 'playing' || screen === 'intermission') && (
+            <TouchControls
+                settings={settings.touch}
+                showLook={isTouch} nearShop={gameState.nearShop}
+                onMove={(x, y) => touchInput.move(x, y)}
+                onLook={(yaw, pitch) => touchInput.look(yaw, pitch)}
+                onFire={held => touchInput.setFire(held)}
+                onReload={() => touchInput.press('reload')}
+                onInteract={() => touchInput.press('interact')}
+                onSwapWeapon={() => touchInput.swapWeapon()}
+            />
         )}
 
-        <KeyboardControls map={keys}>
-        <Canvas shadows camera={{ fov: 70 }}>
+        {settingsOpen && <SettingsMenu settings={settings} onChange={changeSettings} onClose={closeSettings} />}
+
+        <Canvas shadows camera={{ fov: settings.graphics.fov }} onCreated={({ gl }) => { canvasRef.current = gl.domElement; }}>
             <Suspense fallback={null}>
+                <CameraSettings fov={settings.graphics.fov} />
+                <Atmosphere
+                    environment={() => simRef.current ? simRef.current.environment : getEnvironment(seed, 0)}
+                    playerPos={playerRef} obstacles={obstacles} sounds={sfx}
+                    maxFogDistance={CHUNK_SIZE * TERRAIN_RENDER_DISTANCE}
+                    shadowMapSize={SHADOW_MAP_SIZES[settings.graphics.shadowQuality]}
+                    reduceFlashing={settings.accessibility.reduceFlashing}
+                    paused={screen === 'paused'}
+                />
                 <World obstacles={obstacles} playerPos={playerRef.current} seed={seed} />
-                <WorldGen />
-                {gameState.isPlaying && (
+                {(isInRun(screen) || screen === 'game_over') && simRef.current && (
                     <>
-                        <PointerLockControls makeDefault />
                         <GameController 
-                            gameState={gameState} setGameState={setGameState}
-                            joystickData={joystick} 
+                            active={isRunning(screen)}
+                            sim={simRef.current} setGameState={setGameState}
                             onShoot={(f) => setIsFiring(f)} 
-                            enemiesRef={enemiesRef} playerRef={playerRef} obstacles={obstacles} seed={seed}
+                            playerRef={playerRef} setObstacles={setObstacles}
+                            pending={pendingRef} input={input}
+                            controls={settings.controls} accessibility={settings.accessibility}
                         />
-                        <Weapon isFiring={isFiring} isReloading={gameState.ammo === 0} />
+                        {isInRun(screen) && <Weapon weapon={activeSlot.id} isFiring={isFiring} isReloading={gameState.isReloading} />}
                     </>
                 )}
             </Suspense>
         </Canvas>
-        </KeyboardControls>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,229 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Sky, Stars } from '@react-three/drei';
+import * as THREE from 'three';
+import { Obstacle } from '../types';
+import { Environment } from '../game/environment';
+
+// --- Atmosphere ---
+// Sun and moon, sky, fog, torchlight and precipitation, all driven each frame
+// from the simulation's Environment. Purely visual: gameplay reads the
+// Environment directly.
+
+export interface WeatherSounds {
+  setRain: (level: number) => void; // 0..1
+  playThunder: () => void;
+}
+
+const DAY_FOG = new THREE.Color('#c3ccd1');
+const NIGHT_FOG = new THREE.Color('#0b1020');
+const STORM_FOG = new THREE.Color('#5d646c');
+const SUN_COLOR = new THREE.Color('#fff4e0');
+const DUSK_COLOR = new THREE.Color('#ff9a50');
+const MOON_COLOR = new THREE.Color('#8fa8ff');
+const NIGHT_AMBIENT = new THREE.Color('#4a5a8a');
+
+const TORCH_LIGHTS = 4; // Only the nearest torches cast real light
+const TORCH_INTENSITY = 30;
+const TORCH_RESORT_DISTANCE = 2; // The nearest torches are only looked for again after walking this far
+const LIGHT_DISTANCE = 100; // Sun and moon lights sit this far from the player
+const SHADOW_EXTENT = 60;
+
+const RAIN_DROPS = 2000;
+const RAIN_AREA = 40; // Side of the box of rain kept around the camera
+const RAIN_HEIGHT = 25;
+const RAIN_SPEED = 30;
+const DROP_LENGTH = 0.6;
+const LIGHTNING_CHANCE = 0.2; // Strikes per second in a full storm
+
+// Shared by every torch; glows brighter as night falls
+export const torchFlameMaterial = new THREE.MeshStandardMaterial({ color: '#ffb347', emissive: '#ff7a1a', emissiveIntensity: 0.3 });
+
+// How much the weather dims and greys the scene, 0..1
+const overcastOf = (env: Environment) => {
+  switch (env.weather) {
+    case 'storm': return env.intensity;
+    case 'rain': return env.intensity * 0.6;
+    case 'fog': return env.intensity * 0.4;
+    default: return 0;
+  }
+};
+
+const rainLevelOf = (env: Environment) => env.weather === 'rain' || env.weather === 'storm' ? env.intensity : 0;
+
+export const Atmosphere = ({ environment, playerPos, obstacles, maxFogDistance, shadowMapSize, reduceFlashing, paused, sounds }: {
+  environment: () => Environment;
+  playerPos: React.MutableRefObject<THREE.Vector3>;
+  obstacles: Obstacle[]; // Torches are picked out of these
+  maxFogDistance: number; // Where the world ends on a clear day
+  shadowMapSize: number; // 0 for no shadows
+  reduceFlashing: boolean; // Thunder without the lightning
+  paused: boolean; // No lightning strikes while the game is paused
+  sounds?: WeatherSounds;
+}) => {
+  const sky = useRef<React.ComponentRef<typeof Sky>>(null);
+  const stars = useRef<THREE.Group>(null);
+  const sun = useRef<THREE.DirectionalLight>(null);
+  const ambient = useRef<THREE.AmbientLight>(null);
+  const torchLights = useRef<(THREE.PointLight | null)[]>([]);
+  const rain = useRef<THREE.LineSegments>(null);
+  const flash = useRef(0);
+
+  const fog = useMemo(() => new THREE.Fog(DAY_FOG.clone(), 0, maxFogDistance), [maxFogDistance]);
+  const torches = useMemo(() => obstacles.filter(o => o.type === 'torch'), [obstacles]);
+  // The torches nearest to where the player was when they were last picked
+  const nearestTorches = useRef<{ from: Obstacle[] | null; x: number; z: number; nearest: Obstacle[] }>({ from: null, x: 0, z: 0, nearest: [] });
+
+  const rainGeometry = useMemo(() => {
+    const geo = new THREE.BufferGeometry();
+    geo.setAttribute('position', new THREE.BufferAttribute(new Float32Array(RAIN_DROPS * 6), 3));
+    return geo;
+  }, []);
+  useEffect(() => () => rainGeometry.dispose(), [rainGeometry]);
+  const rainSeeded = useRef(false);
+
+  // A new size only takes once the old shadow map is thrown away
+  useEffect(() => {
+    const light = sun.current;
+    if (!light) return;
+    light.castShadow = shadowMapSize > 0;
+    if (shadowMapSize > 0) light.shadow.mapSize.set(shadowMapSize, shadowMapSize);
+    light.shadow.map?.dispose();
+    light.shadow.map = null;
+  }, [shadowMapSize]);
+
+  // The rain loop keeps playing otherwise
+  useEffect(() => () => sounds?.setRain(0), [sounds]);
+
+  useFrame((_, delta) => {
+    const env = environment();
+    const player = playerPos.current;
+    const overcast = overcastOf(env);
+    const night = 1 - env.daylight;
+
+    // Sun path: rises in the east (+x), peaks to the south, sets in the west
+    const angle = (env.timeOfDay - 0.25) * Math.PI * 2;
+    const sunDir = new THREE.Vector3(Math.cos(angle), Math.sin(angle), 0.35).normalize();
+    if (sky.current) {
+      const uniforms = sky.current.material.uniforms;
+      uniforms.sunPosition.value.copy(sunDir);
+      uniforms.turbidity.value = 8 + overcast * 12;
+      uniforms.rayleigh.value = 2 + overcast * 2;
+    }
+    if (stars.current) stars.current.visible = env.daylight < 0.35 && overcast < 0.3;
+
+    // Lightning: a bright flash now, thunder a moment later
+    if (!paused && env.weather === 'storm' && Math.random() < LIGHTNING_CHANCE * env.intensity * delta) {
+      if (!reduceFlashing) flash.current = 1;
+      if (sounds) setTimeout(() => sounds.playThunder(), 300 + Math.random() * 1500);
+    }
+    flash.current = Math.max(0, flash.current - delta * 5);
+
+    // One directional light is the sun by day and the moon by night
+    if (sun.current) {
+      const isMoon = env.sunElevation < 0;
+      const dir = isMoon ? sunDir.clone().negate() : sunDir;
+      sun.current.position.copy(player).addScaledVector(dir, LIGHT_DISTANCE);
+      sun.current.target.position.copy(player);
+      sun.current.target.updateMatrixWorld();
+      if (isMoon) {
+        sun.current.color.copy(MOON_COLOR);
+        sun.current.intensity = 0.15 * (1 - overcast);
+      } else {
+        // Warm and low near the horizon
+        sun.current.color.copy(DUSK_COLOR).lerp(SUN_COLOR, Math.min(1, env.sunElevation * 3));
+        sun.current.intensity = 1.5 * env.daylight * (1 - overcast * 0.6);
+      }
+    }
+    if (ambient.current) {
+      ambient.current.color.copy(NIGHT_AMBIENT).lerp(SUN_COLOR, env.daylight);
+      ambient.current.intensity = (0.08 + 0.32 * env.daylight) * (1 - overcast * 0.3) + flash.current * 2;
+    }
+
+    // Fog closes in with the visibility the simulation uses
+    fog.color.copy(DAY_FOG).lerp(STORM_FOG, overcast).lerp(NIGHT_FOG, night);
+    fog.far = Math.min(maxFogDistance, env.visibility * 3.6);
+    fog.near = fog.far * 0.2;
+
+    // Nearest torches get the real lights, flickering a little
+    torchFlameMaterial.emissiveIntensity = 0.3 + 2.5 * night;
+    const picked = nearestTorches.current;
+    if (picked.from !== torches || Math.hypot(player.x - picked.x, player.z - picked.z) > TORCH_RESORT_DISTANCE) {
+      picked.nearest = torches.length <= TORCH_LIGHTS ? torches : [...torches]
+        .sort((a, b) =>
+          Math.hypot(a.position.x - player.x, a.position.z - player.z) - Math.hypot(b.position.x - player.x, b.position.z - player.z))
+        .slice(0, TORCH_LIGHTS);
+      picked.from = torches;
+      picked.x = player.x;
+      picked.z = player.z;
+    }
+    const nearest = picked.nearest;
+    torchLights.current.forEach((light, i) => {
+      if (!light) return;
+      const torch = nearest[i];
+      light.visible = !!torch && night > 0.2;
+      if (!light.visible) return;
+      light.position.set(torch.position.x, torch.position.y + 2.3, torch.position.z);
+      light.intensity = TORCH_INTENSITY * night * (0.9 + Math.random() * 0.2);
+    });
+
+    // Rain falls through a box that follows the camera, wrapping round its sides
+    const rainLevel = rainLevelOf(env);
+    sounds?.setRain(rainLevel);
+    if (!rain.current) return;
+    rain.current.visible = rainLevel > 0.02;
+    if (!rain.current.visible) return;
+    const positions = rainGeometry.attributes.position as THREE.BufferAttribute;
+    const arr = positions.array as Float32Array;
+    const count = Math.floor(RAIN_DROPS * rainLevel * (env.weather === 'storm' ? 1 : 0.6));
+    const windX = env.weather === 'storm' ? 6 : 1.5;
+    const half = RAIN_AREA / 2;
+    for (let i = 0; i < count; i++) {
+      const v = i * 6;
+      let x = arr[v], y = arr[v + 1], z = arr[v + 2];
+      if (!rainSeeded.current || y < player.y - RAIN_HEIGHT / 2) {
+        x = player.x + (Math.random() - 0.5) * RAIN_AREA;
+        z = player.z + (Math.random() - 0.5) * RAIN_AREA;
+        y = rainSeeded.current ? player.y + RAIN_HEIGHT / 2 : player.y + (Math.random() - 0.5) * RAIN_HEIGHT;
+      }
+      x += windX * delta;
+      y -= RAIN_SPEED * delta;
+      if (x - player.x > half) x -= RAIN_AREA;
+      else if (player.x - x > half) x += RAIN_AREA;
+      if (z - player.z > half) z -= RAIN_AREA;
+      else if (player.z - z > half) z += RAIN_AREA;
+      arr[v] = x; arr[v + 1] = y; arr[v + 2] = z;
+      // Streak trails up and against the wind
+      arr[v + 3] = x - windX * 0.02; arr[v + 4] = y + DROP_LENGTH; arr[v + 5] = z;
+    }
+    if (count > 0) rainSeeded.current = true;
+    rainGeometry.setDrawRange(0, count * 2);
+    positions.needsUpdate = true;
+    (rain.current.material as THREE.LineBasicMaterial).opacity = 0.35 + 0.25 * rainLevel;
+  });
+
+  return (
+    <>
+      <primitive attach="fog" object={fog} />
+      <Sky ref={sky} sunPosition={[100, 40, 100]} />
+      <group ref={stars}>
+        <Stars />
+      </group>
+      <ambientLight ref={ambient} intensity={0.4} />
+      <directionalLight
+        ref={sun}
+        intensity={1.5}
+        shadow-camera-left={-SHADOW_EXTENT}
+        shadow-camera-right={SHADOW_EXTENT}
+        shadow-camera-top={SHADOW_EXTENT}
+        shadow-camera-bottom={-SHADOW_EXTENT}
+      />
+      {Array.from({ length: TORCH_LIGHTS }, (_, i) => (
+        <pointLight key={i} ref={l => { torchLights.current[i] = l; }} color="#ffa040" distance={20} decay={2} visible={false} />
+      ))}
+      <lineSegments ref={rain} geometry={rainGeometry} frustumCulled={false} visible={false}>
+        <lineBasicMaterial color="#aeb8c4" transparent opacity={0.5} depthWrite={false} />
+      </lineSegments>
+    </>
+  );
+};
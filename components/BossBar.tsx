@@ -0,0 +1,22 @@
+import React from 'react';
+import { BossStatus } from '../types';
+import { BOSS_CONFIG } from '../game/config';
+
+// Health of the current wave's boss, with a notch at every phase threshold.
+export const BossBar: React.FC<{ boss: BossStatus }> = ({ boss }) => {
+  const config = BOSS_CONFIG[boss.type];
+  const defeated = boss.hp <= 0;
+  return (
+    <div className="absolute top-16 left-1/2 -translate-x-1/2 w-96 max-w-[60vw] font-mono text-center">
+      <div className={`text-sm font-black tracking-widest drop-shadow-md ${defeated ? 'text-yellow-400' : 'text-red-400'}`}>
+        {defeated ? `${config.name} DEFEATED +$${config.gold}` : config.name}
+      </div>
+      <div className="relative h-3 bg-gray-800 border border-black rounded overflow-hidden">
+        <div className="h-full bg-red-600 transition-all" style={{ width: `${(boss.hp / boss.maxHp) * 100}%` }} />
+        {config.phases.map(p => (
+          <div key={p.at} className="absolute top-0 h-full w-0.5 bg-black/70" style={{ left: `${p.at * 100}%` }} />
+        ))}
+      </div>
+    </div>
+  );
+};
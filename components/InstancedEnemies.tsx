@@ -0,0 +1,289 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { AttackPhase, Enemy } from '../types';
+import { ENEMY_CONFIG, isBoss } from '../game/config';
+import { getTerrainHeight } from '../game/terrain';
+
+// --- Instanced Enemies ---
+// Every body part of every enemy is an instance of one InstancedMesh per part.
+// The walk cycle and attack poses are applied by composing the instance
+// matrices each frame, so hundreds of enemies cost a dozen draw calls.
+
+const MIN_CAPACITY = 64;
+
+type PartName = 'head' | 'eyes' | 'body' | 'arms' | 'legs' | 'blade' | 'hilt' | 'shield' | 'bow' | 'crossbow'
+  | 'crown' | 'lance' | 'horse' | 'horseHead' | 'horseLegs' | 'ramFrame' | 'ramLog' | 'wheels';
+
+const PART_STYLES: Record<PartName, { size: [number, number, number]; material: THREE.Material; castShadow?: boolean }> = {
+  head: { size: [0.4, 0.4, 0.4], material: new THREE.MeshStandardMaterial(), castShadow: true },
+  eyes: { size: [0.05, 0.05, 0.01], material: new THREE.MeshBasicMaterial({ color: 'black' }) },
+  body: { size: [0.5, 0.8, 0.3], material: new THREE.MeshStandardMaterial(), castShadow: true },
+  arms: { size: [0.15, 0.7, 0.15], material: new THREE.MeshStandardMaterial() },
+  legs: { size: [0.18, 0.75, 0.18], material: new THREE.MeshStandardMaterial({ color: '#111' }) },
+  blade: { size: [0.05, 0.8, 0.05], material: new THREE.MeshStandardMaterial({ color: '#ccc', metalness: 0.8, roughness: 0.2 }) },
+  hilt: { size: [0.05, 0.2, 0.05], material: new THREE.MeshStandardMaterial({ color: '#333' }) },
+  shield: { size: [0.5, 0.7, 0.08], material: new THREE.MeshStandardMaterial({ color: '#7a5230' }), castShadow: true },
+  bow: { size: [0.04, 1.0, 0.04], material: new THREE.MeshStandardMaterial({ color: '#5a3a1a' }) },
+  crossbow: { size: [0.08, 0.08, 0.6], material: new THREE.MeshStandardMaterial({ color: '#4a2f18' }) },
+  crown: { size: [0.45, 0.15, 0.45], material: new THREE.MeshStandardMaterial({ color: '#ffd700', metalness: 0.9, roughness: 0.3 }) },
+  lance: { size: [0.06, 0.06, 2.4], material: new THREE.MeshStandardMaterial({ color: '#8b7355' }) },
+  horse: { size: [0.7, 0.7, 1.8], material: new THREE.MeshStandardMaterial({ color: '#6b4423' }), castShadow: true },
+  horseHead: { size: [0.35, 0.45, 0.9], material: new THREE.MeshStandardMaterial({ color: '#6b4423' }), castShadow: true },
+  horseLegs: { size: [0.15, 0.9, 0.15], material: new THREE.MeshStandardMaterial({ color: '#4a2f18' }) },
+  ramFrame: { size: [1.8, 1.4, 3.2], material: new THREE.MeshStandardMaterial(), castShadow: true },
+  ramLog: { size: [0.45, 0.45, 3.8], material: new THREE.MeshStandardMaterial({ color: '#3e2a14' }), castShadow: true },
+  wheels: { size: [0.25, 0.9, 0.9], material: new THREE.MeshStandardMaterial({ color: '#2b1d0e' }) },
+};
+// Instances per enemy, at most
+const PART_COUNTS: Record<PartName, number> = {
+  head: 1, eyes: 2, body: 1, arms: 2, legs: 2, blade: 1, hilt: 1, shield: 1, bow: 1, crossbow: 2,
+  crown: 1, lance: 1, horse: 1, horseHead: 1, horseLegs: 4, ramFrame: 1, ramLog: 1, wheels: 4,
+};
+
+const unitBox = new THREE.BoxGeometry(1, 1, 1);
+const KNIGHT_HEAD = new THREE.Color('#888');
+const SKIN = new THREE.Color('#e0ac69');
+const TELEGRAPH = new THREE.Color('#ff3300'); // Heavies and bosses glow while winding up
+const tint = new THREE.Color();
+// Turn to where they are going rather than to the player
+const FACES_MOVEMENT = new Set<Enemy['type']>(['cavalry', 'ram']);
+const SADDLE_HEIGHT = 1.1;
+const HORSE_HIPS: [number, number][] = [[-0.22, 0.7], [0.22, 0.7], [-0.22, -0.7], [0.22, -0.7]];
+const RAM_WHEELS: [number, number][] = [[-1, 1.1], [1, 1.1], [-1, -1.1], [1, -1.1]];
+const TYPE_COLORS = Object.fromEntries(
+  Object.entries(ENEMY_CONFIG).map(([type, c]) => [type, new THREE.Color(c.color)])
+) as Record<Enemy['type'], THREE.Color>;
+
+// Pose kept between frames: corpses tumble on from wherever they fell
+interface Pose {
+  position: THREE.Vector3;
+  yaw: number;
+  tilt: number;
+  velocity: THREE.Vector3 | null; // Set once dead
+}
+
+// Scratch objects for building matrices
+const root = new THREE.Matrix4();
+const saddle = new THREE.Matrix4();
+const joint = new THREE.Matrix4();
+const piece = new THREE.Matrix4();
+const local = new THREE.Matrix4();
+const limb = new THREE.Matrix4();
+const v = new THREE.Vector3();
+const s = new THREE.Vector3();
+const q = new THREE.Quaternion();
+const e = new THREE.Euler();
+
+const compose = (target: THREE.Matrix4, x: number, y: number, z: number, rx = 0, ry = 0, rz = 0, sx = 1, sy = 1, sz = 1) =>
+  target.compose(v.set(x, y, z), q.setFromEuler(e.set(rx, ry, rz)), s.set(sx, sy, sz));
+
+// `parent` x local transform, written into `target`.
+const child = (target: THREE.Matrix4, parent: THREE.Matrix4, x: number, y: number, z: number, rx = 0, ry = 0, rz = 0) =>
+  target.multiplyMatrices(parent, compose(local, x, y, z, rx, ry, rz));
+
+const createMeshes = (capacity: number) => (Object.keys(PART_STYLES) as PartName[]).reduce((out, name) => {
+  const style = PART_STYLES[name];
+  const mesh = new THREE.InstancedMesh(unitBox, style.material, capacity * PART_COUNTS[name]);
+  mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+  mesh.castShadow = !!style.castShadow;
+  // Instances move every frame; a stale bounding sphere would cull them wrongly
+  mesh.frustumCulled = false;
+  mesh.count = 0;
+  out[name] = mesh;
+  return out;
+}, {} as Record<PartName, THREE.InstancedMesh>);
+
+export const InstancedEnemies = ({ enemies, seed, target }: {
+  enemies: () => Enemy[];
+  seed: number;
+  target: React.MutableRefObject<THREE.Vector3>; // What living enemies turn to face
+}) => {
+  const [capacity, setCapacity] = useState(MIN_CAPACITY);
+  const meshes = useMemo(() => createMeshes(capacity), [capacity]);
+  const poses = useRef(new Map<string, Pose>());
+  useEffect(() => () => Object.values(meshes).forEach(m => m.dispose()), [meshes]);
+
+  useFrame((state, delta) => {
+    const list = enemies();
+    if (list.length > capacity) {
+      setCapacity(Math.pow(2, Math.ceil(Math.log2(list.length))));
+      return;
+    }
+    const t = state.clock.getElapsedTime();
+    const counts = Object.fromEntries(Object.keys(PART_STYLES).map(name => [name, 0])) as Record<PartName, number>;
+    const put = (name: PartName, matrix: THREE.Matrix4, color?: THREE.Color) => {
+      const [sx, sy, sz] = PART_STYLES[name].size;
+      const i = counts[name]++;
+      meshes[name].setMatrixAt(i, piece.copy(matrix).scale(s.set(sx, sy, sz)));
+      if (color) meshes[name].setColorAt(i, color);
+    };
+    const seen = new Set<string>();
+
+    for (const enemy of list) {
+      seen.add(enemy.id);
+      const config = ENEMY_CONFIG[enemy.type];
+      let pose = poses.current.get(enemy.id);
+      if (!pose) {
+        pose = { position: new THREE.Vector3(), yaw: 0, tilt: 0, velocity: null };
+        poses.current.set(enemy.id, pose);
+      }
+
+      if (enemy.isDead) {
+        if (!pose.velocity) {
+          pose.velocity = enemy.velocity
+            ? new THREE.Vector3(enemy.velocity.x, enemy.velocity.y, enemy.velocity.z)
+            : new THREE.Vector3(0, 5, 0);
+          if (pose.position.lengthSq() === 0) {
+            pose.position.set(enemy.position.x, getTerrainHeight(enemy.position.x, enemy.position.z, seed) + 0.9 * config.scale, enemy.position.z);
+          }
+        }
+        const vel = pose.velocity;
+        pose.position.addScaledVector(vel, delta);
+        vel.y -= 25 * delta;
+        const ground = getTerrainHeight(pose.position.x, pose.position.z, seed);
+        if (pose.position.y < ground + 0.2) {
+          pose.position.y = ground + 0.2;
+          vel.multiplyScalar(0.9);
+          if (Math.abs(vel.y) < 0.1) vel.y = 0;
+          else vel.y *= -0.3;
+        }
+        pose.tilt = THREE.MathUtils.lerp(pose.tilt, -Math.PI / 2, delta * 8);
+      } else {
+        const y = getTerrainHeight(enemy.position.x, enemy.position.z, seed) + 0.9 * config.scale;
+        const dx = enemy.position.x - pose.position.x, dz = enemy.position.z - pose.position.z;
+        if (!FACES_MOVEMENT.has(enemy.type)) {
+          pose.yaw = Math.atan2(target.current.x - enemy.position.x, target.current.z - enemy.position.z);
+        } else if (dx * dx + dz * dz > 1e-6) {
+          pose.yaw = Math.atan2(dx, dz);
+        }
+        pose.position.set(enemy.position.x, y, enemy.position.z);
+      }
+
+      root.compose(
+        pose.position,
+        q.setFromEuler(e.set(pose.tilt, pose.yaw, 0, 'YXZ')),
+        s.set(config.scale, config.scale, config.scale)
+      );
+
+      const phase: AttackPhase = enemy.isDead ? 'idle' : enemy.attack?.phase ?? (enemy.isAttacking ? 'strike' : 'idle');
+      const walk = enemy.isDead ? 0 : t * enemy.speed * 2;
+      const telegraph = phase === 'windup' && (enemy.type === 'heavy' || isBoss(enemy.type));
+      const color = telegraph
+        ? tint.copy(TYPE_COLORS[enemy.type]).lerp(TELEGRAPH, 0.4 + 0.4 * Math.sin(t * 12))
+        : TYPE_COLORS[enemy.type];
+
+      if (enemy.type === 'ram') {
+        // A roofed frame on wheels; the log draws back to wind up and swings out to strike
+        put('ramFrame', child(local, root, 0, 0.2, 0), color);
+        put('ramLog', child(local, root, 0, 0.1, phase === 'windup' ? -0.4 : phase === 'strike' ? 1.1 : 0.6));
+        RAM_WHEELS.forEach(([x, z]) => put('wheels', child(local, root, x, -0.45, z, walk * 0.5, 0, 0)));
+        continue;
+      }
+
+      // Riders sit on the horse; the horse stays down when its rider is thrown
+      const mounted = enemy.type === 'cavalry';
+      if (mounted) {
+        const gallop = enemy.isDead ? 0 : t * (phase === 'charge' || phase === 'strike' ? 18 : 10);
+        put('horse', child(local, root, 0, 0.25, 0));
+        put('horseHead', child(local, root, 0, 0.75, 1.0, -0.6, 0, 0));
+        HORSE_HIPS.forEach(([x, z], i) => {
+          // Diagonal pairs move together
+          child(joint, root, x, -0.05, z, Math.sin(gallop + (i === 0 || i === 3 ? 0 : Math.PI)) * 0.7, 0, 0);
+          put('horseLegs', child(local, joint, 0, -0.45, 0));
+        });
+        if (enemy.isDead) continue;
+      }
+      const body = mounted ? child(saddle, root, 0, SADDLE_HEIGHT, -0.1) : root;
+
+      // Limb angles (left, right); corpses keep the pose they died in
+      const isRanged = enemy.type === 'archer' || enemy.type === 'crossbowman';
+      const aiming = isRanged && (phase === 'windup' || phase === 'strike');
+      const swing = mounted ? 0 : Math.sin(walk);
+      let armX = [Math.sin(walk + Math.PI) * 0.6, swing * 0.6];
+      let armZ = [0, 0];
+      if (aiming) {
+        armX = [-Math.PI / 2, -Math.PI / 2 + (phase === 'windup' ? 0.15 : 0)];
+      } else if (phase === 'windup') {
+        // Raised for the blow: heavies lift both arms high and hold them there
+        armX = enemy.type === 'heavy' ? [-2.8, -2.8] : [-0.3, -2.6 + Math.sin(t * 20) * 0.05];
+      } else if (phase === 'strike') {
+        armX = enemy.type === 'heavy' ? [-0.9, -0.9] : [-0.3, -Math.PI / 3];
+      } else if (phase === 'charge') {
+        armX = [-0.4, -Math.PI / 2];
+      } else if (phase === 'block') {
+        armX[0] = -Math.PI / 2;
+      } else if (phase === 'recover') {
+        armX = [0.2, 0.2];
+      } else if (enemy.type === 'villager') {
+        // Villagers flee with their arms waving over their heads
+        const waving = Math.abs(swing) > 0.1;
+        armX = waving ? [Math.sin(t * 15) * 0.5, Math.cos(t * 15) * 0.5] : [0, 0];
+        armZ = waving ? [2.5, -2.5] : [0, 0];
+      }
+
+      const isKnight = enemy.type === 'knight' || enemy.type === 'heavy' || mounted;
+
+      child(joint, body, 0, 0.7, 0, 0, Math.sin(t) * 0.1, 0);
+      put('head', joint, isKnight ? KNIGHT_HEAD : SKIN);
+      put('eyes', child(local, joint, 0.1, 0.05, 0.21));
+      put('eyes', child(local, joint, -0.1, 0.05, 0.21));
+      if (enemy.type === 'king') put('crown', child(local, joint, 0, 0.27, 0));
+      put('body', child(joint, body, 0, 0.1, 0, 0, swing * 0.1, 0), color);
+
+      [-1, 1].forEach((side, k) => {
+        // Arms and legs swing about the shoulder and hip
+        child(joint, body, side * 0.35, 0.4, 0, armX[k], 0, armZ[k]);
+        const arm = child(limb, joint, 0, -0.3, 0);
+        put('arms', arm, color);
+        if (((isKnight && !mounted) || enemy.type === 'king') && side === 1) {
+          const blade = child(joint, arm, 0, -0.4, 0.3, 1.5, 0, 0);
+          put('blade', blade);
+          put('hilt', child(local, blade, 0, -0.3, 0, 0, 0, 1.57));
+        }
+        // Shields and bows face forward once the arm is raised, and hang along it otherwise
+        if (enemy.type === 'knight' && side === -1) {
+          put('shield', phase === 'block'
+            ? child(local, arm, 0, -0.35, 0, Math.PI / 2, 0, 0)
+            : child(local, arm, -0.1, -0.1, 0, 0, Math.PI / 2, 0));
+        }
+        if (enemy.type === 'archer' && side === -1) {
+          put('bow', child(local, arm, 0, -0.35, 0.05, aiming ? Math.PI / 2 : 0, 0, 0));
+        }
+        // Astride the horse, or walking
+        const legSwing = mounted ? -1.3 : enemy.isDead ? 0 : Math.sin(walk + (side > 0 ? Math.PI : 0)) * 0.8;
+        child(joint, body, side * (mounted ? 0.3 : 0.15), -0.3, 0, legSwing, 0, mounted ? side * 0.3 : 0);
+        put('legs', child(local, joint, 0, -0.35, 0));
+      });
+
+      if (mounted) {
+        // Couched for the charge, upright otherwise
+        const couched = phase === 'charge' || phase === 'strike';
+        put('lance', child(local, body, 0.4, 0.2, couched ? 0.9 : 0, couched ? 0 : -Math.PI / 2, 0, 0));
+      }
+
+      if (enemy.type === 'crossbowman') {
+        // Levelled at the chest while aiming, slung over the shoulder otherwise
+        const stock = aiming ? child(joint, body, 0.1, 0.4, 0.6) : child(joint, body, 0.2, 0.45, -0.2, 1.2, 0, 0);
+        put('crossbow', stock);
+        put('crossbow', child(local, stock, 0, 0, 0.25, 0, Math.PI / 2, 0));
+      }
+    }
+
+    (Object.keys(meshes) as PartName[]).forEach(name => {
+      const mesh = meshes[name];
+      mesh.count = counts[name];
+      mesh.instanceMatrix.needsUpdate = true;
+      if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+    });
+    if (poses.current.size > seen.size) {
+      poses.current.forEach((_, id) => { if (!seen.has(id)) poses.current.delete(id); });
+    }
+  });
+
+  return (
+    <>
+      {(Object.keys(meshes) as PartName[]).map(name => <primitive key={`${name}:${capacity}`} object={meshes[name]} />)}
+    </>
+  );
+};
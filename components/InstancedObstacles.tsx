@@ -0,0 +1,175 @@
+import React, { useEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import { Obstacle } from '../types';
+import { hashString } from '../game/random';
+
+// --- Instanced Obstacles ---
+// Trees, wall segments and roofs are drawn as a handful of InstancedMeshes per
+// chunk rather than a component (and several meshes) each. Every kind is split
+// into parts that share one geometry and material; a part turns an obstacle
+// into zero or more instance transforms, each with its own colour.
+
+export const INSTANCED_TYPES = new Set<Obstacle['type']>(['tree', 'wall', 'roof']);
+
+type Emit = (matrix: THREE.Matrix4, color: THREE.Color) => void;
+
+interface Part {
+  name: string;
+  geometry: THREE.BufferGeometry;
+  material: THREE.Material;
+  castShadow?: boolean;
+  receiveShadow?: boolean;
+  place: (obs: Obstacle, emit: Emit) => void;
+}
+
+const unitBox = new THREE.BoxGeometry(1, 1, 1);
+const UP = new THREE.Vector3(0, 1, 0);
+
+// Instance colours multiply the material colour, so materials stay white
+const standard = (params: THREE.MeshStandardMaterialParameters = {}) =>
+  new THREE.MeshStandardMaterial({ color: '#ffffff', ...params });
+
+const TREE_TRUNK = new THREE.Color('#4d3319');
+const TREE_CANOPY = new THREE.Color('#1a4d1a');
+const PLASTER = new THREE.Color('#f2e8d5');
+const TIMBER = new THREE.Color('#3e2723');
+const GLASS = new THREE.Color('#2c3e50');
+const THATCH = new THREE.Color('#8d6e63');
+
+// Scratch objects: parts are placed one at a time
+const origin = new THREE.Matrix4();
+const local = new THREE.Matrix4();
+const offset = new THREE.Vector3();
+const size = new THREE.Vector3();
+const turn = new THREE.Quaternion();
+const euler = new THREE.Euler();
+const tint = new THREE.Color();
+
+// The obstacle's own frame: its position, rotation.y and (optionally) scale.
+const frameOf = (obs: Obstacle, scaled: boolean, lift = 0) => origin.compose(
+  offset.set(obs.position.x, obs.position.y + lift, obs.position.z),
+  turn.setFromAxisAngle(UP, obs.rotation),
+  scaled ? size.set(obs.scale.x, obs.scale.y, obs.scale.z) : size.set(1, 1, 1)
+);
+
+// A part inside an obstacle's frame, at a local offset, rotation and size.
+const inFrame = (frame: THREE.Matrix4, x: number, y: number, z: number, sx: number, sy: number, sz: number, rx = 0, ry = 0) =>
+  new THREE.Matrix4().multiplyMatrices(frame, local.compose(
+    offset.set(x, y, z),
+    turn.setFromEuler(euler.set(rx, ry, 0)),
+    size.set(sx, sy, sz)
+  ));
+
+// Slight per-obstacle shade, stable across reloads of the chunk
+const shade = (base: THREE.Color, id: string, amount: number) =>
+  tint.copy(base).multiplyScalar(1 - amount / 2 + amount * ((hashString(id) % 1000) / 1000));
+
+const hasWindow = (dims: NonNullable<Obstacle['dims']>) => dims.w > 3 && dims.h > 3;
+
+const PARTS: Record<'tree' | 'wall' | 'roof', Part[]> = {
+  tree: [
+    {
+      name: 'trunk', geometry: new THREE.CylinderGeometry(0.2, 0.4, 2, 8), material: standard(), castShadow: true,
+      place: (obs, emit) => emit(inFrame(frameOf(obs, true), 0, 1, 0, 1, 1, 1), TREE_TRUNK),
+    },
+    {
+      name: 'canopy', geometry: new THREE.ConeGeometry(1.5, 4, 8), material: standard(), castShadow: true,
+      place: (obs, emit) => emit(inFrame(frameOf(obs, true), 0, 3, 0, 1, 1, 1), shade(TREE_CANOPY, obs.id, 0.3)),
+    },
+  ],
+  wall: [
+    {
+      name: 'plaster', geometry: unitBox, material: standard({ roughness: 0.9 }), castShadow: true, receiveShadow: true,
+      place: (obs, emit) => {
+        if (!obs.dims) return;
+        const { w, h, d } = obs.dims;
+        emit(inFrame(frameOf(obs, false), 0, 0, 0, w, h, d * 0.8), PLASTER);
+      },
+    },
+    {
+      // Timber frame: corner posts, top and bottom beams, a middle rail on long walls and the window cross
+      name: 'timber', geometry: unitBox, material: standard({ roughness: 1 }), castShadow: true,
+      place: (obs, emit) => {
+        if (!obs.dims) return;
+        const { w, h, d } = obs.dims;
+        const frame = frameOf(obs, false);
+        emit(inFrame(frame, -w / 2 + 0.2, 0, 0, 0.4, h + 0.1, d), TIMBER);
+        emit(inFrame(frame, w / 2 - 0.2, 0, 0, 0.4, h + 0.1, d), TIMBER);
+        emit(inFrame(frame, 0, h / 2 - 0.2, 0, w, 0.4, d), TIMBER);
+        emit(inFrame(frame, 0, -h / 2 + 0.2, 0, w, 0.4, d), TIMBER);
+        if (w > 4) emit(inFrame(frame, 0, 0, 0, w, 0.3, d), TIMBER);
+        if (!hasWindow(obs.dims)) return;
+        emit(inFrame(frame, 0, 0.5, d / 2 + 0.11, 1.5, 0.1, 0.1), TIMBER);
+        emit(inFrame(frame, 0, 0.5, d / 2 + 0.11, 0.1, 1.5, 0.1), TIMBER);
+      },
+    },
+    {
+      name: 'window', geometry: unitBox, material: standard({ roughness: 0.2, metalness: 0.5 }),
+      place: (obs, emit) => {
+        if (!obs.dims || !hasWindow(obs.dims)) return;
+        emit(inFrame(frameOf(obs, false), 0, 0.5, 0, 1.5, 1.5, obs.dims.d + 0.1), GLASS);
+      },
+    },
+  ],
+  roof: [
+    {
+      name: 'thatch', geometry: new THREE.ConeGeometry(1, 1, 4), material: standard({ roughness: 0.8 }), castShadow: true,
+      place: (obs, emit) => {
+        const { x, y } = obs.scale;
+        emit(inFrame(frameOf(obs, false, 0.5), 0, 1, 0, x * 0.75, y, x * 0.75, 0, Math.PI / 4), THATCH);
+      },
+    },
+    {
+      name: 'eaves', geometry: unitBox, material: standard(),
+      place: (obs, emit) => {
+        const { x, y, z } = obs.scale;
+        emit(inFrame(frameOf(obs, false, 0.5), 0, -y / 2 + 1, 0, x, 0.2, z, 0, Math.PI / 4), TIMBER);
+      },
+    },
+  ],
+};
+
+const buildMeshes = (obstacles: Obstacle[]): THREE.InstancedMesh[] => {
+  const meshes: THREE.InstancedMesh[] = [];
+  (Object.keys(PARTS) as (keyof typeof PARTS)[]).forEach(type => {
+    const ofType = obstacles.filter(o => o.type === type);
+    if (ofType.length === 0) return;
+    PARTS[type].forEach(part => {
+      const matrices: THREE.Matrix4[] = [];
+      const colors: THREE.Color[] = [];
+      ofType.forEach(obs => part.place(obs, (matrix, color) => {
+        matrices.push(matrix);
+        colors.push(color.clone());
+      }));
+      if (matrices.length === 0) return;
+      const mesh = new THREE.InstancedMesh(part.geometry, part.material, matrices.length);
+      matrices.forEach((m, i) => {
+        mesh.setMatrixAt(i, m);
+        mesh.setColorAt(i, colors[i]);
+      });
+      mesh.name = `${type}:${part.name}`;
+      mesh.castShadow = !!part.castShadow;
+      mesh.receiveShadow = !!part.receiveShadow;
+      // Bounds over all instances, so whole chunks are frustum culled
+      mesh.computeBoundingSphere();
+      meshes.push(mesh);
+    });
+  });
+  return meshes;
+};
+
+// Obstacle lists come straight from the chunk cache, so unchanged chunks keep their entries
+const sameObstacles = (a: { obstacles: Obstacle[] }, b: { obstacles: Obstacle[] }) =>
+  a.obstacles.length === b.obstacles.length && a.obstacles.every((o, i) => o === b.obstacles[i]);
+
+// The instanced obstacles of one chunk.
+export const InstancedObstacles = React.memo(({ obstacles }: { obstacles: Obstacle[] }) => {
+  const meshes = useMemo(() => buildMeshes(obstacles), [obstacles]);
+  // Geometries and materials are shared; only the instance buffers belong to this chunk
+  useEffect(() => () => meshes.forEach(m => m.dispose()), [meshes]);
+  return (
+    <>
+      {meshes.map(m => <primitive key={m.name} object={m} />)}
+    </>
+  );
+}, sameObstacles);
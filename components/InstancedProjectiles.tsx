@@ -0,0 +1,66 @@
+import React, { useEffect, useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { Projectile, ProjectileKind } from '../types';
+
+// --- Instanced Projectiles ---
+// Arrows and bolts in flight, one InstancedMesh per kind, each pointed along
+// its velocity.
+
+const CAPACITY = 128;
+
+const STYLES: Record<ProjectileKind, { size: [number, number, number]; color: string }> = {
+  arrow: { size: [0.03, 0.03, 0.8], color: '#d9c7a0' },
+  bolt: { size: [0.05, 0.05, 0.45], color: '#555' },
+};
+const KINDS = Object.keys(STYLES) as ProjectileKind[];
+
+const unitBox = new THREE.BoxGeometry(1, 1, 1);
+const FORWARD = new THREE.Vector3(0, 0, 1);
+
+// Scratch objects for building matrices
+const matrix = new THREE.Matrix4();
+const position = new THREE.Vector3();
+const direction = new THREE.Vector3();
+const q = new THREE.Quaternion();
+const s = new THREE.Vector3();
+
+export const InstancedProjectiles = ({ projectiles }: { projectiles: () => Projectile[] }) => {
+  const meshes = useMemo(() => KINDS.reduce((out, kind) => {
+    const mesh = new THREE.InstancedMesh(unitBox, new THREE.MeshStandardMaterial({ color: STYLES[kind].color }), CAPACITY);
+    mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+    mesh.frustumCulled = false;
+    mesh.count = 0;
+    out[kind] = mesh;
+    return out;
+  }, {} as Record<ProjectileKind, THREE.InstancedMesh>), []);
+  useEffect(() => () => KINDS.forEach(kind => {
+    (meshes[kind].material as THREE.Material).dispose();
+    meshes[kind].dispose();
+  }), [meshes]);
+
+  useFrame(() => {
+    const counts: Record<ProjectileKind, number> = { arrow: 0, bolt: 0 };
+    for (const shot of projectiles()) {
+      if (counts[shot.kind] >= CAPACITY) continue;
+      const [sx, sy, sz] = STYLES[shot.kind].size;
+      direction.set(shot.velocity.x, shot.velocity.y, shot.velocity.z).normalize();
+      matrix.compose(
+        position.set(shot.position.x, shot.position.y, shot.position.z),
+        q.setFromUnitVectors(FORWARD, direction),
+        s.set(sx, sy, sz)
+      );
+      meshes[shot.kind].setMatrixAt(counts[shot.kind]++, matrix);
+    }
+    KINDS.forEach(kind => {
+      meshes[kind].count = counts[kind];
+      meshes[kind].instanceMatrix.needsUpdate = true;
+    });
+  });
+
+  return (
+    <>
+      {KINDS.map(kind => <primitive key={kind} object={meshes[kind]} />)}
+    </>
+  );
+};
@@ -1,22 +1,18 @@
-import React, { useRef, useState, useEffect } from 'react';
+import React, { useRef, useState } from 'react';
 
 interface JoystickProps {
   onMove: (x: number, y: number) => void;
+  className?: string; // Placement, defaults to the bottom left corner
 }
 
-export const Joystick: React.FC<JoystickProps> = ({ onMove }) => {
+export const Joystick: React.FC<JoystickProps> = ({ onMove, className = 'absolute bottom-10 left-10' }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const knobRef = useRef<HTMLDivElement>(null);
-  const [active, setActive] = useState(false);
+  // The finger (or mouse) that grabbed the stick; other touches are ignored
+  const pointerId = useRef<number | null>(null);
   const [position, setPosition] = useState({ x: 0, y: 0 });
-  const center = 50; // Half of width/height
   const maxRadius = 40;
 
-  const handleStart = (clientX: number, clientY: number) => {
-    setActive(true);
-    handleMove(clientX, clientY);
-  };
-
   const handleMove = (clientX: number, clientY: number) => {
     if (!containerRef.current) return;
     const rect = containerRef.current.getBoundingClientRect();
@@ -34,52 +30,47 @@ export const Joystick: React.FC<JoystickProps> = ({ onMove }) => {
     }
 
     setPosition({ x: dx, y: dy });
-    
+
     // Normalize -1 to 1
     onMove(dx / maxRadius, dy / maxRadius);
   };
 
   const handleEnd = () => {
-    setActive(false);
+    pointerId.current = null;
     setPosition({ x: 0, y: 0 });
     onMove(0, 0);
   };
 
-  // Mouse events
-  const onMouseDown = (e: React.MouseEvent) => handleStart(e.clientX, e.clientY);
-  const onMouseMove = (e: MouseEvent) => { if (active) handleMove(e.clientX, e.clientY); };
-  const onMouseUp = () => { if (active) handleEnd(); };
-
-  // Touch events
-  const onTouchStart = (e: React.TouchEvent) => handleStart(e.touches[0].clientX, e.touches[0].clientY);
-  const onTouchMove = (e: React.TouchEvent) => { if (active) handleMove(e.touches[0].clientX, e.touches[0].clientY); };
-  const onTouchEnd = () => handleEnd();
-
-  useEffect(() => {
-    if (active) {
-      window.addEventListener('mousemove', onMouseMove);
-      window.addEventListener('mouseup', onMouseUp);
-    }
-    return () => {
-      window.removeEventListener('mousemove', onMouseMove);
-      window.removeEventListener('mouseup', onMouseUp);
-    };
-  }, [active]);
+  // Pointer events cover mouse and touch; capture keeps the stick's finger
+  // reporting here even when it slides off
+  const onPointerDown = (e: React.PointerEvent) => {
+    if (pointerId.current !== null) return;
+    e.preventDefault();
+    pointerId.current = e.pointerId;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    handleMove(e.clientX, e.clientY);
+  };
+  const onPointerMove = (e: React.PointerEvent) => {
+    if (e.pointerId === pointerId.current) handleMove(e.clientX, e.clientY);
+  };
+  const onPointerUp = (e: React.PointerEvent) => {
+    if (e.pointerId === pointerId.current) handleEnd();
+  };
 
   return (
-    <div 
-      className="absolute bottom-10 left-10 w-28 h-28 bg-gray-900/50 rounded-full backdrop-blur-sm border-2 border-white/20 touch-none select-none z-50 flex items-center justify-center pointer-events-auto"
+    <div
+      className={`${className} w-28 h-28 bg-gray-900/50 rounded-full backdrop-blur-sm border-2 border-white/20 touch-none select-none z-50 flex items-center justify-center pointer-events-auto`}
       ref={containerRef}
-      onMouseDown={onMouseDown}
-      onTouchStart={onTouchStart}
-      onTouchMove={onTouchMove}
-      onTouchEnd={onTouchEnd}
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerUp}
+      onPointerCancel={onPointerUp}
     >
-      <div 
+      <div
         ref={knobRef}
         className="w-12 h-12 bg-white/80 rounded-full shadow-lg"
         style={{ transform: `translate(${position.x}px, ${position.y}px)` }}
       />
     </div>
   );
-};
\ No newline at end of file
+};
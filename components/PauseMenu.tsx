@@ -0,0 +1,25 @@
+import React from 'react';
+
+interface PauseMenuProps {
+  wave: number;
+  seed: number;
+  onResume: () => void;
+  onSettings: () => void;
+  onQuit: () => void;
+}
+
+// Shown while the simulation is frozen. Escape resumes (handled by the game,
+// which also re-captures the mouse).
+export const PauseMenu: React.FC<PauseMenuProps> = ({ wave, seed, onResume, onSettings, onQuit }) => (
+  <div className="absolute inset-0 z-40 flex items-center justify-center bg-black/60 pointer-events-auto">
+    <div className="w-full max-w-xs bg-gray-900/95 border-2 border-purple-500 rounded p-4 font-mono text-white text-center">
+      <div className="text-3xl font-black text-purple-400 mb-1">PAUSED</div>
+      <div className="text-xs text-gray-400 mb-4">WAVE {wave} · SEED {seed}</div>
+      <div className="flex flex-col gap-2">
+        <button onClick={onResume} className="py-2 bg-white text-black font-bold hover:bg-gray-200">RESUME</button>
+        <button onClick={onSettings} className="py-2 bg-gray-700 font-bold hover:bg-gray-600">SETTINGS</button>
+        <button onClick={onQuit} className="py-2 bg-red-800 font-bold hover:bg-red-700">SAVE &amp; QUIT</button>
+      </div>
+    </div>
+  </div>
+);
@@ -0,0 +1,62 @@
+import React from 'react';
+import { EnemyType } from '../types';
+import { ENEMY_CONFIG } from '../game/config';
+
+export interface RunStats {
+  seed: number;
+  wave: number;
+  score: number;
+  goldEarned: number;
+  time: number; // ms survived
+  kills: Partial<Record<EnemyType, number>>;
+  newBestWave: boolean;
+  newBestScore: boolean;
+}
+
+interface RunResultsProps {
+  stats: RunStats;
+  onRetry: () => void; // Same seed
+  onNewRun: () => void;
+  onQuit: () => void;
+}
+
+const formatTime = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const Stat = ({ label, value, best }: { label: string; value: string | number; best?: boolean }) => (
+  <div className="flex justify-between py-1 border-b border-white/10">
+    <span className="text-gray-400">{label}</span>
+    <span className="font-bold">{value}{best && <span className="ml-2 text-yellow-400 text-xs">NEW BEST</span>}</span>
+  </div>
+);
+
+// End of a run: what it came to, and where to go next.
+export const RunResults: React.FC<RunResultsProps> = ({ stats, onRetry, onNewRun, onQuit }) => {
+  const killTypes = (Object.keys(ENEMY_CONFIG) as EnemyType[]).filter(t => stats.kills[t]);
+  const totalKills = killTypes.reduce((sum, t) => sum + (stats.kills[t] || 0), 0);
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/90 pointer-events-auto">
+      <div className="w-full max-w-sm font-mono text-white">
+        <div className="text-4xl font-black text-red-500 text-center mb-1">MISSION FAILED</div>
+        <div className="text-xs text-gray-400 text-center mb-4">SEED {stats.seed}</div>
+        <Stat label="WAVE REACHED" value={stats.wave} best={stats.newBestWave} />
+        <Stat label="SCORE" value={stats.score} best={stats.newBestScore} />
+        <Stat label="GOLD EARNED" value={stats.goldEarned} />
+        <Stat label="TIME SURVIVED" value={formatTime(stats.time)} />
+        <Stat label="KILLS" value={totalKills} />
+        {killTypes.map(t => (
+          <div key={t} className="flex justify-between pl-4 text-xs text-gray-400">
+            <span>{t.toUpperCase()}</span><span>{stats.kills[t]}</span>
+          </div>
+        ))}
+        <div className="flex flex-col gap-2 mt-6">
+          <button onClick={onRetry} className="py-2 bg-white text-black font-bold hover:bg-gray-200">RETRY SEED</button>
+          <button onClick={onNewRun} className="py-2 bg-purple-500 font-bold hover:bg-purple-400">NEW RUN</button>
+          <button onClick={onQuit} className="py-2 bg-gray-700 font-bold hover:bg-gray-600">TITLE SCREEN</button>
+        </div>
+      </div>
+    </div>
+  );
+};
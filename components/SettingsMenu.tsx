@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from 'react';
+import { KeyAction } from '../game/input';
+import {
+  BUTTON_SCALE_RANGE, FOV_RANGE, SENSITIVITY_RANGE, SHADOW_MAP_SIZES, Settings, ShadowQuality, TOUCH_LOOK_RANGE, VOLUME_RANGE,
+  createSettings, rebind
+} from '../game/settings';
+
+interface SettingsMenuProps {
+  settings: Settings;
+  onChange: (settings: Settings) => void;
+  onClose: () => void;
+}
+
+type Tab = 'controls' | 'audio' | 'graphics' | 'accessibility' | 'touch';
+
+const TAB_LABELS: Record<Tab, string> = {
+  controls: 'CONTROLS',
+  audio: 'AUDIO',
+  graphics: 'GRAPHICS',
+  accessibility: 'ACCESS',
+  touch: 'TOUCH',
+};
+
+const ACTION_LABELS: Record<KeyAction, string> = {
+  forward: 'FORWARD',
+  back: 'BACK',
+  left: 'STRAFE LEFT',
+  right: 'STRAFE RIGHT',
+  reload: 'RELOAD',
+  interact: 'USE / SHOP',
+};
+
+const BINDING_SLOTS = 2;
+
+const ARROWS: Record<string, string> = { ArrowUp: '↑', ArrowDown: '↓', ArrowLeft: '←', ArrowRight: '→' };
+
+// KeyboardEvent.code as printed on the key
+const keyLabel = (code: string) =>
+  ARROWS[code] ?? code.replace(/^Key/, '').replace(/^Digit/, '').replace(/^Numpad/, 'NUM ').toUpperCase();
+
+const Slider = ({ label, value, min, max, step, format, onChange }: {
+  label: string; value: number; min: number; max: number; step: number;
+  format: (v: number) => string; onChange: (v: number) => void;
+}) => (
+  <label className="flex flex-col mb-3">
+    <div className="flex justify-between text-sm"><span>{label}</span><span className="text-yellow-300">{format(value)}</span></div>
+    <input type="range" min={min} max={max} step={step} value={value} onChange={e => onChange(Number(e.target.value))} />
+  </label>
+);
+
+const Toggle = ({ label, value, onChange }: { label: string; value: boolean; onChange: (v: boolean) => void }) => (
+  <button
+    onClick={() => onChange(!value)}
+    className="w-full flex justify-between items-center px-2 py-2 rounded mb-1 bg-black/40 text-sm"
+  >
+    <span>{label}</span>
+    <span className={value ? 'text-green-400' : 'text-gray-500'}>{value ? 'ON' : 'OFF'}</span>
+  </button>
+);
+
+const percent = (v: number) => `${Math.round(v * 100)}%`;
+const times = (v: number) => `${v.toFixed(2)}x`;
+
+// Controls, audio, graphics and accessibility. Every change is applied and
+// saved straight away; Escape closes (or cancels a rebind in progress).
+export const SettingsMenu: React.FC<SettingsMenuProps> = ({ settings, onChange, onClose }) => {
+  const [tab, setTab] = useState<Tab>('controls');
+  const [listening, setListening] = useState<{ action: KeyAction; slot: number } | null>(null);
+
+  // Captures the next key before the game's own listeners see it
+  useEffect(() => {
+    const key = (e: KeyboardEvent) => {
+      if (listening) {
+        e.preventDefault();
+        e.stopPropagation();
+        if (e.code !== 'Escape') {
+          const bindings = rebind(settings.controls.bindings, listening.action, listening.slot, e.code);
+          onChange({ ...settings, controls: { ...settings.controls, bindings } });
+        }
+        setListening(null);
+      } else if (e.code === 'Escape') {
+        e.stopPropagation();
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', key, { capture: true });
+    return () => window.removeEventListener('keydown', key, { capture: true });
+  }, [listening, settings, onChange, onClose]);
+
+  const set = <K extends Exclude<keyof Settings, 'version'>>(section: K, patch: Partial<Settings[K]>) =>
+    onChange({ ...settings, [section]: { ...settings[section], ...patch } });
+
+  const { controls, audio, graphics, accessibility, touch } = settings;
+
+  return (
+    <div className="absolute inset-0 z-[60] flex items-center justify-center bg-black/70 pointer-events-auto">
+      <div className="w-full max-w-md max-h-full overflow-y-auto bg-gray-900/95 border-2 border-purple-500 rounded p-4 font-mono text-white">
+        <div className="text-2xl font-black text-purple-400 mb-3">SETTINGS</div>
+        <div className="flex gap-1 mb-4">
+          {(Object.keys(TAB_LABELS) as Tab[]).map(t => (
+            <button
+              key={t}
+              onClick={() => { setTab(t); setListening(null); }}
+              className={`flex-1 py-1 text-xs rounded ${t === tab ? 'bg-purple-500 text-white' : 'bg-black/40 text-gray-400'}`}
+            >
+              {TAB_LABELS[t]}
+            </button>
+          ))}
+        </div>
+
+        {tab === 'controls' && (
+          <>
+            {(Object.keys(ACTION_LABELS) as KeyAction[]).map(action => (
+              <div key={action} className="flex justify-between items-center mb-1 text-sm">
+                <span>{ACTION_LABELS[action]}</span>
+                <div className="flex gap-1">
+                  {Array.from({ length: BINDING_SLOTS }, (_, slot) => {
+                    const isListening = listening?.action === action && listening.slot === slot;
+                    const code = controls.bindings[action][slot];
+                    return (
+                      <button
+                        key={slot}
+                        onClick={() => setListening({ action, slot })}
+                        className={`w-16 py-1 rounded ${isListening ? 'bg-yellow-600 text-black' : 'bg-black/40'}`}
+                      >
+                        {isListening ? '...' : code ? keyLabel(code) : '-'}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+            <div className="text-[10px] text-gray-500 mb-3">CLICK A SLOT, THEN PRESS A KEY · ESC CANCELS · 1-9 PICK WEAPONS</div>
+            <Slider
+              label="MOUSE SENSITIVITY" value={controls.mouseSensitivity} step={0.05} format={times}
+              min={SENSITIVITY_RANGE.min} max={SENSITIVITY_RANGE.max}
+              onChange={v => set('controls', { mouseSensitivity: v })}
+            />
+            <Slider
+              label="GAMEPAD SENSITIVITY" value={controls.gamepadSensitivity} step={0.05} format={times}
+              min={SENSITIVITY_RANGE.min} max={SENSITIVITY_RANGE.max}
+              onChange={v => set('controls', { gamepadSensitivity: v })}
+            />
+            <Toggle label="INVERT Y" value={controls.invertY} onChange={v => set('controls', { invertY: v })} />
+            <button
+              onClick={() => set('controls', { bindings: createSettings().controls.bindings })}
+              className="w-full py-1 mt-2 text-xs bg-black/40 text-gray-400 rounded"
+            >
+              RESET KEYS
+            </button>
+          </>
+        )}
+
+        {tab === 'audio' && (
+          <>
+            <Slider label="MASTER VOLUME" value={audio.masterVolume} min={VOLUME_RANGE.min} max={VOLUME_RANGE.max} step={0.05} format={percent} onChange={v => set('audio', { masterVolume: v })} />
+            <Slider label="WEATHER VOLUME" value={audio.weatherVolume} min={VOLUME_RANGE.min} max={VOLUME_RANGE.max} step={0.05} format={percent} onChange={v => set('audio', { weatherVolume: v })} />
+          </>
+        )}
+
+        {tab === 'graphics' && (
+          <>
+            <Slider label="FIELD OF VIEW" value={graphics.fov} min={FOV_RANGE.min} max={FOV_RANGE.max} step={1} format={v => `${v}°`} onChange={v => set('graphics', { fov: v })} />
+            <div className="text-sm mb-1">SHADOWS</div>
+            <div className="flex gap-1">
+              {(Object.keys(SHADOW_MAP_SIZES) as ShadowQuality[]).map(q => (
+                <button
+                  key={q}
+                  onClick={() => set('graphics', { shadowQuality: q })}
+                  className={`flex-1 py-1 text-xs rounded ${q === graphics.shadowQuality ? 'bg-yellow-600 text-black' : 'bg-black/40'}`}
+                >
+                  {q.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+
+        {tab === 'accessibility' && (
+          <>
+            <Toggle label="SCREEN SHAKE" value={accessibility.screenShake} onChange={v => set('accessibility', { screenShake: v })} />
+            <Toggle label="HEAD BOB" value={accessibility.headBob} onChange={v => set('accessibility', { headBob: v })} />
+            <Toggle label="REDUCE FLASHING" value={accessibility.reduceFlashing} onChange={v => set('accessibility', { reduceFlashing: v })} />
+          </>
+        )}
+
+        {tab === 'touch' && (
+          <>
+            <Toggle label="LEFT-HANDED LAYOUT" value={touch.leftHanded} onChange={v => set('touch', { leftHanded: v })} />
+            <Slider label="LOOK SPEED" value={touch.lookSensitivity} min={TOUCH_LOOK_RANGE.min} max={TOUCH_LOOK_RANGE.max} step={0.05} format={times} onChange={v => set('touch', { lookSensitivity: v })} />
+            <Slider label="BUTTON SIZE" value={touch.buttonScale} min={BUTTON_SCALE_RANGE.min} max={BUTTON_SCALE_RANGE.max} step={0.05} format={times} onChange={v => set('touch', { buttonScale: v })} />
+          </>
+        )}
+
+        <button onClick={onClose} className="w-full py-2 mt-4 bg-white text-black font-bold hover:bg-gray-200">
+          DONE (ESC)
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GameState } from '../types';
+import { SHOP_CATALOGUE, ShopCategory, ShopItemStatus, shopItemStatus } from '../game/shop';
+import { KeyBindings } from '../game/input';
+
+interface ShopMenuProps {
+  state: GameState;
+  bindings: KeyBindings; // The forward / back keys also move the selection
+  onBuy: (itemId: string) => void;
+  onClose: () => void;
+}
+
+const CATEGORY_LABELS: Record<ShopCategory, string> = {
+  supplies: 'SUPPLIES',
+  upgrades: 'UPGRADES',
+};
+
+const STATUS_LABELS: Record<ShopItemStatus, string> = {
+  available: '',
+  too_expensive: 'NOT ENOUGH GOLD',
+  locked: 'LOCKED',
+  sold_out: 'SOLD OUT',
+  not_needed: 'FULL',
+};
+
+// Catalogue overlay shown while standing at a shop table. The arrows and the
+// keys bound to forward / back move the selection, Enter or Space buys, Escape closes; mouse and touch click rows directly.
+export const ShopMenu: React.FC<ShopMenuProps> = ({ state, bindings, onBuy, onClose }) => {
+  const [selected, setSelected] = useState(0);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const count = SHOP_CATALOGUE.length;
+
+  useEffect(() => {
+    const key = (e: KeyboardEvent) => {
+      if (e.code === 'ArrowUp' || bindings.forward.includes(e.code)) {
+        setSelected(s => (s - 1 + count) % count);
+        e.preventDefault();
+        return;
+      }
+      if (e.code === 'ArrowDown' || bindings.back.includes(e.code)) {
+        setSelected(s => (s + 1) % count);
+        e.preventDefault();
+        return;
+      }
+      // A focused button clicks itself on Enter / Space; buying here as well
+      // would buy twice, and preventDefault would swallow that click
+      const focused = document.activeElement;
+      if ((e.key === 'Enter' || e.key === ' ') && focused instanceof HTMLButtonElement && menuRef.current?.contains(focused)) return;
+      switch (e.key) {
+        case 'Enter': case ' ': onBuy(SHOP_CATALOGUE[selected].id); break;
+        case 'Escape': onClose(); break;
+        default: return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', key);
+    return () => window.removeEventListener('keydown', key);
+  }, [selected, bindings, onBuy, onClose]);
+
+  const categories = Object.keys(CATEGORY_LABELS) as ShopCategory[];
+
+  return (
+    <div className="absolute inset-0 z-40 flex items-center justify-center bg-black/60 pointer-events-auto">
+      <div ref={menuRef} className="w-full max-w-md max-h-full overflow-y-auto bg-gray-900/95 border-2 border-yellow-600 rounded p-4 font-mono text-white">
+        <div className="flex justify-between items-center mb-3">
+          <div className="text-2xl font-black text-yellow-500">SHOP</div>
+          <div className="text-yellow-300">GOLD: ${state.gold}</div>
+        </div>
+        {categories.map(category => (
+          <div key={category} className="mb-3">
+            <div className="text-xs text-gray-400 mb-1">{CATEGORY_LABELS[category]}</div>
+            {SHOP_CATALOGUE.map((item, i) => {
+              if (item.category !== category) return null;
+              const status = shopItemStatus(item, state);
+              return (
+                <button
+                  key={item.id}
+                  onMouseEnter={() => setSelected(i)}
+                  onClick={() => { setSelected(i); onBuy(item.id); }}
+                  className={`w-full flex justify-between items-center text-left px-2 py-2 rounded mb-1 ${
+                    i === selected ? 'bg-yellow-600 text-black' : 'bg-black/40'
+                  } ${status === 'available' ? '' : 'opacity-50'}`}
+                >
+                  <div>
+                    <div className="font-bold">{item.name}</div>
+                    <div className="text-xs">{item.description}</div>
+                  </div>
+                  <div className="text-right whitespace-nowrap ml-2">
+                    <div className="font-bold">{item.price}G</div>
+                    <div className="text-[10px]">{STATUS_LABELS[status]}</div>
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+        ))}
+        <button onClick={onClose} className="w-full py-2 bg-white text-black font-bold hover:bg-gray-200">
+          CLOSE (ESC)
+        </button>
+      </div>
+    </div>
+  );
+};
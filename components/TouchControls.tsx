@@ -0,0 +1,119 @@
+import React, { useEffect, useRef } from 'react';
+import { TouchSettings } from '../types';
+import { Joystick } from './Joystick';
+
+const LOOK_SPEED = 0.005; // Radians per pixel dragged, at sensitivity 1
+const BUTTON_SIZE = 64; // px, at scale 1
+
+// Phones and tablets, not laptops that merely have a touchscreen
+export const isTouchDevice = () => typeof window !== 'undefined' && window.matchMedia('(pointer: coarse)').matches;
+
+interface TouchControlsProps {
+  settings: TouchSettings;
+  showLook: boolean; // Drag-to-look and action buttons; mouse players only get the stick
+  nearShop: boolean;
+  onMove: (x: number, y: number) => void;
+  onLook: (yaw: number, pitch: number) => void; // Radians to turn by
+  onFire: (held: boolean) => void;
+  onReload: () => void;
+  onInteract: () => void;
+  onSwapWeapon: () => void;
+}
+
+// Follows one pointer from press to release and reports how far it moved.
+// Every control tracks its own pointer, so several fingers work at once.
+const useDrag = (onDelta: (dx: number, dy: number) => void) => {
+  const pointer = useRef<{ id: number; x: number; y: number } | null>(null);
+  return {
+    start: (e: React.PointerEvent) => {
+      if (pointer.current) return false;
+      // Stops the browser synthesising a mouse click, which would fire the gun
+      e.preventDefault();
+      e.currentTarget.setPointerCapture(e.pointerId);
+      pointer.current = { id: e.pointerId, x: e.clientX, y: e.clientY };
+      return true;
+    },
+    move: (e: React.PointerEvent) => {
+      const p = pointer.current;
+      if (!p || p.id !== e.pointerId) return;
+      onDelta(e.clientX - p.x, e.clientY - p.y);
+      p.x = e.clientX;
+      p.y = e.clientY;
+    },
+    end: (e: React.PointerEvent) => {
+      if (pointer.current?.id !== e.pointerId) return false;
+      pointer.current = null;
+      return true;
+    },
+  };
+};
+
+const ActionButton = ({ label, size, onPress, className = '' }: {
+  label: string; size: number; onPress: () => void; className?: string;
+}) => (
+  <button
+    className={`rounded-full bg-gray-900/60 border-2 border-white/30 text-white font-mono text-xs font-bold touch-none select-none pointer-events-auto active:bg-white/40 ${className}`}
+    style={{ width: size, height: size }}
+    onPointerDown={e => { e.preventDefault(); onPress(); }}
+  >
+    {label}
+  </button>
+);
+
+// Stick, look area and action buttons for touch screens. The layout mirrors
+// for left-handed players; it and the speeds are set in the settings menu.
+export const TouchControls: React.FC<TouchControlsProps> = ({
+  settings, showLook, nearShop, onMove, onLook, onFire, onReload, onInteract, onSwapWeapon,
+}) => {
+  // Hidden mid-press (the shop opened): let go of everything
+  useEffect(() => () => {
+    onFire(false);
+    onMove(0, 0);
+  }, []);
+  const turn = (dx: number, dy: number) => {
+    const speed = LOOK_SPEED * settings.lookSensitivity;
+    onLook(-dx * speed, -dy * speed);
+  };
+  const look = useDrag(turn);
+  // Dragging off the fire button aims while firing
+  const fireDrag = useDrag(turn);
+
+  const size = BUTTON_SIZE * settings.buttonScale;
+  const stickSide = settings.leftHanded ? 'right-10' : 'left-10';
+  const lookSide = settings.leftHanded ? 'left-0' : 'right-0';
+  const buttonSide = settings.leftHanded ? 'left-6 items-start' : 'right-6 items-end';
+
+  return (
+    <div className="absolute inset-0 z-30 pointer-events-none">
+      <Joystick onMove={onMove} className={`absolute bottom-10 ${stickSide}`} />
+      {showLook && (
+        <>
+          <div
+            className={`absolute top-24 bottom-0 ${lookSide} w-1/2 touch-none pointer-events-auto`}
+            onPointerDown={look.start}
+            onPointerMove={look.move}
+            onPointerUp={look.end}
+            onPointerCancel={look.end}
+          />
+          <div className={`absolute bottom-28 ${buttonSide} flex flex-col gap-3`}>
+            <div className="flex gap-3">
+              <ActionButton label="SWAP" size={size * 0.75} onPress={onSwapWeapon} />
+              <ActionButton label="RELOAD" size={size * 0.75} onPress={onReload} />
+              <ActionButton label="USE" size={size * 0.75} onPress={onInteract} className={nearShop ? 'border-yellow-400 text-yellow-300' : ''} />
+            </div>
+            <button
+              className="rounded-full bg-red-700/60 border-2 border-red-300/50 text-white font-mono font-black touch-none select-none pointer-events-auto"
+              style={{ width: size * 1.4, height: size * 1.4 }}
+              onPointerDown={e => { if (fireDrag.start(e)) onFire(true); }}
+              onPointerMove={fireDrag.move}
+              onPointerUp={e => { if (fireDrag.end(e)) onFire(false); }}
+              onPointerCancel={e => { if (fireDrag.end(e)) onFire(false); }}
+            >
+              FIRE
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
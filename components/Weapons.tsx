@@ -0,0 +1,119 @@
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { WeaponId } from '../types';
+
+// --- Viewmodels ---
+// Each model is built around the grip; the Weapon wrapper handles sway,
+// recoil and the reload tilt for all of them.
+
+const AkModel = () => (
+  <>
+    <mesh castShadow>
+      <boxGeometry args={[0.08, 0.1, 0.6]} />
+      <meshStandardMaterial color="#222" />
+    </mesh>
+    <mesh position={[0, -0.05, 0.2]} rotation={[0.2, 0, 0]}>
+      <boxGeometry args={[0.08, 0.15, 0.3]} />
+      <meshStandardMaterial color="#5C4033" />
+    </mesh>
+    <mesh position={[0, 0.05, -0.4]}>
+      <cylinderGeometry args={[0.015, 0.02, 0.4]} />
+      <meshStandardMaterial color="#111" />
+    </mesh>
+    {/* Magazine */}
+    <mesh position={[0, -0.15, -0.1]} rotation={[0.2, 0, 0]}>
+      <boxGeometry args={[0.06, 0.25, 0.1]} />
+      <meshStandardMaterial color="#333" />
+    </mesh>
+  </>
+);
+
+const PistolModel = () => (
+  <group position={[0, 0, -0.15]}>
+    {/* Slide */}
+    <mesh castShadow>
+      <boxGeometry args={[0.05, 0.07, 0.25]} />
+      <meshStandardMaterial color="#2b2b2b" metalness={0.6} roughness={0.4} />
+    </mesh>
+    {/* Grip */}
+    <mesh position={[0, -0.1, 0.08]} rotation={[0.25, 0, 0]}>
+      <boxGeometry args={[0.045, 0.15, 0.07]} />
+      <meshStandardMaterial color="#3e2723" />
+    </mesh>
+    <mesh position={[0, 0.01, -0.14]} rotation={[Math.PI / 2, 0, 0]}>
+      <cylinderGeometry args={[0.01, 0.01, 0.04]} />
+      <meshStandardMaterial color="#111" />
+    </mesh>
+  </group>
+);
+
+const ShotgunModel = () => (
+  <>
+    {/* Receiver */}
+    <mesh castShadow>
+      <boxGeometry args={[0.09, 0.1, 0.35]} />
+      <meshStandardMaterial color="#1c1c1c" />
+    </mesh>
+    {/* Stock */}
+    <mesh position={[0, -0.04, 0.3]} rotation={[0.15, 0, 0]}>
+      <boxGeometry args={[0.08, 0.13, 0.35]} />
+      <meshStandardMaterial color="#6d4c41" />
+    </mesh>
+    {/* Barrel and pump tube */}
+    <mesh position={[0, 0.03, -0.45]} rotation={[Math.PI / 2, 0, 0]}>
+      <cylinderGeometry args={[0.025, 0.025, 0.6]} />
+      <meshStandardMaterial color="#111" metalness={0.7} roughness={0.3} />
+    </mesh>
+    <mesh position={[0, -0.03, -0.35]} rotation={[Math.PI / 2, 0, 0]}>
+      <cylinderGeometry args={[0.035, 0.035, 0.25]} />
+      <meshStandardMaterial color="#6d4c41" />
+    </mesh>
+  </>
+);
+
+const MODELS: Record<WeaponId, React.FC> = {
+  pistol: PistolModel,
+  shotgun: ShotgunModel,
+  ak47: AkModel,
+};
+
+// Recoil kick per weapon, in units of the viewmodel's z offset
+const RECOIL: Record<WeaponId, number> = {
+  pistol: 0.06,
+  shotgun: 0.2,
+  ak47: 0.1,
+};
+
+export const Weapon = ({ weapon, isFiring, isReloading }: { weapon: WeaponId; isFiring: boolean; isReloading: boolean }) => {
+  const group = useRef<THREE.Group>(null);
+  useFrame((state) => {
+    if (!group.current) return;
+    const t = state.clock.getElapsedTime();
+    group.current.position.y = -0.25 + Math.sin(t * 2) * 0.005;
+    group.current.position.x = 0.3 + Math.cos(t * 1.5) * 0.005;
+
+    // Recoil
+    if (isFiring) {
+      group.current.position.z = Math.min(group.current.position.z + RECOIL[weapon], -0.3);
+      group.current.rotation.x = RECOIL[weapon];
+    } else {
+      group.current.position.z = THREE.MathUtils.lerp(group.current.position.z, -0.5, 0.1);
+      group.current.rotation.x = THREE.MathUtils.lerp(group.current.rotation.x, 0, 0.1);
+    }
+
+    if (isReloading) {
+      group.current.rotation.x = -0.5;
+      group.current.rotation.z = -0.5;
+    } else {
+      group.current.rotation.z = 0;
+    }
+  });
+
+  const Model = MODELS[weapon];
+  return (
+    <group ref={group} position={[0.3, -0.25, -0.5]}>
+      <Model />
+    </group>
+  );
+};
@@ -0,0 +1,35 @@
+import { fbm, getNoise } from './noise';
+
+// --- Biomes ---
+// Low-frequency noise picks a biome for every point; the biome then decides
+// what generateChunk scatters around. Tuning lives in the table below.
+
+export type Biome = 'meadow' | 'forest' | 'highlands' | 'battlefield';
+
+export interface BiomeDefinition {
+    trees: [number, number]; // Min / max trees per chunk
+    rocks: [number, number]; // Min / max loose rocks per chunk
+    ruinChance: number; // Chance of a ruin cluster per chunk
+    mountainChance: number; // Chance of a mountain massif per chunk
+    grass: string; // Ground colour away from roads and dirt
+}
+
+export const BIOMES: Record<Biome, BiomeDefinition> = {
+    meadow: { trees: [0, 3], rocks: [0, 2], ruinChance: 0.05, mountainChance: 0, grass: '#3d6b27' },
+    forest: { trees: [12, 20], rocks: [0, 2], ruinChance: 0.05, mountainChance: 0, grass: '#23401a' },
+    highlands: { trees: [1, 4], rocks: [4, 9], ruinChance: 0.05, mountainChance: 0.35, grass: '#4a5a35' },
+    battlefield: { trees: [0, 2], rocks: [2, 5], ruinChance: 0.7, mountainChance: 0, grass: '#4d4a2e' },
+};
+
+const BIOME_SCALE = 0.0016;
+const BATTLEFIELD_THRESHOLD = 0.4;
+const HIGHLANDS_THRESHOLD = 0.25;
+
+export const getBiome = (x: number, z: number, seed: number): Biome => {
+    const noise = getNoise(seed);
+    const bx = x * BIOME_SCALE, bz = z * BIOME_SCALE;
+    // Battlefields are rare patches laid over any other biome
+    if (fbm(noise, bx * 1.5 + 3000, bz * 1.5 - 3000, { octaves: 2 }) > BATTLEFIELD_THRESHOLD) return 'battlefield';
+    if (fbm(noise, bx + 5000, bz + 5000, { octaves: 2 }) > HIGHLANDS_THRESHOLD) return 'highlands';
+    return fbm(noise, bx - 2000, bz + 2000, { octaves: 2 }) > 0 ? 'forest' : 'meadow';
+};
@@ -0,0 +1,178 @@
+import { Obstacle, Vector3 } from '../types';
+import { WALL_HEIGHT } from './config';
+
+// --- Building Templates ---
+// Buildings are plain data: a list of parts with offsets in the building's
+// local frame (door side towards +z). placeBuilding does the one transform to
+// world space, using the same rotation convention as three.js (rotation.y).
+
+export type BuildingType = 'cottage' | 'tower' | 'market' | 'church' | 'blacksmith' | 'stables';
+
+export interface PartTemplate {
+    name: string; // Id suffix, unique within the building
+    type: Obstacle['type'];
+    x: number; // Local offset
+    z: number;
+    y?: number; // Height of the part's anchor above the ground
+    rotation?: number;
+    dims?: { w: number; h: number; d: number };
+    scale?: Vector3;
+    radius?: number;
+    variant?: string;
+}
+
+export interface BuildingTemplate {
+    footprint: { w: number; d: number }; // Local extents, used by the village layout
+    parts: PartTemplate[];
+    // Alternative furnishings; one is picked per building
+    interiors?: PartTemplate[][];
+}
+
+const ONE = { x: 1, y: 1, z: 1 };
+
+// Box part standing on the ground.
+export const box = (name: string, type: Obstacle['type'], x: number, z: number, w: number, h: number, d: number, rotation = 0): PartTemplate =>
+    ({ name, type, x, z, y: h / 2, rotation, dims: { w, h, d }, radius: 1 });
+
+// Four walls around a width x depth floor, with a door gap in the front (+z) wall.
+const shell = (width: number, depth: number, height: number, door: number): PartTemplate[] => {
+    const side = (width - door) / 2;
+    const parts = [
+        box('wall:back', 'wall', 0, -depth / 2, width, height, 1),
+        box('wall:left', 'wall', -width / 2, 0, depth, height, 1, Math.PI / 2),
+        box('wall:right', 'wall', width / 2, 0, depth, height, 1, Math.PI / 2),
+    ];
+    if (door <= 0) return [...parts, box('wall:front', 'wall', 0, depth / 2, width, height, 1)];
+    return [
+        ...parts,
+        box('wall:fl', 'wall', -(side + door) / 2, depth / 2, side, height, 1),
+        box('wall:fr', 'wall', (side + door) / 2, depth / 2, side, height, 1),
+    ];
+};
+
+const roof = (name: string, x: number, z: number, y: number, size: number, height: number): PartTemplate =>
+    ({ name, type: 'roof', x, z, y, scale: { x: size, y: height, z: size } });
+
+const furniture = (name: string, variant: string, x: number, z: number, w: number, h: number, d: number, rotation = 0): PartTemplate =>
+    ({ ...box(name, 'furniture', x, z, w, h, d, rotation), variant });
+
+export const BUILDING_TEMPLATES: Record<BuildingType, BuildingTemplate> = {
+    cottage: {
+        footprint: { w: 8, d: 8 },
+        parts: [...shell(8, 8, WALL_HEIGHT, 3), roof('roof', 0, 0, WALL_HEIGHT, 9, 4)],
+        interiors: [
+            [
+                furniture('bed', 'bed', -2.2, -2.3, 1.4, 0.6, 2.2),
+                furniture('table', 'table', 1.5, -0.5, 1.6, 0.8, 1),
+                furniture('hearth', 'hearth', 2.6, -2.6, 1.4, 1.2, 0.8),
+            ],
+            [
+                furniture('bed', 'bed', 2.2, -2.3, 1.4, 0.6, 2.2),
+                furniture('chest', 'chest', -2.6, -2.8, 1, 0.7, 0.6),
+                furniture('shelf', 'shelf', -3, 0.5, 0.5, 2, 2, 0),
+            ],
+            [
+                furniture('table', 'table', 0, -1.5, 2, 0.8, 1.2),
+                furniture('barrel', 'barrel', -2.7, -2.7, 0.8, 1, 0.8),
+                furniture('barrel:2', 'barrel', -1.7, -2.8, 0.8, 1, 0.8),
+                furniture('hearth', 'hearth', 2.6, -2.6, 1.4, 1.2, 0.8),
+            ],
+        ],
+    },
+    tower: {
+        footprint: { w: 5, d: 5 },
+        parts: [...shell(5, 5, 12, 0), roof('roof', 0, 0, 12, 7, 6)],
+    },
+    market: {
+        footprint: { w: 6, d: 6 },
+        parts: [
+            ...[-1, 1].flatMap(dx => [-1, 1].map(dz => box(`pillar:${dx}:${dz}`, 'wall', dx * 6 / 2.2, dz * 6 / 2.2, 0.5, 4, 0.5))),
+            // A roof, not a slab: collision is 2D and a slab would wall off the stall
+            roof('roof', 0, 0, 4, 7, 2.5),
+            { name: 'shop', type: 'shop_table', x: 0, z: 0, radius: 3 },
+        ],
+    },
+    church: {
+        footprint: { w: 11, d: 18 },
+        parts: [
+            ...shell(10, 14, 7, 3),
+            roof('roof:front', 0, 3.5, 7, 11, 5),
+            roof('roof:back', 0, -3.5, 7, 11, 5),
+            // Bell tower behind the nave
+            box('tower:back', 'wall', 0, -10, 4, 14, 1),
+            box('tower:left', 'wall', -2, -8, 4, 14, 1, Math.PI / 2),
+            box('tower:right', 'wall', 2, -8, 4, 14, 1, Math.PI / 2),
+            roof('tower:roof', 0, -8, 14, 5.5, 6),
+            furniture('altar', 'table', 0, -5.5, 2.4, 1, 1),
+            ...[-1, 1].flatMap(side => [0, 1, 2].map(row =>
+                furniture(`pew:${side}:${row}`, 'bench', side * 2.2, -2 + row * 2.2, 3, 0.6, 0.6))),
+        ],
+    },
+    blacksmith: {
+        footprint: { w: 8, d: 6 },
+        // Open-fronted workshop under a roof on two walls
+        parts: [
+            box('wall:back', 'wall', 0, -3, 8, 3.5, 1),
+            box('wall:left', 'wall', -4, 0, 6, 3.5, 1, Math.PI / 2),
+            box('post:right', 'wall', 3.8, 2.6, 0.5, 3.5, 0.5),
+            roof('roof', 0, 0, 3.5, 9, 3),
+            furniture('forge', 'forge', -2.2, -1.5, 2, 1.2, 1.6),
+            furniture('anvil', 'anvil', 1, 0.5, 1, 0.9, 0.5),
+            furniture('barrel', 'barrel', 3, -2, 0.8, 1, 0.8),
+        ],
+    },
+    stables: {
+        footprint: { w: 12, d: 6 },
+        parts: [
+            box('wall:back', 'wall', 0, -3, 12, 3.5, 1),
+            box('wall:left', 'wall', -6, 0, 6, 3.5, 1, Math.PI / 2),
+            box('wall:right', 'wall', 6, 0, 6, 3.5, 1, Math.PI / 2),
+            roof('roof:left', -3, 0, 3.5, 7, 3),
+            roof('roof:right', 3, 0, 3.5, 7, 3),
+            // Low stall dividers and a little hay
+            ...[-2, 2].map(x => box(`stall:${x}`, 'fence', x, -0.8, 4, 1.4, 0.2, Math.PI / 2)),
+            furniture('hay', 'hay', -4, -1.8, 1.4, 0.9, 1),
+            furniture('hay:2', 'hay', 4.2, -1.8, 1.4, 0.9, 1),
+        ],
+    },
+};
+
+// Maps a local offset to world space, matching three.js rotation.y.
+export const rotateLocal = (x: number, z: number, rotation: number) => {
+    const cos = Math.cos(rotation), sin = Math.sin(rotation);
+    return { x: x * cos + z * sin, z: -x * sin + z * cos };
+};
+
+const placePart = (part: PartTemplate, x: number, z: number, y: number, rotation: number, idPrefix: string): Obstacle => {
+    const offset = rotateLocal(part.x, part.z, rotation);
+    return {
+        id: `${idPrefix}:${part.name}`,
+        type: part.type,
+        position: { x: x + offset.x, y: y + (part.y || 0), z: z + offset.z },
+        rotation: rotation + (part.rotation || 0),
+        scale: part.scale || ONE,
+        radius: part.radius ?? 0,
+        ...(part.dims ? { dims: part.dims } : {}),
+        ...(part.variant ? { variant: part.variant } : {}),
+    };
+};
+
+// World obstacles for a list of parts whose local origin sits at (x, y, z).
+export const placeParts = (parts: PartTemplate[], x: number, z: number, y: number, rotation: number, idPrefix: string): Obstacle[] =>
+    parts.map(p => placePart(p, x, z, y, rotation, idPrefix));
+
+// `furnishing` (0..1) picks an interior, when the template has any.
+export const placeBuilding = (
+    type: BuildingType,
+    x: number,
+    z: number,
+    y: number,
+    rotation: number,
+    idPrefix: string,
+    furnishing = 0
+): Obstacle[] => {
+    const template = BUILDING_TEMPLATES[type];
+    const interiors = template.interiors || [];
+    const interior = interiors.length > 0 ? interiors[Math.floor(furnishing * interiors.length) % interiors.length] : [];
+    return placeParts([...template.parts, ...interior], x, z, y, rotation, idPrefix);
+};
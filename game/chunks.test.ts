@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { ChunkCache } from './chunks';
+import { CHUNK_SIZE } from './config';
+
+const SEED = 42;
+
+describe('ChunkCache', () => {
+    it('keeps a removed obstacle removed after its chunk is evicted and reloaded', () => {
+        const world = new ChunkCache(SEED, 0, 0);
+        world.update(0, 0);
+        const target = world.obstacles()[0];
+        expect(target).toBeDefined();
+
+        expect(world.removeObstacle(target.id)).toBe(true);
+        world.update(CHUNK_SIZE * 5, 0);
+        world.update(0, 0);
+
+        expect(world.obstacles().some(o => o.id === target.id)).toBe(false);
+        expect(world.exportDiffs()).toEqual({ '0:0': { removed: [target.id] } });
+    });
+
+    it('records nothing for ids it does not hold', () => {
+        const world = new ChunkCache(SEED, 0, 0);
+        world.update(0, 0);
+        const version = world.version;
+
+        expect(world.removeObstacle('0:0:no-such-obstacle')).toBe(false);
+        expect(world.removeObstacle('7:7:tree-0')).toBe(false); // Chunk not loaded
+
+        expect(world.exportDiffs()).toEqual({});
+        expect(world.version).toBe(version);
+    });
+});
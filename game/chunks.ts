@@ -0,0 +1,127 @@
+import { Obstacle } from '../types';
+import { CHUNK_EVICT_RADIUS, CHUNK_LOAD_RADIUS, CHUNK_SIZE } from './config';
+import { generateChunk } from './worldgen';
+
+// --- Chunk Streaming ---
+// Chunks are generated around the player and evicted once they fall outside
+// the eviction radius. Generation is deterministic, so an evicted chunk is
+// simply regenerated on return; only player-made changes are kept, as a diff.
+
+export interface ChunkDiff {
+    removed: string[]; // Ids of obstacles destroyed in this chunk
+}
+
+export const chunkKey = (cx: number, cz: number) => `${cx}:${cz}`;
+
+export const chunkCoord = (x: number) => Math.floor(x / CHUNK_SIZE);
+
+// Obstacle ids are prefixed with their chunk coordinates by generateChunk.
+export const chunkKeyOfObstacle = (id: string) => id.split(':', 2).join(':');
+
+export class ChunkCache {
+    // Bumped on every load, eviction or modification
+    version = 0;
+
+    private chunks = new Map<string, Obstacle[]>();
+    private diffs = new Map<string, ChunkDiff>();
+    private flat: Obstacle[] | null = [];
+
+    constructor(
+        private seed: number,
+        private loadRadius = CHUNK_LOAD_RADIUS,
+        private evictRadius = CHUNK_EVICT_RADIUS
+    ) {}
+
+    // Loads missing chunks and evicts far ones around a world position.
+    // Returns true if the obstacle set changed.
+    update(x: number, z: number): boolean {
+        const cx = chunkCoord(x);
+        const cz = chunkCoord(z);
+        let changed = false;
+
+        for (const key of Array.from(this.chunks.keys())) {
+            const [kx, kz] = key.split(':').map(Number);
+            if (Math.max(Math.abs(kx - cx), Math.abs(kz - cz)) > this.evictRadius) {
+                this.chunks.delete(key);
+                changed = true;
+            }
+        }
+
+        for (let x = cx - this.loadRadius; x <= cx + this.loadRadius; x++) {
+            for (let z = cz - this.loadRadius; z <= cz + this.loadRadius; z++) {
+                const key = chunkKey(x, z);
+                if (this.chunks.has(key)) continue;
+                this.chunks.set(key, this.applyDiff(key, generateChunk(x, z, this.seed)));
+                changed = true;
+            }
+        }
+
+        if (changed) this.touch();
+        return changed;
+    }
+
+    isLoaded(cx: number, cz: number) {
+        return this.chunks.has(chunkKey(cx, cz));
+    }
+
+    getChunk(cx: number, cz: number): Obstacle[] | undefined {
+        return this.chunks.get(chunkKey(cx, cz));
+    }
+
+    loadedKeys(): string[] {
+        return Array.from(this.chunks.keys());
+    }
+
+    // All obstacles of the loaded chunks. Cached until the next change.
+    obstacles(): Obstacle[] {
+        if (!this.flat) {
+            this.flat = [];
+            this.chunks.forEach(list => this.flat!.push(...list));
+        }
+        return this.flat;
+    }
+
+    // Only ids of obstacles that were really there go into the diff, so stale
+    // or unknown ids never pile up in saves.
+    removeObstacle(id: string): boolean {
+        const key = chunkKeyOfObstacle(id);
+        const list = this.chunks.get(key);
+        if (!list) return false;
+        const next = list.filter(o => o.id !== id);
+        if (next.length === list.length) return false;
+        this.chunks.set(key, next);
+
+        const diff = this.diffs.get(key) || { removed: [] };
+        diff.removed.push(id);
+        this.diffs.set(key, diff);
+        this.touch();
+        return true;
+    }
+
+    // --- Persistence ---
+
+    exportDiffs(): Record<string, ChunkDiff> {
+        const out: Record<string, ChunkDiff> = {};
+        this.diffs.forEach((diff, key) => { out[key] = { removed: [...diff.removed] }; });
+        return out;
+    }
+
+    importDiffs(diffs: Record<string, ChunkDiff>) {
+        this.diffs.clear();
+        Object.entries(diffs).forEach(([key, diff]) => this.diffs.set(key, { removed: [...diff.removed] }));
+        this.chunks.forEach((list, key) => this.chunks.set(key, this.applyDiff(key, list)));
+        this.touch();
+    }
+
+    private applyDiff(key: string, obstacles: Obstacle[]): Obstacle[] {
+        const diff = this.diffs.get(key);
+        if (!diff || diff.removed.length === 0) return obstacles;
+        const removed = new Set(diff.removed);
+        return obstacles.filter(o => !removed.has(o.id));
+    }
+
+    private touch() {
+        this.flat = null;
+        this.version++;
+    }
+}
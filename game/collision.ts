@@ -0,0 +1,63 @@
+import { Obstacle } from '../types';
+import { Bounds2D, SpatialGrid } from './spatialGrid';
+
+// --- Physics & Collision ---
+// Only x/z matter: obstacles are extruded shapes standing on the terrain.
+
+export type ObstacleGrid = SpatialGrid<Obstacle>;
+
+// The shop table's radius is its interaction range, not its footprint.
+const SHOP_TABLE_FOOTPRINT = 1;
+
+export const collisionRadius = (obs: Obstacle) => obs.type === 'shop_table' ? SHOP_TABLE_FOOTPRINT : obs.radius;
+
+const BOX_TYPES = new Set<Obstacle['type']>(['wall', 'ruin', 'fence', 'palisade', 'furniture']);
+
+export const isBoxObstacle = (obs: Obstacle): obs is Obstacle & { dims: NonNullable<Obstacle['dims']> } =>
+    BOX_TYPES.has(obs.type) && !!obs.dims;
+
+export const obstacleBounds = (obs: Obstacle): Bounds2D | null => {
+    if (isBoxObstacle(obs)) {
+        const cos = Math.abs(Math.cos(obs.rotation)), sin = Math.abs(Math.sin(obs.rotation));
+        const hw = obs.dims.w / 2, hd = obs.dims.d / 2;
+        const ex = cos * hw + sin * hd;
+        const ez = sin * hw + cos * hd;
+        return { minX: obs.position.x - ex, minZ: obs.position.z - ez, maxX: obs.position.x + ex, maxZ: obs.position.z + ez };
+    }
+    // Shop tables are indexed by interaction range so proximity lookups find them
+    const r = obs.radius;
+    if (r <= 0) return null;
+    return { minX: obs.position.x - r, minZ: obs.position.z - r, maxX: obs.position.x + r, maxZ: obs.position.z + r };
+};
+
+export const createObstacleGrid = (obstacles: Obstacle[] = []): ObstacleGrid => {
+    const grid = new SpatialGrid<Obstacle>(obstacleBounds);
+    obstacles.forEach(o => grid.insert(o));
+    return grid;
+};
+
+export const circleHitsObstacle = (obs: Obstacle, x: number, z: number, radius: number): boolean => {
+    const dx = x - obs.position.x;
+    const dz = z - obs.position.z;
+    if (isBoxObstacle(obs)) {
+        // Into the box's frame, undoing three.js rotation.y
+        const cos = Math.cos(obs.rotation);
+        const sin = Math.sin(obs.rotation);
+        const localX = dx * cos - dz * sin;
+        const localZ = dx * sin + dz * cos;
+        const halfW = (obs.dims.w / 2) + radius;
+        const halfD = (obs.dims.d / 2) + radius;
+        return Math.abs(localX) < halfW && Math.abs(localZ) < halfD;
+    }
+    const r = collisionRadius(obs);
+    if (r <= 0) return false;
+    const minDist = r + radius;
+    return dx * dx + dz * dz < minDist * minDist;
+};
+
+export const checkCollision = (position: { x: number; z: number }, grid: ObstacleGrid, radius: number): boolean => {
+    for (const obs of grid.queryCircle(position.x, position.z, radius)) {
+        if (circleHitsObstacle(obs, position.x, position.z, radius)) return true;
+    }
+    return false;
+};
@@ -0,0 +1,74 @@
+import { BossType, EnemyType } from '../types';
+
+// --- Gameplay Constants ---
+export const WALK_SPEED = 15;
+export const MAX_WALK_SLOPE = 0.7; // Rise per unit walked; nobody climbs ground steeper than this
+export const KILLSTREAK_STEP = 5; // Announce every N kills without taking damage
+export const LOW_HEALTH_THRESHOLD = 30;
+
+// World Gen Constants
+export const CHUNK_SIZE = 60;
+export const CHUNK_RES = 24; 
+export const RENDER_DISTANCE = 2; // Chunks whose obstacles are drawn around the player
+export const TERRAIN_RENDER_DISTANCE = 6; // Terrain reaches further, fading out in fog
+export const TERRAIN_LOD_RINGS = [1, 3]; // Chunk distances past which terrain halves its resolution again
+export const CHUNK_LOAD_RADIUS = RENDER_DISTANCE; // Chunks generated around the player
+export const CHUNK_EVICT_RADIUS = RENDER_DISTANCE + 1; // Chunks past this are dropped (hysteresis avoids thrashing at borders)
+
+// Scale factors
+export const PLAYER_HEIGHT = 1.7;
+export const PLAYER_RADIUS = 0.5;
+export const ENEMY_RADIUS = 0.2;
+export const WALL_HEIGHT = 5;
+
+export interface EnemyConfig {
+  hp: number;
+  speed: number;
+  score: number;
+  gold: number; // Paid out on the kill
+  scale: number;
+  color: string;
+}
+
+export interface BossPhase {
+  at: number; // Health fraction at which the phase starts
+  escort?: Partial<Record<EnemyType, number>>; // Called in around the boss when it does
+}
+
+export interface BossConfig extends EnemyConfig {
+  name: string; // Shown over the health bar
+  escort: Partial<Record<EnemyType, number>>; // Arrives with the boss
+  phases: BossPhase[]; // After the opening one, highest `at` first
+}
+
+// Bosses lead their own waves; see BOSS_INTERVAL in waves.ts
+export const BOSS_CONFIG: Record<BossType, BossConfig> = {
+  king: {
+    name: 'THE KING', hp: 1500, speed: 3, score: 2000, gold: 500, scale: 1.3, color: '#7B1FA2',
+    escort: { knight: 4 },
+    phases: [
+      { at: 0.66, escort: { knight: 2, crossbowman: 2 } }, // Calls the guard
+      { at: 0.33 }, // Draws his sword himself
+    ],
+  },
+  ram: {
+    name: 'SIEGE RAM', hp: 2000, speed: 2, score: 2500, gold: 600, scale: 1.5, color: '#5D4037',
+    escort: { peasant: 4 },
+    phases: [
+      { at: 0.5, escort: { peasant: 3, archer: 2 } }, // Gives up on the walls and comes for the player
+    ],
+  },
+};
+
+export const ENEMY_CONFIG: Record<EnemyType, EnemyConfig> = {
+  peasant: { hp: 40, speed: 7, score: 50, gold: 10, scale: 0.8, color: '#8B4513' }, 
+  knight: { hp: 100, speed: 4, score: 100, gold: 25, scale: 1.0, color: '#666666' }, 
+  heavy: { hp: 300, speed: 2.5, score: 300, gold: 100, scale: 1.4, color: '#2F4F4F' }, 
+  archer: { hp: 35, speed: 5, score: 80, gold: 20, scale: 0.9, color: '#556B2F' }, 
+  crossbowman: { hp: 70, speed: 3.5, score: 150, gold: 40, scale: 1.0, color: '#6B4226' }, 
+  cavalry: { hp: 160, speed: 9, score: 200, gold: 45, scale: 1.0, color: '#4a4a5a' }, 
+  villager: { hp: 30, speed: 5, score: -100, gold: 0, scale: 0.8, color: '#3b82f6' }, 
+  ...BOSS_CONFIG,
+};
+
+export const isBoss = (type: EnemyType): type is BossType => type in BOSS_CONFIG;
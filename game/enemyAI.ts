@@ -0,0 +1,355 @@
+import { AttackPhase, AttackState, Enemy, EnemyType, ProjectileKind } from '../types';
+
+// --- Enemy Behaviour ---
+// One controller per EnemyType decides where an enemy walks and when it
+// attacks. Attacks step through AttackState phases with fixed durations, so a
+// blow lands once at a known simulation time instead of every frame. The
+// simulation provides movement, sight and damage through an EnemyContext.
+
+export interface EnemyContext {
+    time: number; // Simulation ms
+    // Living enemies of a type within GROUP_RANGE of the player
+    nearPlayer(type: EnemyType): number;
+    // Walks towards the player, around buildings
+    approach(e: Enemy, to: ToPlayer, speedScale?: number): void;
+    // Walks along a unit direction; false when every way is blocked
+    move(e: Enemy, dirX: number, dirZ: number, speedScale?: number): boolean;
+    // Nothing solid between the enemy's eyes and the player
+    canSee(e: Enemy): boolean;
+    // The player's crosshair is on or near the enemy
+    isAimedAt(e: Enemy): boolean;
+    hitPlayer(damage: number): void;
+    shoot(e: Enemy, weapon: RangedWeapon): void;
+    // Nearest wall within a siege engine's sight, if any
+    siegeTarget(e: Enemy): SiegeTarget | null;
+    demolish(target: SiegeTarget): void;
+}
+
+export interface SiegeTarget {
+    id: string;
+    x: number;
+    z: number;
+    inReach: boolean;
+}
+
+// Unit direction and distance from an enemy to the player, on the ground
+export interface ToPlayer {
+    x: number;
+    z: number;
+    dist: number;
+}
+
+export interface MeleeAttack {
+    range: number; // A swing starts within this distance
+    reach: number; // and still lands if the player is within this one when the windup ends
+    damage: number;
+    windup: number; // ms of telegraph before the blow
+    strike: number; // ms the blow takes
+    recover: number; // ms standing still afterwards
+    cooldown: number; // ms after recovering before the next swing
+}
+
+export interface ChargeAttack {
+    minRange: number; // Too close to build up speed
+    maxRange: number;
+    speed: number; // Multiplier on walking speed
+    time: number; // ms before a charge that found nothing runs out
+    damage: number;
+    reach: number;
+    recover: number; // ms winded afterwards
+    cooldown: number; // ms from the end of a charge to the next
+    overrun?: boolean; // Rides on through the player instead of stopping
+}
+
+export interface RangedWeapon {
+    projectile: ProjectileKind;
+    damage: number;
+    speed: number; // Units per second at release
+    spread: number; // Aim error either way, radians
+    minRange: number; // Backs away from a closer player
+    maxRange: number; // Closes in on a further one
+    windup: number; // ms drawing or aiming
+    cooldown: number; // ms reloading after a shot
+}
+
+type Behaviour = (e: Enemy, attack: AttackState, to: ToPlayer, ctx: EnemyContext) => void;
+
+// --- Tuning ---
+
+export const GROUP_RANGE = 14;
+export const PROJECTILE_GRAVITY: Record<ProjectileKind, number> = { arrow: 9.8, bolt: 4 };
+export const BLOCK_DAMAGE_SCALE = 0.25; // Damage a knight takes behind his shield
+
+const PEASANT_ATTACK: MeleeAttack = { range: 1.5, reach: 2.0, damage: 5, windup: 250, strike: 150, recover: 200, cooldown: 600 };
+const KNIGHT_ATTACK: MeleeAttack = { range: 1.8, reach: 2.3, damage: 12, windup: 450, strike: 150, recover: 350, cooldown: 800 };
+const HEAVY_ATTACK: MeleeAttack = { range: 2.4, reach: 3.0, damage: 35, windup: 1100, strike: 250, recover: 900, cooldown: 400 };
+const KING_ATTACK: MeleeAttack = { range: 2.2, reach: 2.8, damage: 25, windup: 600, strike: 200, recover: 500, cooldown: 500 };
+// Battering a wall, or whoever stands in front of it
+const RAM_ATTACK: MeleeAttack = { range: 2.5, reach: 3.0, damage: 30, windup: 1500, strike: 300, recover: 800, cooldown: 1200 };
+
+const KNIGHT_CHARGE: ChargeAttack = {
+    minRange: 5, maxRange: 16, speed: 2.8, time: 1500, damage: 20, reach: 2.3, recover: 1000, cooldown: 6000
+};
+const LANCE_CHARGE: ChargeAttack = {
+    minRange: 6, maxRange: 30, speed: 2, time: 2500, damage: 25, reach: 2.5, recover: 1200, cooldown: 1500, overrun: true
+};
+const RAM_CHARGE: ChargeAttack = {
+    minRange: 4, maxRange: 30, speed: 3.5, time: 3000, damage: 40, reach: 3, recover: 1500, cooldown: 3000, overrun: true
+};
+
+const BOW: RangedWeapon = {
+    projectile: 'arrow', damage: 10, speed: 30, spread: 0.04,
+    minRange: 10, maxRange: 30, windup: 900, cooldown: 1800
+};
+const CROSSBOW: RangedWeapon = {
+    projectile: 'bolt', damage: 22, speed: 55, spread: 0.015,
+    minRange: 8, maxRange: 40, windup: 600, cooldown: 3500
+};
+const RELEASE_TIME = 200; // ms the shooting pose is held after a shot
+const RETREAT_SPEED = 0.8;
+
+const FLANK_GROUP = 3; // Peasants only fan out with this many around the player
+const FLANK_ANGLE = 1.1; // Radians off the straight line at full flank
+const FLANK_EASE = 6; // Distance over which the flank closes back to a straight run
+
+const BLOCK_TIME = 600; // ms a raised shield stays up at least
+const BLOCK_SPEED = 0.5;
+
+const KING_HOLD_RANGE = 14; // Commands from this far behind his guard
+const KING_ENRAGED_PHASE = 2; // Boss phase from which he fights in person
+const KING_ENRAGED_SPEED = 1.6;
+
+const STAGGER_TIME = 1000; // ms a thrown rider takes to get up
+
+const VILLAGER_FLEE_RANGE = 15;
+
+// --- Attack State ---
+
+// Peasants alternate flanks in spawn order, so every group splits both ways.
+export const createAttackState = (e: Enemy): AttackState => {
+    const state: AttackState = { phase: 'idle', phaseEndsAt: 0, readyAt: 0 };
+    if (e.type === 'peasant') state.flank = Number(e.id.replace(/\D/g, '')) % 2 === 0 ? -1 : 1;
+    return state;
+};
+
+const enter = (e: Enemy, attack: AttackState, phase: AttackPhase, endsAt: number) => {
+    attack.phase = phase;
+    attack.phaseEndsAt = endsAt;
+    e.isAttacking = phase === 'windup' || phase === 'strike' || phase === 'charge';
+};
+
+// Riders left standing when their mount dies
+export const DISMOUNTS: Partial<Record<EnemyType, EnemyType>> = { cavalry: 'knight' };
+
+// Knocked off balance: no moving or attacking for a moment
+export const stagger = (e: Enemy, time: number) => {
+    e.attack ??= createAttackState(e);
+    enter(e, e.attack, 'recover', time + STAGGER_TIME);
+};
+
+// Damage multiplier for a hit on `e`
+export const damageScale = (e: Enemy): number => e.attack?.phase === 'block' ? BLOCK_DAMAGE_SCALE : 1;
+
+// Runs a melee swing once its target is `dist` away and within range; `land`
+// applies the blow when the windup ends. Returns true while the enemy should
+// stay where it is: swinging, recovering, or waiting out the cooldown.
+const stepMelee = (e: Enemy, attack: AttackState, ctx: EnemyContext, def: MeleeAttack, dist: number, land: () => void): boolean => {
+    switch (attack.phase) {
+        case 'windup':
+            if (ctx.time < attack.phaseEndsAt) return true;
+            land();
+            enter(e, attack, 'strike', ctx.time + def.strike);
+            return true;
+        case 'strike':
+            if (ctx.time < attack.phaseEndsAt) return true;
+            enter(e, attack, 'recover', ctx.time + def.recover);
+            return true;
+        case 'recover':
+            if (ctx.time < attack.phaseEndsAt) return true;
+            attack.readyAt = ctx.time + def.cooldown;
+            enter(e, attack, 'idle', ctx.time);
+            return false;
+        default:
+            if (dist > def.range) return false;
+            if (ctx.time >= attack.readyAt) enter(e, attack, 'windup', ctx.time + def.windup);
+            return true;
+    }
+};
+
+// A melee swing at the player. Backing off during the telegraph dodges it.
+const swingAtPlayer = (e: Enemy, attack: AttackState, to: ToPlayer, ctx: EnemyContext, def: MeleeAttack): boolean =>
+    stepMelee(e, attack, ctx, def, to.dist, () => {
+        if (to.dist <= def.reach) ctx.hitPlayer(def.damage);
+    });
+
+const canCharge = (e: Enemy, attack: AttackState, to: ToPlayer, ctx: EnemyContext, def: ChargeAttack): boolean =>
+    ctx.time >= (attack.chargeReadyAt ?? 0) && to.dist > def.minRange && to.dist < def.maxRange && ctx.canSee(e);
+
+const startCharge = (e: Enemy, attack: AttackState, to: ToPlayer, ctx: EnemyContext, def: ChargeAttack) => {
+    attack.heading = { x: to.x, z: to.z };
+    enter(e, attack, 'charge', ctx.time + def.time);
+};
+
+// Runs along the heading locked when the charge started. Returns true while
+// the charge lasts; it ends in 'recover' however it ends.
+const stepCharge = (e: Enemy, attack: AttackState, to: ToPlayer, ctx: EnemyContext, def: ChargeAttack): boolean => {
+    // An overrunning charge that already hit is in 'strike' until it is past the player
+    if (attack.phase !== 'charge' && !(def.overrun && attack.phase === 'strike')) return false;
+    const heading = attack.heading ?? to;
+    let over = !ctx.move(e, heading.x, heading.z, def.speed) || ctx.time >= attack.phaseEndsAt;
+    if (attack.phase === 'charge' && to.dist <= def.reach) {
+        ctx.hitPlayer(def.damage);
+        if (def.overrun) enter(e, attack, 'strike', attack.phaseEndsAt);
+        else over = true;
+    }
+    // Far enough past the player to wheel round for another pass
+    if (def.overrun && heading.x * to.x + heading.z * to.z < 0 && to.dist > def.minRange) over = true;
+    if (over) {
+        attack.heading = undefined;
+        attack.chargeReadyAt = ctx.time + def.cooldown;
+        enter(e, attack, 'recover', ctx.time + def.recover);
+    }
+    return true;
+};
+
+// --- Behaviours ---
+
+// In numbers, peasants fan out and come at the player from both sides.
+const peasant: Behaviour = (e, attack, to, ctx) => {
+    if (swingAtPlayer(e, attack, to, ctx, PEASANT_ATTACK)) return;
+    if (to.dist < GROUP_RANGE && ctx.nearPlayer('peasant') >= FLANK_GROUP) {
+        const angle = (attack.flank ?? 1) * FLANK_ANGLE * Math.min(1, (to.dist - PEASANT_ATTACK.range) / FLANK_EASE);
+        const cos = Math.cos(angle), sin = Math.sin(angle);
+        if (ctx.move(e, to.x * cos - to.z * sin, to.x * sin + to.z * cos)) return;
+    }
+    ctx.approach(e, to);
+};
+
+// Knights raise their shield while aimed at and charge across open ground.
+const knight: Behaviour = (e, attack, to, ctx) => {
+    if (stepCharge(e, attack, to, ctx, KNIGHT_CHARGE)) return;
+    if (attack.phase === 'block') {
+        if (ctx.time < attack.phaseEndsAt || ctx.isAimedAt(e)) {
+            if (to.dist > KNIGHT_ATTACK.range) ctx.approach(e, to, BLOCK_SPEED);
+            return;
+        }
+        enter(e, attack, 'idle', ctx.time);
+    }
+    if (swingAtPlayer(e, attack, to, ctx, KNIGHT_ATTACK)) return;
+
+    if (canCharge(e, attack, to, ctx, KNIGHT_CHARGE)) {
+        startCharge(e, attack, to, ctx, KNIGHT_CHARGE);
+        return;
+    }
+    if (ctx.isAimedAt(e)) {
+        enter(e, attack, 'block', ctx.time + BLOCK_TIME);
+        return;
+    }
+    ctx.approach(e, to);
+};
+
+// Heavies lumber in and telegraph one slow, crushing swing.
+const heavy: Behaviour = (e, attack, to, ctx) => {
+    if (swingAtPlayer(e, attack, to, ctx, HEAVY_ATTACK)) return;
+    ctx.approach(e, to);
+};
+
+// Mounted knights make pass after pass with the lance, wheeling away between them.
+const cavalry: Behaviour = (e, attack, to, ctx) => {
+    if (stepCharge(e, attack, to, ctx, LANCE_CHARGE)) return;
+    if (attack.phase === 'recover') {
+        if (ctx.time < attack.phaseEndsAt) {
+            ctx.move(e, -to.x, -to.z);
+            return;
+        }
+        enter(e, attack, 'idle', ctx.time);
+    }
+    if (canCharge(e, attack, to, ctx, LANCE_CHARGE)) startCharge(e, attack, to, ctx, LANCE_CHARGE);
+    else if (to.dist < LANCE_CHARGE.minRange) ctx.move(e, -to.x, -to.z);
+    else ctx.approach(e, to);
+};
+
+// The king commands from behind his guard until he is hurt badly enough to
+// fight in person.
+const king: Behaviour = (e, attack, to, ctx) => {
+    if ((e.bossPhase ?? 0) >= KING_ENRAGED_PHASE) {
+        if (swingAtPlayer(e, attack, to, ctx, KING_ATTACK)) return;
+        ctx.approach(e, to, KING_ENRAGED_SPEED);
+        return;
+    }
+    if (to.dist < KING_HOLD_RANGE && ctx.move(e, -to.x, -to.z)) return;
+    if (to.dist > KING_HOLD_RANGE + 6 || !ctx.canSee(e)) ctx.approach(e, to);
+};
+
+// The ram batters down the nearest walls, crushing anyone in front of them.
+// In its last phase the crew gives up on the walls and runs the player down.
+const ram: Behaviour = (e, attack, to, ctx) => {
+    if (e.bossPhase) {
+        if (stepCharge(e, attack, to, ctx, RAM_CHARGE)) return;
+        if (attack.phase === 'recover' && ctx.time < attack.phaseEndsAt) return;
+        // Also drops a swing at a wall left over from the siege
+        if (attack.phase !== 'idle') enter(e, attack, 'idle', ctx.time);
+        if (canCharge(e, attack, to, ctx, RAM_CHARGE)) startCharge(e, attack, to, ctx, RAM_CHARGE);
+        else ctx.approach(e, to);
+        return;
+    }
+
+    const target = ctx.siegeTarget(e);
+    const land = () => {
+        const wall = ctx.siegeTarget(e);
+        if (wall?.inReach) ctx.demolish(wall);
+        if (to.dist <= RAM_ATTACK.reach) ctx.hitPlayer(RAM_ATTACK.damage);
+    };
+    if (stepMelee(e, attack, ctx, RAM_ATTACK, target?.inReach ? 0 : to.dist, land)) return;
+    if (target) {
+        const dx = target.x - e.position.x, dz = target.z - e.position.z;
+        const length = Math.hypot(dx, dz);
+        if (length > 0 && ctx.move(e, dx / length, dz / length)) return;
+    }
+    ctx.approach(e, to);
+};
+
+// Ranged enemies keep their distance and only loose at a player they can see.
+const ranged = (weapon: RangedWeapon): Behaviour => (e, attack, to, ctx) => {
+    if (attack.phase === 'windup') {
+        if (ctx.time < attack.phaseEndsAt) return;
+        // Holds the shot if the player ducked behind cover meanwhile
+        if (!ctx.canSee(e)) {
+            enter(e, attack, 'idle', ctx.time);
+            return;
+        }
+        ctx.shoot(e, weapon);
+        attack.readyAt = ctx.time + weapon.cooldown;
+        enter(e, attack, 'strike', ctx.time + RELEASE_TIME);
+        return;
+    }
+    if (attack.phase === 'strike') {
+        if (ctx.time < attack.phaseEndsAt) return;
+        enter(e, attack, 'idle', ctx.time);
+    }
+
+    // Out of range or sight: walk up, even closer than it would like
+    if (to.dist > weapon.maxRange || !ctx.canSee(e)) {
+        ctx.approach(e, to);
+        return;
+    }
+    if (ctx.time >= attack.readyAt) enter(e, attack, 'windup', ctx.time + weapon.windup);
+    // Falls back while reloading if the player got too close
+    else if (to.dist < weapon.minRange) ctx.move(e, -to.x, -to.z, RETREAT_SPEED);
+};
+
+const villager: Behaviour = (e, _attack, to, ctx) => {
+    if (to.dist < VILLAGER_FLEE_RANGE) ctx.move(e, -to.x, -to.z);
+};
+
+export const BEHAVIOURS: Record<EnemyType, Behaviour> = {
+    peasant,
+    knight,
+    heavy,
+    archer: ranged(BOW),
+    crossbowman: ranged(CROSSBOW),
+    cavalry,
+    villager,
+    king,
+    ram,
+};
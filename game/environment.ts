@@ -0,0 +1,87 @@
+import { Weather } from '../types';
+import { Rng, hashString } from './random';
+
+// --- Time of Day & Weather ---
+// Both are pure functions of (seed, simulation time), so a run replays and
+// resumes with the same skies. The simulation reads them for gameplay; the
+// renderer reads them for light, fog and particles.
+
+export const DAY_LENGTH = 8 * 60 * 1000; // ms of simulation time per full day
+const START_TIME_OF_DAY = 0.3; // Runs begin mid-morning
+const NIGHT_DAYLIGHT = 0.25; // Below this much daylight it counts as night
+
+const WEATHER_PERIOD = 90 * 1000; // Weather is rolled anew every period
+const WEATHER_FADE = 15 * 1000; // ms for weather to build up and clear away
+const DRYING_TIME = 40 * 1000; // ms for the ground to dry once the rain stops
+const WEATHER_WEIGHTS: Record<Weather, number> = { clear: 5, rain: 2, fog: 2, storm: 1 };
+
+// How far a target can be made out, in world units
+const CLEAR_VISIBILITY = 100;
+const NIGHT_VISIBILITY = 35;
+const WEATHER_VISIBILITY: Record<Weather, number> = { clear: CLEAR_VISIBILITY, rain: 70, fog: 30, storm: 50 };
+export const TORCH_LIGHT_RADIUS = 14; // Anything this close to a torch can be seen, whatever the hour
+
+export interface Environment {
+    timeOfDay: number; // 0..1: 0 midnight, 0.25 sunrise, 0.5 noon, 0.75 sunset
+    sunElevation: number; // -1..1, sine of the sun's angle above the horizon
+    daylight: number; // 0 at night, 1 in full day
+    isNight: boolean;
+    weather: Weather;
+    intensity: number; // 0..1 while the weather builds up and clears
+    wetness: number; // 0..1, how wet the ground is
+    visibility: number; // World units
+}
+
+const smoothstep = (e0: number, e1: number, v: number) => {
+    const t = Math.max(0, Math.min(1, (v - e0) / (e1 - e0)));
+    return t * t * (3 - 2 * t);
+};
+
+const isWet = (w: Weather) => w === 'rain' || w === 'storm';
+
+// Weather of one period. Every run opens with a clear sky.
+export const weatherForPeriod = (seed: number, period: number): Weather => {
+    if (period <= 0) return 'clear';
+    const rng = new Rng(hashString(`${seed}:weather:${period}`));
+    const options = Object.keys(WEATHER_WEIGHTS) as Weather[];
+    let roll = rng.next() * options.reduce((sum, w) => sum + WEATHER_WEIGHTS[w], 0);
+    for (const w of options) {
+        roll -= WEATHER_WEIGHTS[w];
+        if (roll <= 0) return w;
+    }
+    return 'clear';
+};
+
+export const getEnvironment = (seed: number, time: number): Environment => {
+    const timeOfDay = (START_TIME_OF_DAY + time / DAY_LENGTH) % 1;
+    const sunElevation = Math.sin((timeOfDay - 0.25) * Math.PI * 2);
+    const daylight = smoothstep(-0.15, 0.25, sunElevation);
+
+    const period = Math.floor(time / WEATHER_PERIOD);
+    const into = time - period * WEATHER_PERIOD;
+    const weather = weatherForPeriod(seed, period);
+    // Fades only where the weather actually changes between periods
+    const previous = weatherForPeriod(seed, period - 1);
+    const fadeIn = previous === weather ? 1 : smoothstep(0, WEATHER_FADE, into);
+    const fadeOut = weatherForPeriod(seed, period + 1) === weather ? 1 : smoothstep(WEATHER_PERIOD, WEATHER_PERIOD - WEATHER_FADE, into);
+    const intensity = weather === 'clear' ? 0 : Math.min(fadeIn, fadeOut);
+
+    // Puddles outlast the rain that made them
+    const leftover = isWet(previous) ? 1 - smoothstep(0, DRYING_TIME, into) : 0;
+    // Stays wet while rain fades out, so drying picks up where it left off
+    const wetness = Math.max(isWet(weather) ? fadeIn : 0, leftover);
+
+    const weatherVisibility = CLEAR_VISIBILITY + (WEATHER_VISIBILITY[weather] - CLEAR_VISIBILITY) * intensity;
+    const lightVisibility = NIGHT_VISIBILITY + (CLEAR_VISIBILITY - NIGHT_VISIBILITY) * daylight;
+
+    return {
+        timeOfDay,
+        sunElevation,
+        daylight,
+        isNight: daylight < NIGHT_DAYLIGHT,
+        weather,
+        intensity,
+        wetness,
+        visibility: Math.min(weatherVisibility, lightVisibility),
+    };
+};
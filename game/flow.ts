@@ -0,0 +1,48 @@
+import { GameState } from '../types';
+
+// --- Game Flow ---
+// Which screen the game is on. The simulation owns what happens inside a run
+// (waves, the shop, death); this machine adds what happens around it (menus,
+// pausing) and decides when the simulation may step.
+
+export type Screen = 'title' | 'playing' | 'intermission' | 'shop' | 'paused' | 'game_over' | 'results';
+
+export type FlowEvent =
+    | { type: 'start'; state: GameState } // A new or continued run
+    | { type: 'sync'; state: GameState } // The simulation's state changed
+    | { type: 'pause' }
+    | { type: 'resume'; state: GameState }
+    | { type: 'show_results' }
+    | { type: 'quit' };
+
+// Screens where the simulation steps
+const RUNNING: Screen[] = ['playing', 'intermission', 'shop'];
+// Screens that can be paused; the shop already stops the action around the table
+const PAUSABLE: Screen[] = ['playing', 'intermission'];
+
+export const isRunning = (screen: Screen) => RUNNING.includes(screen);
+export const isInRun = (screen: Screen) => isRunning(screen) || screen === 'paused';
+
+// The running screen that matches the simulation's state.
+const screenOf = (state: GameState): Screen => {
+    if (!state.isPlaying) return 'game_over';
+    if (state.shopOpen) return 'shop';
+    return state.wavePhase === 'intermission' ? 'intermission' : 'playing';
+};
+
+export const flowReducer = (screen: Screen, event: FlowEvent): Screen => {
+    switch (event.type) {
+        case 'start':
+            return screenOf(event.state);
+        case 'sync':
+            return isRunning(screen) ? screenOf(event.state) : screen;
+        case 'pause':
+            return PAUSABLE.includes(screen) ? 'paused' : screen;
+        case 'resume':
+            return screen === 'paused' ? screenOf(event.state) : screen;
+        case 'show_results':
+            return screen === 'game_over' ? 'results' : screen;
+        case 'quit':
+            return 'title';
+    }
+};
@@ -0,0 +1,65 @@
+import { Vector3 } from '../types';
+
+// --- Type Guards ---
+// Narrowing for JSON read back from storage, which may be stale, corrupted
+// or edited by hand. Nothing parsed is trusted until it passes one of these.
+
+export type JsonRecord = Record<string, unknown>;
+
+export const isRecord = (value: unknown): value is JsonRecord =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+export const isString = (value: unknown): value is string => typeof value === 'string';
+
+export const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
+export const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+
+export const isVector3 = (value: unknown): value is Vector3 =>
+    isRecord(value) && isNumber(value.x) && isNumber(value.y) && isNumber(value.z);
+
+// Whether `value` is one of the keys of `table`, e.g. a known enemy or weapon id.
+export const isKeyOf = <T extends object>(table: T, value: unknown): value is keyof T =>
+    isString(value) && Object.prototype.hasOwnProperty.call(table, value);
+
+// Whether `value` has the same JSON type as `fallback`. A null fallback takes
+// a record too (an optional object such as the boss status).
+const sameKind = (fallback: unknown, value: unknown): boolean => {
+    if (fallback === null) return value === null || isRecord(value);
+    if (Array.isArray(fallback)) return Array.isArray(value);
+    if (typeof fallback === 'number') return isNumber(value);
+    if (typeof fallback === 'object') return isRecord(value);
+    return typeof value === typeof fallback;
+};
+
+// Field by field: the stored value where it has the default's type, the
+// default everywhere else. Shallow; nested records are the caller's to check.
+export const withDefaults = <T extends object>(defaults: T, value: unknown): T => {
+    if (!isRecord(value)) return { ...defaults };
+    const out = { ...defaults } as JsonRecord;
+    for (const key of Object.keys(defaults)) {
+        if (sameKind(out[key], value[key])) out[key] = value[key];
+    }
+    return out as T;
+};
+
+// MIGRATIONS[n] upgrades version n data to version n + 1.
+export type Migration = (data: JsonRecord) => JsonRecord;
+
+// Brings versioned data up to `target`. Null when it has no version, comes
+// from a newer build, or a migration on the way is missing.
+export const migrate = (raw: unknown, target: number, migrations: Record<number, Migration>): JsonRecord | null => {
+    if (!isRecord(raw)) return null;
+    let data = raw;
+    let version = data.version;
+    if (!isNumber(version) || version > target) return null;
+    while (version < target) {
+        const step = migrations[version];
+        if (!step) return null;
+        version++;
+        data = { ...step(data), version };
+    }
+    return data;
+};
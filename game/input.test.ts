@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { InputActions, InputManager, InputSource, applyDeadZone } from './input';
+
+// Reports whatever the test queues, once, then nothing but its held state.
+class FakeSource implements InputSource {
+    held: Partial<InputActions> = {};
+    private queued: Partial<InputActions> = {};
+    disposed = false;
+
+    press(actions: Partial<InputActions>) {
+        this.queued = { ...this.queued, ...actions };
+    }
+
+    poll(): Partial<InputActions> {
+        const out = { ...this.held, ...this.queued };
+        this.queued = {};
+        return out;
+    }
+
+    dispose() {
+        this.disposed = true;
+    }
+}
+
+describe('InputManager', () => {
+    it('reports held actions from a source as they are', () => {
+        const input = new InputManager();
+        const source = new FakeSource();
+        input.add(source);
+        source.held = { moveX: -1, fire: true, lookYaw: 0.1 };
+
+        expect(input.read(1 / 60)).toMatchObject({ moveX: -1, moveY: 0, fire: true, lookYaw: 0.1 });
+        source.held = {};
+        expect(input.read(1 / 60)).toMatchObject({ moveX: 0, fire: false, lookYaw: 0 });
+    });
+
+    it('latches one-shot actions until they are consumed', () => {
+        const input = new InputManager();
+        const source = new FakeSource();
+        input.add(source);
+        source.press({ reload: true, selectWeapon: 2, cycleWeapon: 3 });
+
+        expect(input.read(1 / 60)).toMatchObject({ reload: true, selectWeapon: 2, cycleWeapon: 1 });
+        // Still there on a frame where the simulation did not step
+        expect(input.read(1 / 60)).toMatchObject({ reload: true, selectWeapon: 2, cycleWeapon: 1 });
+        input.consume();
+        expect(input.read(1 / 60)).toMatchObject({ reload: false, selectWeapon: null, cycleWeapon: 0 });
+    });
+
+    it('merges keyboard and gamepad sources without beating full speed', () => {
+        const input = new InputManager();
+        const keyboard = new FakeSource();
+        const gamepad = new FakeSource();
+        input.add(keyboard);
+        input.add(gamepad);
+        keyboard.held = { moveY: -1, lookYaw: 0.02 };
+        gamepad.held = { moveX: 1, lookYaw: 0.03, fire: true };
+
+        const actions = input.read(1 / 60);
+        expect(Math.hypot(actions.moveX, actions.moveY)).toBeCloseTo(1);
+        expect(actions.moveX).toBeCloseTo(Math.SQRT1_2);
+        expect(actions.moveY).toBeCloseTo(-Math.SQRT1_2);
+        expect(actions.lookYaw).toBeCloseTo(0.05);
+        expect(actions.fire).toBe(true);
+
+        // Partial deflection on both stays as it is
+        keyboard.held = {};
+        gamepad.held = { moveX: 0.3, moveY: 0.4 };
+        expect(input.read(1 / 60)).toMatchObject({ moveX: 0.3, moveY: 0.4 });
+    });
+
+    it('stops reading a removed source and disposes it', () => {
+        const input = new InputManager();
+        const source = new FakeSource();
+        const remove = input.add(source);
+        source.held = { fire: true };
+        remove();
+
+        expect(source.disposed).toBe(true);
+        expect(input.read(1 / 60).fire).toBe(false);
+    });
+});
+
+describe('applyDeadZone', () => {
+    it('reads zero inside the dead zone', () => {
+        expect(applyDeadZone(0.1, -0.05, 0.15)).toEqual({ x: 0, y: 0 });
+    });
+
+    it('rescales the remaining travel so there is no jump at the edge', () => {
+        const justOut = applyDeadZone(0.16, 0, 0.15);
+        expect(justOut.x).toBeGreaterThan(0);
+        expect(justOut.x).toBeLessThan(0.02);
+        expect(applyDeadZone(0.575, 0, 0.15).x).toBeCloseTo(0.5);
+    });
+
+    it('keeps the direction and caps at full deflection', () => {
+        const out = applyDeadZone(-1, 1, 0.15);
+        expect(Math.hypot(out.x, out.y)).toBeCloseTo(1);
+        expect(out.x).toBeCloseTo(-out.y);
+    });
+});
@@ -0,0 +1,132 @@
+// --- Input ---
+// Every device is an InputSource reporting the same named actions. The
+// InputManager merges all sources once per frame, so the game reads actions
+// and never devices. Sources are plain objects: a fake one can drive the game
+// headless.
+
+export interface InputActions {
+    moveX: number; // Strafe, -1 (left) to 1 (right)
+    moveY: number; // -1 (forward) to 1 (back), same convention as SimInput
+    lookYaw: number; // Radians to turn by since the last read, positive turns left
+    lookPitch: number; // Radians to tilt by since the last read, positive looks up
+    fire: boolean; // Held
+    reload: boolean; // Pressed since the last consume()
+    interact: boolean;
+    selectWeapon: number | null; // Slot picked since the last consume()
+    cycleWeapon: number; // -1 / 1 to step through slots, 0 otherwise
+}
+
+export type OneShotAction = 'reload' | 'interact';
+
+// Actions that keys can be bound to. Weapon slots stay on the number keys.
+export type KeyAction = 'forward' | 'back' | 'left' | 'right' | OneShotAction;
+export type KeyBindings = Record<KeyAction, string[]>;
+
+// KeyboardEvent.code values, so bindings follow key positions on any layout
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+    forward: ['KeyW', 'ArrowUp'],
+    back: ['KeyS', 'ArrowDown'],
+    left: ['KeyA', 'ArrowLeft'],
+    right: ['KeyD', 'ArrowRight'],
+    reload: ['KeyR'],
+    interact: ['KeyE'],
+};
+
+export const NO_ACTIONS: InputActions = {
+    moveX: 0, moveY: 0, lookYaw: 0, lookPitch: 0, fire: false,
+    reload: false, interact: false, selectWeapon: null, cycleWeapon: 0
+};
+
+export interface InputSource {
+    // What the device did since the last poll. Held actions report their current state.
+    poll(dt: number): Partial<InputActions>;
+    rumble?(strength: number, duration: number): void; // strength 0..1, duration ms
+    dispose?(): void;
+}
+
+type Latched = Pick<InputActions, 'reload' | 'interact' | 'selectWeapon' | 'cycleWeapon'>;
+const NOTHING_LATCHED: Latched = { reload: false, interact: false, selectWeapon: null, cycleWeapon: 0 };
+
+export class InputManager {
+    private sources: InputSource[] = [];
+    // One-shots are held until the simulation has stepped with them
+    private latched: Latched = { ...NOTHING_LATCHED };
+
+    // Returns a function that removes and disposes the source.
+    add(source: InputSource): () => void {
+        this.sources.push(source);
+        return () => {
+            this.sources = this.sources.filter(s => s !== source);
+            source.dispose?.();
+        };
+    }
+
+    read(dt: number): InputActions {
+        let moveX = 0, moveY = 0, lookYaw = 0, lookPitch = 0, fire = false;
+        for (const source of this.sources) {
+            const a = source.poll(dt);
+            moveX += a.moveX ?? 0;
+            moveY += a.moveY ?? 0;
+            lookYaw += a.lookYaw ?? 0;
+            lookPitch += a.lookPitch ?? 0;
+            fire = fire || !!a.fire;
+            if (a.reload) this.latched.reload = true;
+            if (a.interact) this.latched.interact = true;
+            if (a.selectWeapon !== undefined && a.selectWeapon !== null) this.latched.selectWeapon = a.selectWeapon;
+            if (a.cycleWeapon) this.latched.cycleWeapon = Math.sign(a.cycleWeapon);
+        }
+        // Keys and a stick together must not beat full speed
+        const length = Math.hypot(moveX, moveY);
+        if (length > 1) {
+            moveX /= length;
+            moveY /= length;
+        }
+        return { moveX, moveY, lookYaw, lookPitch, fire, ...this.latched };
+    }
+
+    // Call once the one-shots from read() have been acted on.
+    consume() {
+        this.latched = { ...NOTHING_LATCHED };
+    }
+
+    rumble(strength: number, duration: number) {
+        this.sources.forEach(s => s.rumble?.(strength, duration));
+    }
+
+    dispose() {
+        this.sources.forEach(s => s.dispose?.());
+        this.sources = [];
+    }
+}
+
+// --- Analogue Sticks ---
+
+// Radial dead zone: inside it the stick reads zero, outside it the remaining
+// travel is rescaled to 0..1 so there is no jump at the edge.
+export const applyDeadZone = (x: number, y: number, deadZone: number): { x: number; y: number } => {
+    const length = Math.hypot(x, y);
+    if (length <= deadZone) return { x: 0, y: 0 };
+    const scaled = Math.min(1, (length - deadZone) / (1 - deadZone));
+    return { x: (x / length) * scaled, y: (y / length) * scaled };
+};
+
+// Turning speeds up while the stick is held near full deflection, so small
+// corrections stay precise and quick turns are still possible.
+export class AimAcceleration {
+    multiplier = 1;
+
+    constructor(
+        private maxMultiplier = 2.5,
+        private rampTime = 0.6, // Seconds to reach maxMultiplier
+        private threshold = 0.9 // Deflection that counts as "full"
+    ) {}
+
+    update(deflection: number, dt: number): number {
+        if (deflection >= this.threshold) {
+            this.multiplier = Math.min(this.maxMultiplier, this.multiplier + ((this.maxMultiplier - 1) / this.rampTime) * dt);
+        } else {
+            this.multiplier = 1;
+        }
+        return this.multiplier;
+    }
+}
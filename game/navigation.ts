@@ -0,0 +1,210 @@
+import { CHUNK_SIZE, ENEMY_RADIUS } from './config';
+import { ChunkCache } from './chunks';
+import { ObstacleGrid, checkCollision } from './collision';
+
+// --- Navigation ---
+// Walkability is sampled per chunk on a 1-unit grid (fine enough to keep the
+// 3-unit cottage door gaps open). A flow field is then spread from the
+// player's cell so every enemy in range knows which way to walk.
+
+export const NAV_CELL_SIZE = 1;
+const CELLS_PER_CHUNK = CHUNK_SIZE / NAV_CELL_SIZE;
+export const FLOW_RADIUS = 48; // Cells around the target covered by the flow field
+
+const DIAGONAL_COST = Math.SQRT2;
+const NEIGHBOURS = [
+    [1, 0], [-1, 0], [0, 1], [0, -1],
+    [1, 1], [1, -1], [-1, 1], [-1, -1],
+];
+
+// Cells are cleared by half a cell beyond the enemy radius, so walking in a
+// straight line between two free neighbouring centres never clips an obstacle.
+const CLEARANCE = ENEMY_RADIUS + NAV_CELL_SIZE / 2;
+
+export const toCell = (v: number) => Math.floor(v / NAV_CELL_SIZE);
+
+interface NavChunk {
+    blocked: Uint8Array;
+    // Obstacle lists of the 3x3 chunks it was built from: walls may straddle borders
+    sources: unknown[];
+}
+
+export class NavGrid {
+    private chunks = new Map<string, NavChunk>();
+
+    constructor(private world: ChunkCache, private getObstacles: () => ObstacleGrid) {}
+
+    isBlocked(cellX: number, cellZ: number): boolean {
+        const cx = Math.floor(cellX / CELLS_PER_CHUNK);
+        const cz = Math.floor(cellZ / CELLS_PER_CHUNK);
+        // Unloaded ground is unknown: treat it as open and let collision sort it out
+        if (!this.world.isLoaded(cx, cz)) return false;
+        const chunk = this.getChunk(cx, cz);
+        const lx = cellX - cx * CELLS_PER_CHUNK;
+        const lz = cellZ - cz * CELLS_PER_CHUNK;
+        return chunk.blocked[lz * CELLS_PER_CHUNK + lx] === 1;
+    }
+
+    private getChunk(cx: number, cz: number): NavChunk {
+        const key = `${cx}:${cz}`;
+        const sources = this.sourcesAround(cx, cz);
+        const cached = this.chunks.get(key);
+        if (cached && cached.sources.every((s, i) => s === sources[i])) return cached;
+
+        const grid = this.getObstacles();
+        const blocked = new Uint8Array(CELLS_PER_CHUNK * CELLS_PER_CHUNK);
+        for (let lz = 0; lz < CELLS_PER_CHUNK; lz++) {
+            for (let lx = 0; lx < CELLS_PER_CHUNK; lx++) {
+                const x = (cx * CELLS_PER_CHUNK + lx + 0.5) * NAV_CELL_SIZE;
+                const z = (cz * CELLS_PER_CHUNK + lz + 0.5) * NAV_CELL_SIZE;
+                if (checkCollision({ x, z }, grid, CLEARANCE)) blocked[lz * CELLS_PER_CHUNK + lx] = 1;
+            }
+        }
+        const chunk = { blocked, sources };
+        this.chunks.set(key, chunk);
+        return chunk;
+    }
+
+    private sourcesAround(cx: number, cz: number) {
+        const out: unknown[] = [];
+        for (let dz = -1; dz <= 1; dz++) {
+            for (let dx = -1; dx <= 1; dx++) out.push(this.world.getChunk(cx + dx, cz + dz));
+        }
+        return out;
+    }
+
+    // Drops cached chunks that are no longer loaded.
+    prune() {
+        for (const key of Array.from(this.chunks.keys())) {
+            const [cx, cz] = key.split(':').map(Number);
+            if (!this.world.isLoaded(cx, cz)) this.chunks.delete(key);
+        }
+    }
+}
+
+// Binary min-heap of cell indices keyed by distance.
+class CellHeap {
+    private items: number[] = [];
+    constructor(private dist: Float32Array) {}
+
+    get size() { return this.items.length; }
+
+    push(i: number) {
+        const a = this.items;
+        a.push(i);
+        let n = a.length - 1;
+        while (n > 0) {
+            const p = (n - 1) >> 1;
+            if (this.dist[a[p]] <= this.dist[a[n]]) break;
+            [a[p], a[n]] = [a[n], a[p]];
+            n = p;
+        }
+    }
+
+    pop(): number {
+        const a = this.items;
+        const top = a[0];
+        const last = a.pop()!;
+        if (a.length > 0) {
+            a[0] = last;
+            let n = 0;
+            for (;;) {
+                const l = n * 2 + 1, r = l + 1;
+                let m = n;
+                if (l < a.length && this.dist[a[l]] < this.dist[a[m]]) m = l;
+                if (r < a.length && this.dist[a[r]] < this.dist[a[m]]) m = r;
+                if (m === n) break;
+                [a[m], a[n]] = [a[n], a[m]];
+                n = m;
+            }
+        }
+        return top;
+    }
+}
+
+export class FlowField {
+    targetCellX = 0;
+    targetCellZ = 0;
+    private size = FLOW_RADIUS * 2 + 1;
+    private minX = 0;
+    private minZ = 0;
+    private dist = new Float32Array(this.size * this.size).fill(Infinity);
+
+    // Dijkstra from the target cell over the window around it.
+    build(nav: NavGrid, targetX: number, targetZ: number) {
+        const size = this.size;
+        this.targetCellX = toCell(targetX);
+        this.targetCellZ = toCell(targetZ);
+        this.minX = this.targetCellX - FLOW_RADIUS;
+        this.minZ = this.targetCellZ - FLOW_RADIUS;
+        this.dist.fill(Infinity);
+
+        const blocked = new Uint8Array(size * size);
+        for (let z = 0; z < size; z++) {
+            for (let x = 0; x < size; x++) {
+                if (nav.isBlocked(this.minX + x, this.minZ + z)) blocked[z * size + x] = 1;
+            }
+        }
+
+        const start = FLOW_RADIUS * size + FLOW_RADIUS;
+        this.dist[start] = 0;
+        const heap = new CellHeap(this.dist);
+        heap.push(start);
+
+        while (heap.size > 0) {
+            const i = heap.pop();
+            const x = i % size, z = (i - x) / size;
+            const d = this.dist[i];
+            for (const [ox, oz] of NEIGHBOURS) {
+                const nx = x + ox, nz = z + oz;
+                if (nx < 0 || nz < 0 || nx >= size || nz >= size) continue;
+                const n = nz * size + nx;
+                if (blocked[n]) continue;
+                // No corner cutting through wall ends
+                if (ox !== 0 && oz !== 0 && (blocked[z * size + nx] || blocked[nz * size + x])) continue;
+                const nd = d + (ox !== 0 && oz !== 0 ? DIAGONAL_COST : 1);
+                if (nd < this.dist[n]) {
+                    this.dist[n] = nd;
+                    heap.push(n);
+                }
+            }
+        }
+    }
+
+    // Path distance from a world position to the target, Infinity if unreachable or outside the field.
+    distanceAt(x: number, z: number): number {
+        const i = this.index(toCell(x), toCell(z));
+        return i < 0 ? Infinity : this.dist[i];
+    }
+
+    // Unit direction towards the neighbouring cell closest to the target, or
+    // null when the position is outside the field or cut off from the target.
+    directionAt(x: number, z: number): { x: number; z: number } | null {
+        const cellX = toCell(x), cellZ = toCell(z);
+        const i = this.index(cellX, cellZ);
+        if (i < 0) return null;
+
+        // Starts from Infinity when squeezed into a blocked cell: any reachable neighbour wins
+        let best = this.dist[i];
+        let bestX = cellX, bestZ = cellZ;
+        for (const [ox, oz] of NEIGHBOURS) {
+            const n = this.index(cellX + ox, cellZ + oz);
+            if (n < 0 || this.dist[n] >= best) continue;
+            best = this.dist[n];
+            bestX = cellX + ox;
+            bestZ = cellZ + oz;
+        }
+        if (bestX === cellX && bestZ === cellZ) return null;
+
+        const dx = (bestX + 0.5) * NAV_CELL_SIZE - x;
+        const dz = (bestZ + 0.5) * NAV_CELL_SIZE - z;
+        const len = Math.sqrt(dx * dx + dz * dz) || 1;
+        return { x: dx / len, z: dz / len };
+    }
+
+    private index(cellX: number, cellZ: number): number {
+        const x = cellX - this.minX, z = cellZ - this.minZ;
+        if (x < 0 || z < 0 || x >= this.size || z >= this.size) return -1;
+        return z * this.size + x;
+    }
+}
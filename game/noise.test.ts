@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { createSimplex2D, fbm, ridged, warpedFbm, Noise2D } from './noise';
+
+// A fixed, irregular spread of sample points, including negative coordinates
+const SAMPLES: [number, number][] = [];
+for (let i = 0; i < 400; i++) {
+    SAMPLES.push([Math.sin(i * 12.9898) * 300, Math.cos(i * 78.233) * 300]);
+}
+
+const sampleAll = (fn: (x: number, z: number) => number) => SAMPLES.map(([x, z]) => fn(x, z));
+
+const variants: Record<string, (noise: Noise2D) => (x: number, z: number) => number> = {
+    simplex: noise => noise,
+    fbm: noise => (x, z) => fbm(noise, x, z),
+    ridged: noise => (x, z) => ridged(noise, x, z),
+    warpedFbm: noise => (x, z) => warpedFbm(noise, x, z, 0.8),
+};
+
+describe('noise', () => {
+    for (const [name, build] of Object.entries(variants)) {
+        describe(name, () => {
+            it('gives identical output for the same seed', () => {
+                const a = sampleAll(build(createSimplex2D(1234)));
+                const b = sampleAll(build(createSimplex2D(1234)));
+                expect(a).toEqual(b);
+            });
+
+            it('gives different output for different seeds', () => {
+                const a = sampleAll(build(createSimplex2D(1234)));
+                const b = sampleAll(build(createSimplex2D(4321)));
+                const differing = a.filter((v, i) => v !== b[i]).length;
+                expect(differing).toBeGreaterThan(SAMPLES.length * 0.9);
+            });
+        });
+    }
+
+    it('keeps simplex, fbm and warpedFbm within -1..1', () => {
+        const noise = createSimplex2D(99);
+        for (const name of ['simplex', 'fbm', 'warpedFbm']) {
+            for (const v of sampleAll(variants[name](noise))) {
+                expect(v).toBeGreaterThanOrEqual(-1);
+                expect(v).toBeLessThanOrEqual(1);
+            }
+        }
+    });
+
+    it('keeps ridged within 0..1', () => {
+        for (const v of sampleAll(variants.ridged(createSimplex2D(99)))) {
+            expect(v).toBeGreaterThanOrEqual(0);
+            expect(v).toBeLessThanOrEqual(1);
+        }
+    });
+
+    it('is continuous: nearby points give nearby values', () => {
+        const noise = createSimplex2D(7);
+        for (const [x, z] of SAMPLES) {
+            expect(Math.abs(noise(x, z) - noise(x + 0.001, z))).toBeLessThan(0.05);
+        }
+    });
+});
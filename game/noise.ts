@@ -0,0 +1,119 @@
+import { Rng } from './random';
+
+// --- Noise ---
+// Seeded 2D simplex noise and the layered variants the terrain is built from.
+// Every function is pure: the same seed and coordinates always give the same value.
+
+export type Noise2D = (x: number, z: number) => number; // Roughly -1..1
+
+export interface FbmOptions {
+    octaves?: number;
+    lacunarity?: number; // Frequency multiplier per octave
+    gain?: number; // Amplitude multiplier per octave
+}
+
+const F2 = 0.5 * (Math.sqrt(3) - 1);
+const G2 = (3 - Math.sqrt(3)) / 6;
+
+// 12 gradient directions, as in the reference implementation
+const GRADIENTS = [
+    [1, 1], [-1, 1], [1, -1], [-1, -1],
+    [1, 0], [-1, 0], [1, 0], [-1, 0],
+    [0, 1], [0, -1], [0, 1], [0, -1],
+];
+
+export const createSimplex2D = (seed: number): Noise2D => {
+    // Shuffled permutation table, doubled to skip index wrapping
+    const rng = new Rng(seed);
+    const p = new Uint8Array(256);
+    for (let i = 0; i < 256; i++) p[i] = i;
+    for (let i = 255; i > 0; i--) {
+        const j = Math.floor(rng.next() * (i + 1));
+        [p[i], p[j]] = [p[j], p[i]];
+    }
+    const perm = new Uint8Array(512);
+    const permMod12 = new Uint8Array(512);
+    for (let i = 0; i < 512; i++) {
+        perm[i] = p[i & 255];
+        permMod12[i] = perm[i] % 12;
+    }
+
+    const corner = (gi: number, x: number, z: number) => {
+        const t = 0.5 - x * x - z * z;
+        if (t < 0) return 0;
+        const g = GRADIENTS[gi];
+        return t * t * t * t * (g[0] * x + g[1] * z);
+    };
+
+    return (x, z) => {
+        // Skew into the simplex grid to find the containing triangle
+        const s = (x + z) * F2;
+        const i = Math.floor(x + s);
+        const j = Math.floor(z + s);
+        const t = (i + j) * G2;
+        const x0 = x - (i - t);
+        const z0 = z - (j - t);
+        const i1 = x0 > z0 ? 1 : 0;
+        const j1 = 1 - i1;
+        const x1 = x0 - i1 + G2, z1 = z0 - j1 + G2;
+        const x2 = x0 - 1 + 2 * G2, z2 = z0 - 1 + 2 * G2;
+        const ii = i & 255, jj = j & 255;
+
+        const n0 = corner(permMod12[ii + perm[jj]], x0, z0);
+        const n1 = corner(permMod12[ii + i1 + perm[jj + j1]], x1, z1);
+        const n2 = corner(permMod12[ii + 1 + perm[jj + 1]], x2, z2);
+        return 70 * (n0 + n1 + n2);
+    };
+};
+
+// Building the permutation table is cheap but terrain samples are not: keep
+// the generators of the last few seeds around.
+const CACHE_SIZE = 4;
+const cache = new Map<number, Noise2D>();
+
+export const getNoise = (seed: number): Noise2D => {
+    let noise = cache.get(seed);
+    if (!noise) {
+        noise = createSimplex2D(seed);
+        if (cache.size >= CACHE_SIZE) cache.delete(cache.keys().next().value!);
+        cache.set(seed, noise);
+    }
+    return noise;
+};
+
+// Fractal Brownian motion: octaves of noise summed and normalized back to -1..1.
+export const fbm = (noise: Noise2D, x: number, z: number, { octaves = 4, lacunarity = 2, gain = 0.5 }: FbmOptions = {}) => {
+    let sum = 0, amp = 1, freq = 1, norm = 0;
+    for (let o = 0; o < octaves; o++) {
+        // Offset each octave so their lattices do not line up at the origin
+        sum += noise(x * freq + o * 17.3, z * freq - o * 31.7) * amp;
+        norm += amp;
+        amp *= gain;
+        freq *= lacunarity;
+    }
+    return sum / norm;
+};
+
+// Ridged multifractal: sharp crests where the noise crosses zero. Returns 0..1.
+export const ridged = (noise: Noise2D, x: number, z: number, { octaves = 4, lacunarity = 2, gain = 0.5 }: FbmOptions = {}) => {
+    let sum = 0, amp = 1, freq = 1, norm = 0, weight = 1;
+    for (let o = 0; o < octaves; o++) {
+        let n = 1 - Math.abs(noise(x * freq + o * 17.3, z * freq - o * 31.7));
+        n *= n * weight;
+        // Detail only builds up on top of existing ridges
+        weight = Math.min(1, n * 2);
+        sum += n * amp;
+        norm += amp;
+        amp *= gain;
+        freq *= lacunarity;
+    }
+    return sum / norm;
+};
+
+// fBm sampled at coordinates displaced by two more fBm fields, for swirling,
+// less grid-aligned shapes. `strength` is in input units.
+export const warpedFbm = (noise: Noise2D, x: number, z: number, strength = 1, options: FbmOptions = {}) => {
+    const wx = fbm(noise, x + 5.2, z + 1.3, { ...options, octaves: 2 });
+    const wz = fbm(noise, x - 8.3, z + 2.8, { ...options, octaves: 2 });
+    return fbm(noise, x + wx * strength, z + wz * strength, options);
+};
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { Rng, parseSeed } from './random';
+
+describe('parseSeed', () => {
+    it('uses numbers as they are and hashes other text', () => {
+        expect(parseSeed(' 42 ')).toBe(42);
+        expect(parseSeed('Camelot')).toBe(parseSeed('camelot'));
+        expect(parseSeed('   ')).toBeNull();
+    });
+
+    it('wraps numbers past 32 bits', () => {
+        expect(parseSeed(String(2 ** 32 + 5))).toBe(5);
+    });
+
+    it('keeps numbers too long for a double usable', () => {
+        const seed = parseSeed('9'.repeat(400));
+        expect(Number.isInteger(seed)).toBe(true);
+        expect(seed).toBeGreaterThanOrEqual(0);
+        expect(seed).toBeLessThan(2 ** 32);
+        expect(new Rng(seed!).next()).not.toBeNaN();
+    });
+});
@@ -0,0 +1,46 @@
+// --- Seeds & PRNG ---
+// Everything random in a run derives from the world seed, so a seed fully
+// describes a run: the same seed gives the same terrain, spawns and spread.
+
+const SEED_RANGE = 2 ** 32;
+
+// FNV-1a, 32 bit.
+export const hashString = (text: string): number => {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+};
+
+// Numeric input is used as is (modulo 2^32, however long), any other text is hashed. Null for blank input.
+export const parseSeed = (input: string): number | null => {
+    const text = input.trim();
+    if (!text) return null;
+    if (/^\d+$/.test(text)) return Number(BigInt(text) % BigInt(SEED_RANGE));
+    return hashString(text.toLowerCase());
+};
+
+// Same seed for everyone on a given UTC day.
+export const dateKey = (date: Date = new Date()) => date.toISOString().slice(0, 10);
+export const dailySeed = (date: Date = new Date()) => hashString(`daily:${dateKey(date)}`);
+
+export const randomSeed = () => Math.floor(Math.random() * SEED_RANGE);
+
+// Mulberry32. The state is a single uint32 so it can be saved and restored.
+export class Rng {
+    state: number;
+
+    constructor(seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / SEED_RANGE;
+    }
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { rayTerrain } from './raycast';
+import { getTerrainHeight } from './terrain';
+
+const SEED = 42;
+
+describe('rayTerrain', () => {
+    it('finds the ground under a downward ray to within a few centimetres', () => {
+        for (const [x, z] of [[0, 0], [37, -12], [-150, 90]]) {
+            const ground = getTerrainHeight(x, z, SEED);
+            const t = rayTerrain({ x, y: ground + 30, z }, { x: 0, y: -1, z: 0 }, 100, SEED);
+            expect(t).not.toBeNull();
+            expect(Math.abs(30 - t!)).toBeLessThan(0.05);
+        }
+    });
+
+    it('misses when the ground is out of reach', () => {
+        const ground = getTerrainHeight(0, 0, SEED);
+        expect(rayTerrain({ x: 0, y: ground + 30, z: 0 }, { x: 0, y: -1, z: 0 }, 20, SEED)).toBeNull();
+        expect(rayTerrain({ x: 0, y: ground + 30, z: 0 }, { x: 0, y: 1, z: 0 }, 100, SEED)).toBeNull();
+    });
+});
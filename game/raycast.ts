@@ -0,0 +1,177 @@
+import { Obstacle, SurfaceType, Vector3 } from '../types';
+import { ObstacleGrid, collisionRadius, isBoxObstacle } from './collision';
+import { getTerrainHeight } from './terrain';
+
+// --- Ray Queries ---
+// Rays are origin + dir * t with `dir` normalized, so t is a distance in world units.
+
+export interface WorldHit {
+    distance: number;
+    point: Vector3;
+    surface: SurfaceType;
+    obstacleId?: string;
+}
+
+// The heightfield is smooth at this scale, so a coarse march rarely steps
+// over a crossing; bisection then pins it down to a few centimetres.
+const TERRAIN_STEP = 4; // Heightfield march step, in world units
+const TERRAIN_REFINE_ITERATIONS = 8;
+
+const SURFACES: Partial<Record<Obstacle['type'], SurfaceType>> = {
+    wall: 'plaster',
+    tree: 'wood',
+    well: 'stone',
+    shop_table: 'wood',
+    signpost: 'wood',
+    fence: 'wood',
+    palisade: 'wood',
+    furniture: 'wood',
+    torch: 'wood',
+};
+
+export const surfaceOf = (obs: Obstacle): SurfaceType => SURFACES[obs.type] || 'stone';
+
+// Height of cylindrical obstacles above their base, matching their render components.
+export const obstacleHeight = (obs: Obstacle): number => {
+    switch (obs.type) {
+        case 'tree': return 5 * obs.scale.y;
+        case 'well': return 3 * obs.scale.y;
+        case 'shop_table': return 1.2;
+        case 'mountain': return obs.scale.y;
+        case 'rock': return 1.4 * obs.scale.y;
+        case 'signpost': return 2.6;
+        case 'torch': return 2.4;
+        default: return 2 * obs.scale.y;
+    }
+};
+
+const at = (origin: Vector3, dir: Vector3, t: number): Vector3 => ({
+    x: origin.x + dir.x * t,
+    y: origin.y + dir.y * t,
+    z: origin.z + dir.z * t,
+});
+
+// Entry distance of a ray into a sphere, or null.
+export const raySphere = (origin: Vector3, dir: Vector3, center: Vector3, radius: number): number | null => {
+    const ox = center.x - origin.x, oy = center.y - origin.y, oz = center.z - origin.z;
+    const along = ox * dir.x + oy * dir.y + oz * dir.z;
+    const perpSq = ox * ox + oy * oy + oz * oz - along * along;
+    if (perpSq > radius * radius) return null;
+    const t = along - Math.sqrt(radius * radius - perpSq);
+    if (t >= 0) return t;
+    // Origin inside the sphere
+    return along + Math.sqrt(radius * radius - perpSq) >= 0 ? 0 : null;
+};
+
+// Walls are boxes centred on their position, rotated around y.
+export const rayBox = (origin: Vector3, dir: Vector3, obs: Obstacle): number | null => {
+    if (!isBoxObstacle(obs)) return null;
+    const cos = Math.cos(obs.rotation), sin = Math.sin(obs.rotation); // Undoes three.js rotation.y
+    const rx = origin.x - obs.position.x, rz = origin.z - obs.position.z;
+    const o = [rx * cos - rz * sin, origin.y - obs.position.y, rx * sin + rz * cos];
+    const d = [dir.x * cos - dir.z * sin, dir.y, dir.x * sin + dir.z * cos];
+    const half = [obs.dims.w / 2, obs.dims.h / 2, obs.dims.d / 2];
+
+    let tMin = 0, tMax = Infinity;
+    for (let i = 0; i < 3; i++) {
+        if (Math.abs(d[i]) < 1e-9) {
+            if (Math.abs(o[i]) > half[i]) return null;
+            continue;
+        }
+        let t1 = (-half[i] - o[i]) / d[i];
+        let t2 = (half[i] - o[i]) / d[i];
+        if (t1 > t2) [t1, t2] = [t2, t1];
+        tMin = Math.max(tMin, t1);
+        tMax = Math.min(tMax, t2);
+        if (tMin > tMax) return null;
+    }
+    return tMin;
+};
+
+// Vertical cylinder standing on the obstacle's position.
+export const rayCylinder = (origin: Vector3, dir: Vector3, obs: Obstacle): number | null => {
+    const r = collisionRadius(obs);
+    if (r <= 0) return null;
+    const bottom = obs.position.y, top = bottom + obstacleHeight(obs);
+    const ox = origin.x - obs.position.x, oz = origin.z - obs.position.z;
+
+    const inside = (t: number) => {
+        const y = origin.y + dir.y * t;
+        return y >= bottom && y <= top;
+    };
+
+    const a = dir.x * dir.x + dir.z * dir.z;
+    const c = ox * ox + oz * oz - r * r;
+    if (a < 1e-9) {
+        // Vertical ray: hits a cap if it starts within the radius
+        if (c > 0) return null;
+        const t = dir.y > 0 ? bottom - origin.y : origin.y - top;
+        return t >= 0 ? t : inside(0) ? 0 : null;
+    }
+    const b = 2 * (ox * dir.x + oz * dir.z);
+    const disc = b * b - 4 * a * c;
+    if (disc < 0) return null;
+    const sq = Math.sqrt(disc);
+    const t1 = (-b - sq) / (2 * a);
+    const t2 = (-b + sq) / (2 * a);
+    if (t2 < 0) return null;
+    const tEnter = Math.max(0, t1);
+    if (inside(tEnter)) return tEnter;
+    // Enters through a cap
+    if (dir.y !== 0) {
+        for (const capY of [bottom, top]) {
+            const t = (capY - origin.y) / dir.y;
+            if (t >= tEnter && t <= t2) return t;
+        }
+    }
+    return null;
+};
+
+export const rayObstacle = (origin: Vector3, dir: Vector3, obs: Obstacle): number | null =>
+    isBoxObstacle(obs) ? rayBox(origin, dir, obs) : rayCylinder(origin, dir, obs);
+
+// First point where the ray dips under the heightfield, refined by bisection.
+export const rayTerrain = (origin: Vector3, dir: Vector3, maxDistance: number, seed: number): number | null => {
+    const below = (t: number) => {
+        const p = at(origin, dir, t);
+        return p.y < getTerrainHeight(p.x, p.z, seed);
+    };
+    if (below(0)) return 0;
+    let prev = 0;
+    for (let t = TERRAIN_STEP; t <= maxDistance + TERRAIN_STEP; t += TERRAIN_STEP) {
+        const cur = Math.min(t, maxDistance);
+        if (below(cur)) {
+            let lo = prev, hi = cur;
+            for (let i = 0; i < TERRAIN_REFINE_ITERATIONS; i++) {
+                const mid = (lo + hi) / 2;
+                if (below(mid)) hi = mid;
+                else lo = mid;
+            }
+            return hi;
+        }
+        prev = cur;
+        if (cur === maxDistance) break;
+    }
+    return null;
+};
+
+// Closest hit against obstacles and terrain.
+export const raycastWorld = (origin: Vector3, dir: Vector3, maxDistance: number, grid: ObstacleGrid, seed: number): WorldHit | null => {
+    let best: WorldHit | null = null;
+
+    const obstacleHit = grid.queryRay(origin.x, origin.z, dir.x, dir.z, maxDistance, obs => rayObstacle(origin, dir, obs));
+    if (obstacleHit) {
+        best = {
+            distance: obstacleHit.distance,
+            point: at(origin, dir, obstacleHit.distance),
+            surface: surfaceOf(obstacleHit.item),
+            obstacleId: obstacleHit.item.id,
+        };
+    }
+
+    const terrainT = rayTerrain(origin, dir, best ? best.distance : maxDistance, seed);
+    if (terrainT !== null && (!best || terrainT < best.distance)) {
+        best = { distance: terrainT, point: at(origin, dir, terrainT), surface: 'ground' };
+    }
+    return best;
+};
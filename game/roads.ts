@@ -0,0 +1,230 @@
+import { CHUNK_SIZE } from './config';
+import { Rng, hashString } from './random';
+
+// --- Road Network ---
+// Village sites are placed first, one at most per region of REGION_CHUNKS x
+// REGION_CHUNKS chunks. Each region then owns the roads to its east, south
+// and (sometimes) diagonal neighbours, laid as gently curving polylines.
+// Everything derives from (seed, region), so any chunk can be queried alone.
+
+export const REGION_CHUNKS = 4;
+const REGION_SIZE = REGION_CHUNKS * CHUNK_SIZE;
+const VILLAGE_CHANCE = 0.8;
+const DIAGONAL_CHANCE = 0.35;
+const ROAD_SEGMENTS = 24; // Polyline segments per road
+const CURVE = 0.25; // Control point offset, as a fraction of the road length
+const BLEND = 2.5; // World units over which a road fades into the grass
+export const GRADE_BLEND = 10; // World units over which the land eases down (or up) to the road's level
+const REACH = Math.max(BLEND, GRADE_BLEND); // Furthest a road affects anything past its edge
+const CROSSING_VILLAGE_CLEARANCE = 30; // Roads merging into a village are not junctions
+const CACHE_LIMIT = 256;
+
+export interface VillageSite {
+    chunkX: number;
+    chunkZ: number;
+    x: number; // Centre of the village chunk
+    z: number;
+}
+
+export interface RoadSegment {
+    roadId: string;
+    ax: number; az: number; aw: number; // Start point and half width there
+    bx: number; bz: number; bw: number; // End point and half width there
+}
+
+interface Road {
+    id: string;
+    segments: RoadSegment[];
+    minX: number; minZ: number; maxX: number; maxZ: number;
+}
+
+// Small bounded caches: entries are cheap to rebuild, memory should not grow with distance travelled
+const remember = <T>(cache: Map<string, T>, key: string, build: () => T): T => {
+    let value = cache.get(key);
+    if (value === undefined) {
+        value = build();
+        if (cache.size >= CACHE_LIMIT) cache.delete(cache.keys().next().value!);
+        cache.set(key, value);
+    }
+    return value;
+};
+
+const regionRng = (rx: number, rz: number, seed: number, salt: string) =>
+    new Rng(hashString(`${seed}:${rx}:${rz}:${salt}`));
+
+// --- Villages ---
+
+const siteCache = new Map<string, VillageSite | null>();
+
+export const regionOf = (chunk: number) => Math.floor(chunk / REGION_CHUNKS);
+
+export const getVillageSite = (rx: number, rz: number, seed: number): VillageSite | null =>
+    remember(siteCache, `${seed}:${rx}:${rz}`, () => {
+        const rng = regionRng(rx, rz, seed, 'village');
+        if (rng.next() > VILLAGE_CHANCE) return null;
+        // Never on the region's border chunks, so neighbouring villages keep some distance
+        const chunkX = rx * REGION_CHUNKS + 1 + Math.floor(rng.next() * (REGION_CHUNKS - 2));
+        const chunkZ = rz * REGION_CHUNKS + 1 + Math.floor(rng.next() * (REGION_CHUNKS - 2));
+        return { chunkX, chunkZ, x: (chunkX + 0.5) * CHUNK_SIZE, z: (chunkZ + 0.5) * CHUNK_SIZE };
+    });
+
+export const isVillageChunk = (chunkX: number, chunkZ: number, seed: number) => {
+    const site = getVillageSite(regionOf(chunkX), regionOf(chunkZ), seed);
+    return !!site && site.chunkX === chunkX && site.chunkZ === chunkZ;
+};
+
+// Villages within `regions` regions of a world position, nearest first.
+export const villagesNear = (x: number, z: number, seed: number, regions = 2): VillageSite[] => {
+    const rx = Math.floor(x / REGION_SIZE), rz = Math.floor(z / REGION_SIZE);
+    const out: VillageSite[] = [];
+    for (let i = rx - regions; i <= rx + regions; i++) {
+        for (let j = rz - regions; j <= rz + regions; j++) {
+            const site = getVillageSite(i, j, seed);
+            if (site) out.push(site);
+        }
+    }
+    return out.sort((a, b) => Math.hypot(a.x - x, a.z - z) - Math.hypot(b.x - x, b.z - z));
+};
+
+// --- Roads ---
+
+const roadCache = new Map<string, Road[]>();
+
+const layRoad = (id: string, from: VillageSite, to: VillageSite, rng: Rng, baseHalfWidth: number): Road => {
+    const dx = to.x - from.x, dz = to.z - from.z;
+    const len = Math.hypot(dx, dz);
+    const px = -dz / len, pz = dx / len;
+    const o1 = (rng.next() - 0.5) * 2 * CURVE * len;
+    const o2 = (rng.next() - 0.5) * 2 * CURVE * len;
+    const c1x = from.x + dx / 3 + px * o1, c1z = from.z + dz / 3 + pz * o1;
+    const c2x = from.x + dx * 2 / 3 + px * o2, c2z = from.z + dz * 2 / 3 + pz * o2;
+    // Width swells and narrows a little along the way
+    const phase = rng.next() * Math.PI * 2;
+    const waves = 1 + Math.floor(rng.next() * 3);
+
+    const points: { x: number; z: number; w: number }[] = [];
+    for (let i = 0; i <= ROAD_SEGMENTS; i++) {
+        const t = i / ROAD_SEGMENTS, u = 1 - t;
+        // Cubic Bezier through the two offset control points
+        const x = u * u * u * from.x + 3 * u * u * t * c1x + 3 * u * t * t * c2x + t * t * t * to.x;
+        const z = u * u * u * from.z + 3 * u * u * t * c1z + 3 * u * t * t * c2z + t * t * t * to.z;
+        points.push({ x, z, w: baseHalfWidth * (1 + 0.25 * Math.sin(t * Math.PI * 2 * waves + phase)) });
+    }
+
+    const segments: RoadSegment[] = [];
+    let minX = Infinity, minZ = Infinity, maxX = -Infinity, maxZ = -Infinity;
+    for (let i = 0; i < points.length - 1; i++) {
+        const a = points[i], b = points[i + 1];
+        segments.push({ roadId: id, ax: a.x, az: a.z, aw: a.w, bx: b.x, bz: b.z, bw: b.w });
+    }
+    for (const p of points) {
+        const r = p.w + REACH;
+        minX = Math.min(minX, p.x - r); maxX = Math.max(maxX, p.x + r);
+        minZ = Math.min(minZ, p.z - r); maxZ = Math.max(maxZ, p.z + r);
+    }
+    return { id, segments, minX, minZ, maxX, maxZ };
+};
+
+// Roads owned by a region: east and south highways, plus occasional diagonal tracks.
+const getRegionRoads = (rx: number, rz: number, seed: number): Road[] =>
+    remember(roadCache, `${seed}:${rx}:${rz}`, () => {
+        const roads: Road[] = [];
+        const rng = regionRng(rx, rz, seed, 'roads');
+        const here = getVillageSite(rx, rz, seed);
+        const links: [number, number, number, number, number][] = [
+            // [from rx, from rz, to rx, to rz, half width]
+            [rx, rz, rx + 1, rz, 2.5 + rng.next()],
+            [rx, rz, rx, rz + 1, 2.5 + rng.next()],
+        ];
+        if (rng.next() < DIAGONAL_CHANCE) links.push([rx, rz, rx + 1, rz + 1, 1.5 + rng.next() * 0.5]);
+        // The other diagonal of the block below-right, so the two can cross
+        if (rng.next() < DIAGONAL_CHANCE) links.push([rx, rz + 1, rx + 1, rz, 1.5 + rng.next() * 0.5]);
+
+        for (const [fx, fz, tx, tz, width] of links) {
+            const from = fx === rx && fz === rz ? here : getVillageSite(fx, fz, seed);
+            const to = getVillageSite(tx, tz, seed);
+            if (!from || !to) continue;
+            const id = `${fx}:${fz}>${tx}:${tz}`;
+            roads.push(layRoad(id, from, to, regionRng(fx * 31 + tx, fz * 31 + tz, seed, id), width));
+        }
+        return roads;
+    });
+
+// --- Per-Chunk Queries ---
+
+const chunkCache = new Map<string, RoadSegment[]>();
+
+// Road segments that can influence any point of the chunk.
+export const getChunkRoads = (chunkX: number, chunkZ: number, seed: number): RoadSegment[] =>
+    remember(chunkCache, `${seed}:${chunkX}:${chunkZ}`, () => {
+        const minX = chunkX * CHUNK_SIZE, minZ = chunkZ * CHUNK_SIZE;
+        const maxX = minX + CHUNK_SIZE, maxZ = minZ + CHUNK_SIZE;
+        const rx = regionOf(chunkX), rz = regionOf(chunkZ);
+        const out: RoadSegment[] = [];
+        // A road spans its owner's region and the next one east / south; curves
+        // bulge out by less than a region, hence one extra region of slack
+        for (let i = rx - 2; i <= rx + 1; i++) {
+            for (let j = rz - 2; j <= rz + 1; j++) {
+                for (const road of getRegionRoads(i, j, seed)) {
+                    if (road.maxX < minX || road.minX > maxX || road.maxZ < minZ || road.minZ > maxZ) continue;
+                    for (const s of road.segments) {
+                        const r = Math.max(s.aw, s.bw) + REACH;
+                        if (Math.max(s.ax, s.bx) + r < minX || Math.min(s.ax, s.bx) - r > maxX) continue;
+                        if (Math.max(s.az, s.bz) + r < minZ || Math.min(s.az, s.bz) - r > maxZ) continue;
+                        out.push(s);
+                    }
+                }
+            }
+        }
+        return out;
+    });
+
+const smoothstep = (e0: number, e1: number, v: number) => {
+    const t = Math.max(0, Math.min(1, (v - e0) / (e1 - e0)));
+    return t * t * (3 - 2 * t);
+};
+
+// 1 on the road surface, easing to 0 over `blend` units past its edge.
+export const roadInfluenceAt = (x: number, z: number, seed: number, blend = BLEND) => {
+    const segments = getChunkRoads(Math.floor(x / CHUNK_SIZE), Math.floor(z / CHUNK_SIZE), seed);
+    let best = 0;
+    for (const s of segments) {
+        const sx = s.bx - s.ax, sz = s.bz - s.az;
+        const lenSq = sx * sx + sz * sz;
+        const t = lenSq > 0 ? Math.max(0, Math.min(1, ((x - s.ax) * sx + (z - s.az) * sz) / lenSq)) : 0;
+        const d = Math.hypot(x - (s.ax + sx * t), z - (s.az + sz * t));
+        const halfWidth = s.aw + (s.bw - s.aw) * t;
+        const influence = 1 - smoothstep(halfWidth, halfWidth + blend, d);
+        if (influence > best) {
+            best = influence;
+            if (best === 1) break;
+        }
+    }
+    return best;
+};
+
+// Points inside the chunk where two different roads cross, away from villages.
+export const getChunkJunctions = (chunkX: number, chunkZ: number, seed: number): { x: number; z: number }[] => {
+    const minX = chunkX * CHUNK_SIZE, minZ = chunkZ * CHUNK_SIZE;
+    const segments = getChunkRoads(chunkX, chunkZ, seed);
+    const villages = villagesNear(minX, minZ, seed, 1);
+    const out: { x: number; z: number }[] = [];
+    for (let i = 0; i < segments.length; i++) {
+        for (let j = i + 1; j < segments.length; j++) {
+            const a = segments[i], b = segments[j];
+            if (a.roadId === b.roadId) continue;
+            const rx = a.bx - a.ax, rz = a.bz - a.az;
+            const sx = b.bx - b.ax, sz = b.bz - b.az;
+            const denom = rx * sz - rz * sx;
+            if (Math.abs(denom) < 1e-9) continue;
+            const t = ((b.ax - a.ax) * sz - (b.az - a.az) * sx) / denom;
+            const u = ((b.ax - a.ax) * rz - (b.az - a.az) * rx) / denom;
+            if (t < 0 || t > 1 || u < 0 || u > 1) continue;
+            const x = a.ax + rx * t, z = a.az + rz * t;
+            if (x < minX || x >= minX + CHUNK_SIZE || z < minZ || z >= minZ + CHUNK_SIZE) continue;
+            if (villages.some(v => Math.hypot(v.x - x, v.z - z) < CROSSING_VILLAGE_CLEARANCE)) continue;
+            out.push({ x, z });
+        }
+    }
+    return out;
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { createProfile, migrateProfile, migrateSave } from './save';
+import { GameSimulation, createInitialGameState } from './simulation';
+
+const freshSave = () => {
+    const sim = new GameSimulation(42);
+    sim.spawnEnemy('knight');
+    // Through JSON, as it comes back from storage
+    return JSON.parse(JSON.stringify(sim.toSave()));
+};
+
+describe('migrateSave', () => {
+    it('reads back a save as it was written', () => {
+        const save = freshSave();
+        expect(migrateSave(save, createInitialGameState())).toEqual(save);
+    });
+
+    it('upgrades a v1 save with a PRNG seeded from the world seed', () => {
+        const { rngState: _, ...v1 } = { ...freshSave(), version: 1 };
+        expect(migrateSave(v1, createInitialGameState())?.rngState).toBe(42);
+    });
+
+    it('drops chunk diffs from v2 saves, whose chunks were generated differently', () => {
+        const v2 = { ...freshSave(), version: 2, chunkDiffs: { '0:0': { removed: ['0:0:tree-0'] } } };
+        expect(migrateSave(v2, createInitialGameState())?.chunkDiffs).toEqual({});
+    });
+
+    it('rejects saves that are malformed or from a newer build', () => {
+        const defaults = createInitialGameState();
+        expect(migrateSave('nonsense', defaults)).toBeNull();
+        expect(migrateSave({ ...freshSave(), version: 99 }, defaults)).toBeNull();
+        expect(migrateSave({ ...freshSave(), seed: 'forty-two' }, defaults)).toBeNull();
+        expect(migrateSave({ ...freshSave(), player: { position: { x: 0 } } }, defaults)).toBeNull();
+        expect(migrateSave({ ...freshSave(), waves: { wave: 1, phase: 'sometimes' } }, defaults)).toBeNull();
+    });
+
+    it('defaults bad state fields one by one and drops unreadable enemies', () => {
+        const save = freshSave();
+        save.state = { ...save.state, gold: 'lots', health: 55, weapons: [{ id: 'trebuchet', ammo: 1, reserve: 1 }], boss: { type: 'dragon' } };
+        save.enemies.push({ id: 'e99', type: 'goblin', position: { x: 0, y: 0, z: 0 }, hp: 1, maxHp: 1, speed: 1 });
+        save.enemies[0].attack = { phase: 'dancing' };
+
+        const defaults = createInitialGameState();
+        const loaded = migrateSave(save, defaults)!;
+
+        expect(loaded.state.gold).toBe(defaults.gold);
+        expect(loaded.state.health).toBe(55);
+        expect(loaded.state.weapons).toEqual(defaults.weapons);
+        expect(loaded.state.boss).toBeNull();
+        expect(loaded.enemies.map(e => e.type)).toEqual(['knight']);
+        expect(loaded.enemies[0].attack).toBeUndefined();
+    });
+});
+
+describe('migrateProfile', () => {
+    it('keeps valid fields and defaults the rest', () => {
+        const profile = migrateProfile({ version: 1, lifetimeGold: 1200, bestWave: 'high', unlocks: ['war_chest', 7] });
+        expect(profile).toEqual({ ...createProfile(), lifetimeGold: 1200, unlocks: [] });
+    });
+
+    it('starts over from a profile it cannot read', () => {
+        expect(migrateProfile(null)).toEqual(createProfile());
+        expect(migrateProfile({ version: 2 })).toEqual(createProfile());
+    });
+});
@@ -0,0 +1,214 @@
+import { AttackPhase, AttackState, BossStatus, Enemy, EnemyType, GameState, WeaponSlot } from '../types';
+import { ChunkDiff } from './chunks';
+import { BOSS_CONFIG, ENEMY_CONFIG } from './config';
+import {
+    Migration, isBoolean, isKeyOf, isNumber, isRecord, isString, isStringArray, isVector3, migrate, withDefaults
+} from './guards';
+import { WaveDirectorSnapshot } from './waves';
+import { WEAPONS } from './weapons';
+
+// --- Save Format ---
+// A run is saved as plain JSON. Bump SAVE_VERSION whenever the shape changes
+// and add a migration from the previous version; fields that were simply added
+// to GameState are filled from the defaults on load and need no migration.
+
+export const SAVE_VERSION = 3;
+
+export interface SaveGame {
+    version: number;
+    savedAt: number; // Date.now() when written
+    seed: number;
+    time: number; // Simulation clock, ms
+    state: GameState;
+    player: { position: { x: number; y: number; z: number }; yaw: number; pitch: number };
+    enemies: Enemy[];
+    nextEnemyId: number;
+    killStreak: number;
+    killsByType: Partial<Record<EnemyType, number>>;
+    waves: WaveDirectorSnapshot;
+    reloadRemaining: number; // ms left on a reload in progress
+    rngState: number; // Spawn / spread PRNG position, see Rng
+    chunkDiffs: Record<string, ChunkDiff>;
+}
+
+const MIGRATIONS: Record<number, Migration> = {
+    // v1 runs drew from Math.random: continue them from a freshly seeded PRNG
+    1: save => ({ ...save, rngState: isNumber(save.seed) ? save.seed >>> 0 : 0 }),
+    // v2 chunks were laid out by another generator: removed obstacle ids no longer match
+    2: save => ({ ...save, chunkDiffs: {} }),
+};
+
+const ATTACK_PHASES: AttackPhase[] = ['idle', 'windup', 'strike', 'recover', 'block', 'charge'];
+
+const isAttackPhase = (value: unknown): value is AttackPhase => isString(value) && (ATTACK_PHASES as string[]).includes(value);
+
+const isWaveSnapshot = (value: unknown): value is WaveDirectorSnapshot =>
+    isRecord(value) && isNumber(value.wave) && (value.phase === 'intermission' || value.phase === 'active')
+    && isNumber(value.remainingBudget) && isNumber(value.phaseStart) && isNumber(value.lastSpawn)
+    && (value.night === undefined || isBoolean(value.night));
+
+// An attack in an unknown state is dropped: the simulation starts a fresh one.
+const readAttack = (value: unknown): AttackState | undefined => {
+    if (!isRecord(value) || !isAttackPhase(value.phase) || !isNumber(value.phaseEndsAt) || !isNumber(value.readyAt)) return undefined;
+    const attack: AttackState = { phase: value.phase, phaseEndsAt: value.phaseEndsAt, readyAt: value.readyAt };
+    if (isNumber(value.chargeReadyAt)) attack.chargeReadyAt = value.chargeReadyAt;
+    if (isRecord(value.heading) && isNumber(value.heading.x) && isNumber(value.heading.z)) attack.heading = { x: value.heading.x, z: value.heading.z };
+    if (isNumber(value.flank)) attack.flank = value.flank;
+    return attack;
+};
+
+const readEnemy = (value: unknown): Enemy | null => {
+    if (!isRecord(value) || !isString(value.id) || !isKeyOf(ENEMY_CONFIG, value.type) || !isVector3(value.position)
+        || !isNumber(value.hp) || !isNumber(value.maxHp) || !isNumber(value.speed)) return null;
+    const enemy: Enemy = {
+        id: value.id, type: value.type, position: { ...value.position },
+        hp: value.hp, maxHp: value.maxHp, speed: value.speed, isAttacking: value.isAttacking === true,
+    };
+    const attack = readAttack(value.attack);
+    if (attack) enemy.attack = attack;
+    if (isNumber(value.bossPhase)) enemy.bossPhase = value.bossPhase;
+    if (value.isDead === true) enemy.isDead = true;
+    if (isNumber(value.deadTime)) enemy.deadTime = value.deadTime;
+    if (isVector3(value.velocity)) enemy.velocity = { ...value.velocity };
+    if (value.fromBudget === true) enemy.fromBudget = true;
+    return enemy;
+};
+
+const isWeaponSlot = (value: unknown): value is WeaponSlot =>
+    isRecord(value) && isKeyOf(WEAPONS, value.id) && isNumber(value.ammo) && isNumber(value.reserve);
+
+const isBossStatus = (value: unknown): value is BossStatus =>
+    isRecord(value) && isKeyOf(BOSS_CONFIG, value.type) && isNumber(value.hp) && isNumber(value.maxHp) && isNumber(value.phase);
+
+// Saved fields of the wrong type fall back to the defaults one by one.
+const readState = (value: unknown, defaults: GameState): GameState => {
+    let state = withDefaults(defaults, value);
+    if (state.boss !== null && !isBossStatus(state.boss)) state = { ...state, boss: null };
+    const purchases = Object.entries(state.purchases).filter(([, count]) => isNumber(count));
+    state = { ...state, purchases: Object.fromEntries(purchases) };
+    if (state.weapons.length === 0 || !state.weapons.every(isWeaponSlot)) {
+        return { ...state, weapons: defaults.weapons, activeWeapon: defaults.activeWeapon };
+    }
+    if (!Number.isInteger(state.activeWeapon) || state.activeWeapon < 0 || state.activeWeapon >= state.weapons.length) {
+        return { ...state, activeWeapon: 0 };
+    }
+    return state;
+};
+
+const readKills = (value: unknown): Partial<Record<EnemyType, number>> => {
+    const kills: Partial<Record<EnemyType, number>> = {};
+    if (!isRecord(value)) return kills;
+    for (const [type, count] of Object.entries(value)) {
+        if (isKeyOf(ENEMY_CONFIG, type) && isNumber(count)) kills[type] = count;
+    }
+    return kills;
+};
+
+const readChunkDiffs = (value: unknown): Record<string, ChunkDiff> => {
+    const diffs: Record<string, ChunkDiff> = {};
+    if (!isRecord(value)) return diffs;
+    for (const [key, diff] of Object.entries(value)) {
+        if (isRecord(diff) && isStringArray(diff.removed)) diffs[key] = { removed: [...diff.removed] };
+    }
+    return diffs;
+};
+
+// Brings a parsed save up to SAVE_VERSION. Returns null for saves that are
+// malformed or written by a newer build.
+export const migrateSave = (raw: unknown, defaults: GameState): SaveGame | null => {
+    const save = migrate(raw, SAVE_VERSION, MIGRATIONS);
+    if (!save) return null;
+    const { seed, savedAt, time, player, enemies, nextEnemyId, killStreak, waves, reloadRemaining, rngState } = save;
+    if (!isNumber(seed) || !isNumber(savedAt) || !isNumber(time) || !isRecord(save.state) || !Array.isArray(enemies)
+        || !isNumber(nextEnemyId) || !isNumber(killStreak) || !isWaveSnapshot(waves)
+        || !isNumber(reloadRemaining) || !isNumber(rngState)) return null;
+    if (!isRecord(player) || !isVector3(player.position) || !isNumber(player.yaw) || !isNumber(player.pitch)) return null;
+    return {
+        version: SAVE_VERSION,
+        savedAt, seed, time,
+        state: readState(save.state, defaults),
+        player: { position: { ...player.position }, yaw: player.yaw, pitch: player.pitch },
+        enemies: enemies.map(readEnemy).filter((e): e is Enemy => e !== null),
+        nextEnemyId, killStreak,
+        killsByType: readKills(save.killsByType),
+        waves: { ...waves },
+        reloadRemaining, rngState,
+        chunkDiffs: readChunkDiffs(save.chunkDiffs),
+    };
+};
+
+// --- Meta Progression ---
+// Survives between runs. Unlocks are earned from lifetime totals and give
+// small head starts to new runs.
+
+export const PROFILE_VERSION = 1;
+
+export interface Profile {
+    version: number;
+    lifetimeGold: number;
+    bestWave: number;
+    bestScore: number;
+    runs: number;
+    unlocks: string[];
+}
+
+export interface Unlock {
+    id: string;
+    name: string;
+    description: string;
+    isEarned: (p: Profile) => boolean;
+    apply: (g: GameState) => GameState;
+}
+
+export const UNLOCKS: Unlock[] = [
+    {
+        id: 'war_chest',
+        name: 'WAR CHEST',
+        description: 'Start each run with 100 gold',
+        isEarned: p => p.lifetimeGold >= 1000,
+        apply: g => ({ ...g, gold: g.gold + 100 }),
+    },
+    {
+        id: 'veteran',
+        name: 'VETERAN',
+        description: 'Start each run with full ammo reserves',
+        isEarned: p => p.bestWave >= 5,
+        apply: g => ({ ...g, weapons: g.weapons.map(w => ({ ...w, reserve: WEAPONS[w.id].maxReserve })) }),
+    },
+    {
+        id: 'quartermaster',
+        name: 'QUARTERMASTER',
+        description: 'Start each run with the first damage upgrade',
+        isEarned: p => p.lifetimeGold >= 5000,
+        apply: g => ({ ...g, damageMultiplier: g.damageMultiplier + 0.25, purchases: { ...g.purchases, damage_1: 1 } }),
+    },
+];
+
+export const createProfile = (): Profile => ({
+    version: PROFILE_VERSION, lifetimeGold: 0, bestWave: 0, bestScore: 0, runs: 0, unlocks: []
+});
+
+const PROFILE_MIGRATIONS: Record<number, Migration> = {};
+
+export const migrateProfile = (raw: unknown): Profile => {
+    const profile = migrate(raw, PROFILE_VERSION, PROFILE_MIGRATIONS);
+    if (!profile) return createProfile();
+    const out = withDefaults(createProfile(), profile);
+    return { ...out, version: PROFILE_VERSION, unlocks: isStringArray(profile.unlocks) ? [...profile.unlocks] : [] };
+};
+
+// Folds a finished run into the profile and grants any newly earned unlocks.
+export const recordRun = (profile: Profile, run: GameState): Profile => {
+    const next: Profile = {
+        ...profile,
+        lifetimeGold: profile.lifetimeGold + run.goldEarned,
+        bestWave: Math.max(profile.bestWave, run.wave),
+        bestScore: Math.max(profile.bestScore, run.score),
+        runs: profile.runs + 1,
+    };
+    const earned = UNLOCKS.filter(u => !next.unlocks.includes(u.id) && u.isEarned(next)).map(u => u.id);
+    return earned.length > 0 ? { ...next, unlocks: [...next.unlocks, ...earned] } : next;
+};
+
+export const applyUnlocks = (g: GameState, profile: Profile): GameState =>
+    UNLOCKS.reduce((state, u) => profile.unlocks.includes(u.id) ? u.apply(state) : state, g);
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_KEY_BINDINGS } from './input';
+import { createSettings, migrateSettings } from './settings';
+
+describe('migrateSettings', () => {
+    it('reads back settings as they were written', () => {
+        const settings = createSettings();
+        settings.controls.bindings = { ...settings.controls.bindings, forward: ['KeyI'] };
+        settings.graphics.fov = 90;
+        expect(migrateSettings(JSON.parse(JSON.stringify(settings)))).toEqual(settings);
+    });
+
+    it('defaults bad fields one by one and keeps the rest', () => {
+        const defaults = createSettings();
+        const settings = migrateSettings({
+            version: 1,
+            controls: { bindings: { forward: 'KeyI', back: ['KeyK'], reload: [1] }, mouseSensitivity: 50, invertY: 'yes' },
+            audio: { masterVolume: 0.5, weatherVolume: -2 },
+            graphics: { fov: 'wide', shadowQuality: 'ultra' },
+            touch: { leftHanded: true, buttonScale: null },
+        });
+
+        expect(settings.controls.bindings).toEqual({ ...DEFAULT_KEY_BINDINGS, back: ['KeyK'] });
+        expect(settings.controls.mouseSensitivity).toBe(3);
+        expect(settings.controls.invertY).toBe(false);
+        expect(settings.audio).toEqual({ masterVolume: 0.5, weatherVolume: 0 });
+        expect(settings.graphics).toEqual(defaults.graphics);
+        expect(settings.accessibility).toEqual(defaults.accessibility);
+        expect(settings.touch).toEqual({ ...defaults.touch, leftHanded: true });
+    });
+
+    it('falls back to the defaults for unreadable or newer settings', () => {
+        expect(migrateSettings('nonsense')).toEqual(createSettings());
+        expect(migrateSettings({ version: 99, graphics: { fov: 90 } })).toEqual(createSettings());
+    });
+});
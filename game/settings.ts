@@ -0,0 +1,120 @@
+import { TouchSettings } from '../types';
+import { Migration, isKeyOf, isRecord, isStringArray, migrate, withDefaults } from './guards';
+import { DEFAULT_KEY_BINDINGS, KeyAction, KeyBindings } from './input';
+
+// --- Settings ---
+// Player preferences, kept apart from saves and the profile so resetting
+// progress never resets controls. Bump SETTINGS_VERSION and add a migration
+// when a field changes meaning; new fields are filled from the defaults.
+
+export const SETTINGS_VERSION = 1;
+
+export type ShadowQuality = 'off' | 'low' | 'medium' | 'high';
+
+// Shadow map size per quality, 0 for no shadows
+export const SHADOW_MAP_SIZES: Record<ShadowQuality, number> = { off: 0, low: 1024, medium: 2048, high: 4096 };
+
+export interface ControlSettings {
+    bindings: KeyBindings;
+    mouseSensitivity: number; // Multiplier
+    gamepadSensitivity: number; // Multiplier
+    invertY: boolean;
+}
+
+export interface AudioSettings {
+    masterVolume: number; // 0..1
+    weatherVolume: number; // 0..1, rain and thunder, relative to the master
+}
+
+export interface GraphicsSettings {
+    fov: number; // Vertical, degrees
+    shadowQuality: ShadowQuality;
+}
+
+export interface AccessibilitySettings {
+    screenShake: boolean;
+    headBob: boolean;
+    reduceFlashing: boolean; // No lightning flashes
+}
+
+export interface Settings {
+    version: number;
+    controls: ControlSettings;
+    audio: AudioSettings;
+    graphics: GraphicsSettings;
+    accessibility: AccessibilitySettings;
+    touch: TouchSettings;
+}
+
+export const FOV_RANGE = { min: 50, max: 110 };
+export const SENSITIVITY_RANGE = { min: 0.2, max: 3 };
+export const VOLUME_RANGE = { min: 0, max: 1 };
+export const TOUCH_LOOK_RANGE = { min: 0.25, max: 3 };
+export const BUTTON_SCALE_RANGE = { min: 0.75, max: 1.5 };
+
+export const createSettings = (): Settings => ({
+    version: SETTINGS_VERSION,
+    controls: { bindings: DEFAULT_KEY_BINDINGS, mouseSensitivity: 1, gamepadSensitivity: 1, invertY: false },
+    audio: { masterVolume: 0.3, weatherVolume: 1 },
+    graphics: { fov: 70, shadowQuality: 'medium' },
+    accessibility: { screenShake: true, headBob: true, reduceFlashing: false },
+    touch: { leftHanded: false, lookSensitivity: 1, buttonScale: 1 },
+});
+
+const SETTINGS_MIGRATIONS: Record<number, Migration> = {};
+
+const clamp = (value: number, { min, max }: { min: number; max: number }) => Math.min(max, Math.max(min, value));
+
+const readBindings = (value: unknown): KeyBindings => {
+    const bindings = { ...DEFAULT_KEY_BINDINGS };
+    if (!isRecord(value)) return bindings;
+    (Object.keys(bindings) as KeyAction[]).forEach(action => {
+        const codes = value[action];
+        if (isStringArray(codes)) bindings[action] = [...codes];
+    });
+    return bindings;
+};
+
+// Each field is checked on its own: one that is missing, of the wrong type or
+// out of range takes its default and the rest are kept. Unknown or newer
+// settings fall back to the defaults entirely.
+export const migrateSettings = (raw: unknown): Settings => {
+    const settings = migrate(raw, SETTINGS_VERSION, SETTINGS_MIGRATIONS);
+    const defaults = createSettings();
+    if (!settings) return defaults;
+
+    const controls = withDefaults(defaults.controls, settings.controls);
+    const audio = withDefaults(defaults.audio, settings.audio);
+    const graphics = withDefaults(defaults.graphics, settings.graphics);
+    const touch = withDefaults(defaults.touch, settings.touch);
+    return {
+        version: SETTINGS_VERSION,
+        controls: {
+            ...controls,
+            bindings: readBindings(isRecord(settings.controls) ? settings.controls.bindings : null),
+            mouseSensitivity: clamp(controls.mouseSensitivity, SENSITIVITY_RANGE),
+            gamepadSensitivity: clamp(controls.gamepadSensitivity, SENSITIVITY_RANGE),
+        },
+        audio: { masterVolume: clamp(audio.masterVolume, VOLUME_RANGE), weatherVolume: clamp(audio.weatherVolume, VOLUME_RANGE) },
+        graphics: {
+            fov: clamp(graphics.fov, FOV_RANGE),
+            shadowQuality: isKeyOf(SHADOW_MAP_SIZES, graphics.shadowQuality) ? graphics.shadowQuality : defaults.graphics.shadowQuality,
+        },
+        accessibility: withDefaults(defaults.accessibility, settings.accessibility),
+        touch: {
+            ...touch,
+            lookSensitivity: clamp(touch.lookSensitivity, TOUCH_LOOK_RANGE),
+            buttonScale: clamp(touch.buttonScale, BUTTON_SCALE_RANGE),
+        },
+    };
+};
+
+// Binds `code` to `action` in `slot`, taking it away from any action that had it.
+export const rebind = (bindings: KeyBindings, action: KeyAction, slot: number, code: string): KeyBindings => {
+    const next = {} as KeyBindings;
+    (Object.keys(bindings) as KeyAction[]).forEach(a => { next[a] = bindings[a].filter(c => c !== code); });
+    const keys = [...next[action]];
+    keys.splice(Math.min(slot, keys.length), 1, code);
+    next[action] = keys;
+    return next;
+};
@@ -0,0 +1,110 @@
+import { GameState, WeaponId } from '../types';
+import { WEAPONS } from './weapons';
+
+// --- Shop Catalogue ---
+// Every shop table sells the same catalogue. Stock is per run, upgrade tiers
+// unlock through prerequisites.
+
+export type ShopCategory = 'supplies' | 'upgrades';
+
+export interface ShopItem {
+    id: string;
+    name: string;
+    description: string;
+    category: ShopCategory;
+    price: number;
+    stock: number | null; // Purchases allowed per run, null for unlimited
+    prerequisites: string[]; // Item ids that must have been bought first
+    // Whether buying would do anything right now (e.g. no healing at full health)
+    isUseful: (g: GameState) => boolean;
+    effect: (g: GameState) => GameState;
+}
+
+export type ShopItemStatus = 'available' | 'too_expensive' | 'locked' | 'sold_out' | 'not_needed';
+
+const refillAmmo = (id: WeaponId, price: number): ShopItem => ({
+    id: `ammo_${id}`,
+    name: `${WEAPONS[id].name} AMMO`,
+    description: `Refills the ${WEAPONS[id].name} reserve`,
+    category: 'supplies',
+    price,
+    stock: null,
+    prerequisites: [],
+    isUseful: g => g.weapons.some(w => w.id === id && w.reserve < WEAPONS[id].maxReserve),
+    effect: g => ({ ...g, weapons: g.weapons.map(w => w.id === id ? { ...w, reserve: WEAPONS[id].maxReserve } : w) }),
+});
+
+const damageTier = (tier: number, price: number, bonus: number): ShopItem => ({
+    id: `damage_${tier}`,
+    name: `DAMAGE UPGRADE ${tier}`,
+    description: `+${Math.round(bonus * 100)}% damage for every weapon`,
+    category: 'upgrades',
+    price,
+    stock: 1,
+    prerequisites: tier > 1 ? [`damage_${tier - 1}`] : [],
+    isUseful: () => true,
+    effect: g => ({ ...g, damageMultiplier: g.damageMultiplier + bonus }),
+});
+
+const reloadTier = (tier: number, price: number, factor: number): ShopItem => ({
+    id: `reload_${tier}`,
+    name: `FAST HANDS ${tier}`,
+    description: `Reloads ${Math.round((1 - factor) * 100)}% faster`,
+    category: 'upgrades',
+    price,
+    stock: 1,
+    prerequisites: tier > 1 ? [`reload_${tier - 1}`] : [],
+    isUseful: () => true,
+    effect: g => ({ ...g, reloadMultiplier: g.reloadMultiplier * factor }),
+});
+
+export const SHOP_CATALOGUE: ShopItem[] = [
+    refillAmmo('pistol', 30),
+    refillAmmo('shotgun', 50),
+    refillAmmo('ak47', 60),
+    {
+        id: 'bandage',
+        name: 'BANDAGE',
+        description: 'Restores 30 health',
+        category: 'supplies',
+        price: 40,
+        stock: null,
+        prerequisites: [],
+        isUseful: g => g.health < 100,
+        effect: g => ({ ...g, health: Math.min(100, g.health + 30) }),
+    },
+    {
+        id: 'potion',
+        name: 'HEALTH POTION',
+        description: 'Restores full health',
+        category: 'supplies',
+        price: 100,
+        stock: null,
+        prerequisites: [],
+        isUseful: g => g.health < 100,
+        effect: g => ({ ...g, health: 100 }),
+    },
+    damageTier(1, 250, 0.25),
+    damageTier(2, 500, 0.5),
+    damageTier(3, 1000, 0.75),
+    reloadTier(1, 200, 0.8),
+    reloadTier(2, 450, 0.75),
+];
+
+export const getShopItem = (id: string): ShopItem | undefined => SHOP_CATALOGUE.find(i => i.id === id);
+
+export const shopItemStatus = (item: ShopItem, g: GameState): ShopItemStatus => {
+    const bought = g.purchases[item.id] || 0;
+    if (item.stock !== null && bought >= item.stock) return 'sold_out';
+    if (item.prerequisites.some(id => !g.purchases[id])) return 'locked';
+    if (!item.isUseful(g)) return 'not_needed';
+    if (g.gold < item.price) return 'too_expensive';
+    return 'available';
+};
+
+// Applies a purchase, or returns null when the item cannot be bought.
+export const purchase = (item: ShopItem, g: GameState): GameState | null => {
+    if (shopItemStatus(item, g) !== 'available') return null;
+    const next = item.effect({ ...g, gold: g.gold - item.price });
+    return { ...next, purchases: { ...next.purchases, [item.id]: (next.purchases[item.id] || 0) + 1 } };
+};
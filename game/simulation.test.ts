@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { ENEMY_COST } from './waves';
+import { isBoss } from './config';
+import { EMPTY_INPUT, FIXED_DT, GameSimulation, SimEvent, SimInput } from './simulation';
+
+const SEED = 42;
+
+// Steps whole seconds at the fixed rate and returns every event raised meanwhile.
+const run = (sim: GameSimulation, seconds: number, input: Partial<SimInput> = {}): SimEvent[] => {
+    const events: SimEvent[] = [];
+    for (let i = 0; i < Math.round(seconds / FIXED_DT); i++) {
+        sim.step({ ...EMPTY_INPUT, ...input }, FIXED_DT);
+        events.push(...sim.drainEvents());
+    }
+    return events;
+};
+
+const damageTaken = (events: SimEvent[]) =>
+    events.flatMap(e => e.type === 'player_damaged' ? [e.amount] : []);
+
+describe('GameSimulation', () => {
+    it('lands melee blows no faster than the attack cycle allows', () => {
+        const sim = new GameSimulation(SEED);
+        const p = sim.player.position;
+        sim.spawnEnemy('peasant', { x: p.x + 1, z: p.z });
+
+        // Windup 250, strike 150, recover 200, cooldown 600: one blow every 1200 ms
+        const hits: number[] = [];
+        for (let i = 0; i < Math.round(3 / FIXED_DT); i++) {
+            sim.step(EMPTY_INPUT, FIXED_DT);
+            if (damageTaken(sim.drainEvents()).length > 0) hits.push(sim.time);
+        }
+
+        expect(hits).toHaveLength(3);
+        for (let i = 1; i < hits.length; i++) expect(hits[i] - hits[i - 1]).toBeGreaterThanOrEqual(1200);
+        expect(sim.state.health).toBe(85);
+    });
+
+    it('damages the player with a projectile that reaches them, then drops it', () => {
+        const sim = new GameSimulation(SEED);
+        const p = sim.player.position;
+        sim.projectiles.push({
+            id: 'p-test', kind: 'bolt', damage: 22, firedAt: sim.time,
+            position: { x: p.x, y: p.y - 0.4, z: p.z - 3 },
+            velocity: { x: 0, y: 0, z: 40 },
+        });
+
+        const events = run(sim, 0.5);
+
+        expect(damageTaken(events)).toEqual([22]);
+        expect(sim.projectiles).toHaveLength(0);
+        expect(sim.state.health).toBe(78);
+    });
+
+    it('drops projectiles that hit nothing once their lifetime is over', () => {
+        const sim = new GameSimulation(SEED);
+        const p = sim.player.position;
+        // Straight up: an arrow this fast stays aloft far longer than its lifetime
+        sim.projectiles.push({
+            id: 'p-test', kind: 'arrow', damage: 10, firedAt: sim.time,
+            position: { x: p.x + 5, y: p.y + 5, z: p.z },
+            velocity: { x: 0, y: 100, z: 0 },
+        });
+
+        run(sim, 4.9);
+        expect(sim.projectiles).toHaveLength(1);
+        run(sim, 0.2);
+        expect(sim.projectiles).toHaveLength(0);
+        expect(sim.state.health).toBe(100);
+    });
+
+    it('sends stragglers home and puts what the budget paid for back into it', () => {
+        const sim = new GameSimulation(SEED);
+        run(sim, 6); // Wave 1 has bought its first peasants
+        const bought = sim.enemies.filter(e => e.fromBudget && !e.isDead);
+        expect(bought.length).toBeGreaterThan(0);
+        const before = sim.toSave().waves.remainingBudget;
+
+        sim.player.position.x += 300;
+        run(sim, FIXED_DT);
+
+        expect(sim.enemies.some(e => bought.includes(e))).toBe(false);
+        // Less anything bought again in the same step
+        const rebought = sim.enemies.filter(e => e.fromBudget).reduce((sum, e) => sum + ENEMY_COST[e.type], 0);
+        expect(sim.toSave().waves.remainingBudget).toBe(before + bought.reduce((sum, e) => sum + ENEMY_COST[e.type], 0) - rebought);
+    });
+
+    it('gives no budget back for boss escorts left behind', () => {
+        // Just before the king's wave
+        const save = new GameSimulation(SEED).toSave();
+        const sim = GameSimulation.fromSave({
+            ...save, time: 60000,
+            waves: { wave: 4, phase: 'intermission', remainingBudget: 0, phaseStart: 0, lastSpawn: 0, night: false },
+        });
+        run(sim, FIXED_DT);
+        expect(sim.state.boss?.type).toBe('king');
+        const escorts = sim.enemies.filter(e => !isBoss(e.type));
+        expect(escorts.length).toBeGreaterThan(0);
+        const before = sim.toSave().waves.remainingBudget;
+
+        sim.player.position.x += 300;
+        run(sim, FIXED_DT);
+
+        expect(sim.enemies.some(e => escorts.includes(e))).toBe(false);
+        expect(sim.enemies.some(e => e.type === 'king')).toBe(true);
+        expect(sim.toSave().waves.remainingBudget).toBe(before);
+    });
+
+    it('gives no budget back for a thrown rider left behind', () => {
+        const sim = new GameSimulation(SEED);
+        run(sim, 5); // Into wave 1, before its first purchase lands near the player
+        const p = sim.player.position;
+        const mount = sim.spawnEnemy('cavalry', { x: p.x, z: p.z - 5 });
+        mount.hp = 1;
+        mount.fromBudget = true;
+        run(sim, FIXED_DT, { fire: true });
+        const rider = sim.enemies.find(e => e.type === 'knight' && !e.isDead);
+        expect(mount.isDead).toBe(true);
+        expect(rider?.fromBudget).toBeUndefined();
+        const before = sim.toSave().waves.remainingBudget;
+
+        sim.player.position.x += 300;
+        run(sim, FIXED_DT);
+
+        expect(sim.enemies.includes(rider!)).toBe(false);
+        expect(sim.toSave().waves.remainingBudget).toBe(before);
+    });
+
+    it('reaches the same state from the same seed and inputs', () => {
+        const play = () => {
+            const sim = new GameSimulation(SEED);
+            run(sim, 6, { moveY: -1, yaw: 0.3 });
+            run(sim, 6, { fire: true, yaw: 1.2, pitch: -0.05 });
+            run(sim, 6, { moveX: 1, yaw: -0.8 });
+            const { savedAt: _, ...save } = sim.toSave();
+            return save;
+        };
+
+        const a = play();
+        expect(a.enemies.length).toBeGreaterThan(0);
+        expect(play()).toEqual(a);
+    });
+});
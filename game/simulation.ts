@@ -0,0 +1,855 @@
+import {
+    BossType, CommentaryContext, CommentaryType, Enemy, EnemyType, GameState, Obstacle, Projectile, ProjectileKind,
+    SurfaceType, Vector3, WeaponDefinition, WeaponId, WeaponSlot
+} from '../types';
+import {
+    BOSS_CONFIG, ENEMY_CONFIG, ENEMY_RADIUS, KILLSTREAK_STEP, isBoss,
+    LOW_HEALTH_THRESHOLD, MAX_WALK_SLOPE, PLAYER_HEIGHT, PLAYER_RADIUS, WALK_SPEED
+} from './config';
+import { ChunkCache } from './chunks';
+import { ObstacleGrid, checkCollision, circleHitsObstacle, createObstacleGrid } from './collision';
+import {
+    BEHAVIOURS, DISMOUNTS, EnemyContext, GROUP_RANGE, PROJECTILE_GRAVITY, RangedWeapon, SiegeTarget, ToPlayer,
+    createAttackState, damageScale, stagger
+} from './enemyAI';
+import { Environment, TORCH_LIGHT_RADIUS, getEnvironment } from './environment';
+import { FlowField, NAV_CELL_SIZE, NavGrid, toCell } from './navigation';
+import { Rng } from './random';
+import { raySphere, raycastWorld } from './raycast';
+import { SAVE_VERSION, SaveGame } from './save';
+import { getShopItem, purchase } from './shop';
+import { SpatialGrid } from './spatialGrid';
+import { getRoadInfluence, getTerrainHeight } from './terrain';
+import { WaveDirector, escortOf } from './waves';
+import { STARTING_LOADOUT, WEAPONS, createWeaponSlot, damageAtDistance } from './weapons';
+
+// --- Deterministic Game Core ---
+// Owns every gameplay rule. No React, no three.js: it runs headless under Node
+// and the renderer only reads from it.
+
+export const FIXED_DT = 1 / 60; // seconds per simulation step
+const MAX_STEPS_PER_ADVANCE = 5; // Drop time instead of spiralling after a long frame
+const DEAD_BODY_TIME = 3000; // ms a corpse stays before being removed
+const HIT_RANGE = 100;
+const FLOW_REBUILD_INTERVAL = 250; // ms between flow field rebuilds while the player moves
+const SIGHT_CHECK_INTERVAL = 200; // ms an enemy's line-of-sight result is reused
+const SEPARATION_RADIUS = 1.2; // Enemies closer than this push each other apart
+const SEPARATION_WEIGHT = 0.8;
+const SPAWN_ATTEMPTS = 8;
+const WET_SLOWDOWN = 0.3; // Fraction of speed lost on soaked ground off the roads
+const LEASH_RADIUS = 90; // Enemies left further behind than this give up and leave, bosses aside
+const PROJECTILE_LIFETIME = 5000; // ms before a stray arrow is dropped
+const AIMED_AT_COS = 0.97; // Cosine of the angle within which an enemy counts as aimed at
+const ESCORT_DISTANCE = { min: 3, max: 6 }; // How far from its boss an escort appears
+const SIEGE_SEARCH_RADIUS = 30; // Walls a siege engine notices around itself
+const SIEGE_REACH = 1.5; // Distance from a wall at which it can be battered
+const SIEGE_TARGETS = new Set<Obstacle['type']>(['wall', 'palisade', 'fence']);
+
+export interface SimInput {
+    moveX: number; // Strafe, -1 (left) to 1 (right)
+    moveY: number; // -1 (forward) to 1 (back), same convention as the joystick
+    yaw: number; // Radians, three.js 'YXZ' convention
+    pitch: number;
+    fire: boolean; // Held
+    reload: boolean; // Pressed since the last step
+    interact: boolean; // Pressed since the last step, opens or closes the shop
+    buyItem: string | null; // Shop item id picked since the last step
+    closeShop: boolean;
+    selectWeapon: number | null; // Slot picked since the last step
+    cycleWeapon: number; // -1 / 1 to step through slots (mouse wheel), 0 otherwise
+}
+
+export const EMPTY_INPUT: SimInput = {
+    moveX: 0, moveY: 0, yaw: 0, pitch: 0, fire: false, reload: false, interact: false,
+    buyItem: null, closeShop: false, selectWeapon: null, cycleWeapon: 0
+};
+
+// One-shot inputs are cleared after the step that consumed them
+const CLEARED_ONE_SHOTS: Partial<SimInput> = {
+    reload: false, interact: false, buyItem: null, closeShop: false, selectWeapon: null, cycleWeapon: 0
+};
+
+export interface PlayerTransform {
+    position: Vector3; // Eye position
+    yaw: number;
+    pitch: number;
+    isMoving: boolean;
+}
+
+export type SimEvent =
+    // `surface` is null when the bullet flew off into the sky
+    | { type: 'shot'; weapon: WeaponId; from: Vector3; impacts: ShotImpact[] }
+    | { type: 'dry_fire' }
+    | { type: 'reload' }
+    | { type: 'weapon_switch'; weapon: WeaponId }
+    | { type: 'kill'; enemy: Enemy }
+    | { type: 'player_damaged'; amount: number }
+    | { type: 'enemy_shot'; kind: ProjectileKind; from: Vector3 }
+    | { type: 'boss_phase'; boss: BossType; phase: number }
+    | { type: 'wall_destroyed'; position: Vector3 }
+    | { type: 'player_died' }
+    | { type: 'shop_buy'; item: string }
+    | { type: 'shop_denied' }
+    | { type: 'commentary'; commentary: CommentaryType; context: CommentaryContext };
+
+export interface ShotImpact {
+    to: Vector3;
+    // null when the pellet flew off into the sky
+    surface: SurfaceType | null;
+    hitEnemyId: string | null;
+}
+
+export const createInitialGameState = (): GameState => ({
+    score: 0, gold: 0, goldEarned: 0, health: 100, wave: 0, wavePhase: 'intermission', isPlaying: true,
+    weapons: STARTING_LOADOUT.map(createWeaponSlot),
+    activeWeapon: STARTING_LOADOUT.length - 1,
+    isReloading: false,
+    damageMultiplier: 1,
+    reloadMultiplier: 1,
+    purchases: {},
+    nearShop: false,
+    shopOpen: false,
+    isNight: false,
+    weather: 'clear',
+    boss: null
+});
+
+export const activeWeaponSlot = (g: GameState): WeaponSlot => g.weapons[g.activeWeapon];
+
+const updateActiveWeapon = (g: GameState, fn: (w: WeaponSlot) => WeaponSlot): GameState => ({
+    ...g,
+    weapons: g.weapons.map((w, i) => i === g.activeWeapon ? fn(w) : w),
+});
+
+export const lookDirection = (yaw: number, pitch: number): Vector3 => ({
+    x: -Math.sin(yaw) * Math.cos(pitch),
+    y: Math.sin(pitch),
+    z: -Math.cos(yaw) * Math.cos(pitch),
+});
+
+export class GameSimulation {
+    state: GameState = createInitialGameState();
+    enemies: Enemy[] = [];
+    projectiles: Projectile[] = []; // Arrows and bolts in flight, not saved
+    player: PlayerTransform;
+    world: ChunkCache;
+    obstacleGrid: ObstacleGrid = createObstacleGrid();
+    enemyGrid: SpatialGrid<Enemy>;
+    time = 0; // Simulation clock in ms, only advances while stepping
+    lastShotAt = -Infinity; // Simulation time of the last shot, drives recoil
+    environment: Environment; // Time of day and weather at `time`
+
+    private events: SimEvent[] = [];
+    private accumulator = 0;
+    private triggerHeld = false;
+    private triggerLocked = false; // Set when the shop closes, until the trigger is released
+    private reloadEndsAt = 0;
+    private nextEnemyId = 0;
+    private nextProjectileId = 0;
+    private killStreak = 0;
+    private killsByType: Partial<Record<EnemyType, number>> = {};
+    private waves: WaveDirector;
+    private indexedWorldVersion = -1;
+    private nav: NavGrid;
+    private flowField = new FlowField();
+    private flowBuiltAt = -Infinity;
+    private flowWorldVersion = -1;
+    private sightChecks = new WeakMap<Enemy, { at: number; visible: boolean }>();
+
+    private random = () => this.rng.next();
+
+    // Spawns and weapon spread draw from `rng`, seeded from the world seed by default
+    constructor(public readonly seed: number, private rng: Rng = new Rng(seed)) {
+        this.environment = getEnvironment(seed, 0);
+        const y = getTerrainHeight(0, 0, seed) + PLAYER_HEIGHT;
+        this.player = { position: { x: 0, y, z: 0 }, yaw: 0, pitch: 0, isMoving: false };
+        this.world = new ChunkCache(seed);
+        this.world.update(0, 0);
+        this.enemyGrid = new SpatialGrid<Enemy>(e => {
+            const r = 2.0 * ENEMY_CONFIG[e.type].scale; // Matches the hitscan hitbox
+            return { minX: e.position.x - r, minZ: e.position.z - r, maxX: e.position.x + r, maxZ: e.position.z + r };
+        });
+        this.indexWorld();
+        this.nav = new NavGrid(this.world, () => this.obstacleGrid);
+        this.waves = new WaveDirector({
+            onWaveStart: (wave) => {
+                this.patchState({ wave, wavePhase: 'active' });
+                this.emitCommentary('wave_start');
+            },
+            onWaveCleared: () => this.patchState({ wavePhase: 'intermission', boss: null }),
+            isNight: () => this.environment.isNight,
+        }, undefined, this.random);
+    }
+
+    // Obstacles of the currently loaded chunks
+    get obstacles(): Obstacle[] {
+        return this.world.obstacles();
+    }
+
+    // Returns and clears everything that happened since the last call.
+    drainEvents(): SimEvent[] {
+        const out = this.events;
+        this.events = [];
+        return out;
+    }
+
+    timeUntilNextWave(): number {
+        return this.waves.timeUntilNextWave(this.time);
+    }
+
+    commentaryContext(extra: Partial<CommentaryContext> = {}): CommentaryContext {
+        return {
+            score: this.state.score,
+            wave: this.state.wave,
+            health: this.state.health,
+            gold: this.state.gold,
+            killStreak: this.killStreak,
+            enemiesKilled: { ...this.killsByType },
+            ...extra
+        };
+    }
+
+    // --- Save / Load ---
+
+    toSave(): SaveGame {
+        const p = this.player;
+        return {
+            version: SAVE_VERSION,
+            savedAt: Date.now(),
+            seed: this.seed,
+            time: this.time,
+            state: { ...this.state, shopOpen: false },
+            player: { position: { ...p.position }, yaw: p.yaw, pitch: p.pitch },
+            enemies: this.enemies.map(e => JSON.parse(JSON.stringify(e))),
+            nextEnemyId: this.nextEnemyId,
+            killStreak: this.killStreak,
+            killsByType: { ...this.killsByType },
+            waves: this.waves.snapshot(),
+            reloadRemaining: this.state.isReloading ? Math.max(0, this.reloadEndsAt - this.time) : 0,
+            rngState: this.rng.state,
+            chunkDiffs: this.world.exportDiffs(),
+        };
+    }
+
+    // Rebuilds a run from a migrated save.
+    static fromSave(save: SaveGame): GameSimulation {
+        const rng = new Rng(0);
+        rng.state = save.rngState;
+        const sim = new GameSimulation(save.seed, rng);
+        sim.time = save.time;
+        sim.environment = getEnvironment(sim.seed, sim.time);
+        sim.state = { ...save.state, shopOpen: false };
+        sim.player.position = { ...save.player.position };
+        sim.player.yaw = save.player.yaw;
+        sim.player.pitch = save.player.pitch;
+        sim.enemies = save.enemies.map(e => ({ ...e }));
+        sim.nextEnemyId = save.nextEnemyId;
+        sim.killStreak = save.killStreak;
+        sim.killsByType = { ...save.killsByType };
+        sim.waves.restore(save.waves);
+        sim.reloadEndsAt = save.time + save.reloadRemaining;
+        sim.world.importDiffs(save.chunkDiffs);
+        sim.world.update(sim.player.position.x, sim.player.position.z);
+        sim.indexWorld();
+        return sim;
+    }
+
+    // Feeds variable frame time into fixed steps. One-shot inputs (reload,
+    // interact, purchases, weapon selection) only apply to the first step. Returns the number of steps run.
+    advance(input: SimInput, frameDt: number): number {
+        this.accumulator = Math.min(this.accumulator + frameDt, FIXED_DT * MAX_STEPS_PER_ADVANCE);
+        let steps = 0;
+        let current = input;
+        while (this.accumulator >= FIXED_DT) {
+            this.step(current, FIXED_DT);
+            this.accumulator -= FIXED_DT;
+            current = { ...current, ...CLEARED_ONE_SHOTS };
+            steps++;
+        }
+        return steps;
+    }
+
+    step(input: SimInput, dt: number) {
+        if (!this.state.isPlaying) return;
+        this.time += dt * 1000;
+
+        this.stepEnvironment();
+        this.stepPlayer(input, dt);
+        this.world.update(this.player.position.x, this.player.position.z);
+        this.indexWorld();
+        this.dropStragglers();
+        this.indexEnemies();
+        this.stepShop(input);
+        this.stepWeaponSelect(input);
+        this.stepReload(input);
+        this.stepShooting(input);
+        this.stepWaves();
+        this.updateFlowField();
+        this.stepEnemies(dt);
+        this.stepProjectiles(dt);
+    }
+
+    // --- Environment ---
+
+    private stepEnvironment() {
+        this.environment = getEnvironment(this.seed, this.time);
+        const { isNight, weather } = this.environment;
+        if (isNight !== this.state.isNight || weather !== this.state.weather) this.patchState({ isNight, weather });
+    }
+
+    // Speed multiplier for walking at a position: mud slows everyone down, roads do not
+    private groundSpeed(x: number, z: number): number {
+        const wetness = this.environment.wetness;
+        if (wetness <= 0) return 1;
+        return 1 - WET_SLOWDOWN * wetness * (1 - getRoadInfluence(x, z, this.seed));
+    }
+
+    // Whether a step climbs ground too steep to walk up. Going downhill is always allowed.
+    private tooSteep(from: { x: number; z: number }, to: { x: number; z: number }): boolean {
+        const run = Math.hypot(to.x - from.x, to.z - from.z);
+        if (run === 0) return false;
+        const rise = getTerrainHeight(to.x, to.z, this.seed) - getTerrainHeight(from.x, from.z, this.seed);
+        return rise / run > MAX_WALK_SLOPE;
+    }
+
+    // Whether a torch lights up a position
+    isLit(x: number, z: number): boolean {
+        return this.obstacleGrid.queryCircle(x, z, TORCH_LIGHT_RADIUS)
+            .some(obs => obs.type === 'torch' && Math.hypot(obs.position.x - x, obs.position.z - z) < TORCH_LIGHT_RADIUS);
+    }
+
+    // --- Player ---
+
+    private stepPlayer(input: SimInput, dt: number) {
+        const p = this.player;
+        p.yaw = input.yaw;
+        p.pitch = input.pitch;
+        // The player stays at the counter while browsing
+        if (this.state.shopOpen) input = { ...input, moveX: 0, moveY: 0 };
+
+        const fwdX = -Math.sin(p.yaw), fwdZ = -Math.cos(p.yaw);
+        const rightX = Math.cos(p.yaw), rightZ = -Math.sin(p.yaw);
+        let mx = rightX * input.moveX - fwdX * input.moveY;
+        let mz = rightZ * input.moveX - fwdZ * input.moveY;
+        const len = Math.sqrt(mx * mx + mz * mz);
+        if (len > 1) { mx /= len; mz /= len; }
+        p.isMoving = len > 0;
+
+        const speed = WALK_SPEED * this.groundSpeed(p.position.x, p.position.z);
+        const next = { x: p.position.x + mx * speed * dt, z: p.position.z + mz * speed * dt };
+        if (!checkCollision(next, this.obstacleGrid, PLAYER_RADIUS) && !this.tooSteep(p.position, next)) {
+            p.position.x = next.x;
+            p.position.z = next.z;
+        }
+        p.position.y = getTerrainHeight(p.position.x, p.position.z, this.seed) + PLAYER_HEIGHT;
+    }
+
+    // --- Shop ---
+
+    private stepShop(input: SimInput) {
+        const pos = this.player.position;
+        // Shop tables are indexed by their interaction radius
+        const nearShop = this.obstacleGrid.queryCircle(pos.x, pos.z, 0)
+            .some(obs => obs.type === 'shop_table'
+                && Math.hypot(obs.position.x - pos.x, obs.position.z - pos.z) < obs.radius);
+
+        let shopOpen = this.state.shopOpen;
+        if (input.interact) shopOpen = !shopOpen;
+        if (input.closeShop || !nearShop) shopOpen = false;
+        // Only patch on change: a new state object re-renders the HUD
+        if (nearShop !== this.state.nearShop || shopOpen !== this.state.shopOpen) {
+            // The click that closed the menu must not fire once play resumes
+            if (!shopOpen && this.state.shopOpen) this.triggerLocked = true;
+            this.patchState({ nearShop, shopOpen });
+        }
+
+        if (input.buyItem && shopOpen) this.buy(input.buyItem);
+    }
+
+    private buy(itemId: string) {
+        const item = getShopItem(itemId);
+        const next = item ? purchase(item, this.state) : null;
+        if (!item || !next) {
+            this.events.push({ type: 'shop_denied' });
+            return;
+        }
+        this.state = next;
+        this.events.push({ type: 'shop_buy', item: item.name });
+        this.emitCommentary('shop_buy', { itemBought: item.name });
+    }
+
+    // --- Weapon ---
+
+    get activeWeapon(): WeaponDefinition {
+        return WEAPONS[activeWeaponSlot(this.state).id];
+    }
+
+    private stepWeaponSelect(input: SimInput) {
+        if (this.state.shopOpen) return;
+        const count = this.state.weapons.length;
+        let next = this.state.activeWeapon;
+        if (input.selectWeapon !== null && input.selectWeapon >= 0 && input.selectWeapon < count) next = input.selectWeapon;
+        else if (input.cycleWeapon !== 0) next = (next + Math.sign(input.cycleWeapon) + count) % count;
+        if (next === this.state.activeWeapon) return;
+
+        // Switching cancels a reload in progress
+        this.patchState({ activeWeapon: next, isReloading: false });
+        this.lastShotAt = this.time;
+        this.events.push({ type: 'weapon_switch', weapon: activeWeaponSlot(this.state).id });
+    }
+
+    private startReload() {
+        const slot = activeWeaponSlot(this.state);
+        if (this.state.isReloading || slot.reserve <= 0 || slot.ammo >= this.activeWeapon.magazineSize) return;
+        this.patchState({ isReloading: true });
+        this.reloadEndsAt = this.time + this.activeWeapon.reloadTime * this.state.reloadMultiplier;
+        this.events.push({ type: 'reload' });
+    }
+
+    private stepReload(input: SimInput) {
+        if (input.reload && !this.state.shopOpen) this.startReload();
+        if (!this.state.isReloading || this.time < this.reloadEndsAt) return;
+        const size = this.activeWeapon.magazineSize;
+        this.state = updateActiveWeapon({ ...this.state, isReloading: false }, w => {
+            const moved = Math.min(size - w.ammo, w.reserve);
+            return { ...w, ammo: w.ammo + moved, reserve: w.reserve - moved };
+        });
+    }
+
+    private stepShooting(input: SimInput) {
+        const pressed = input.fire && !this.triggerHeld;
+        this.triggerHeld = input.fire;
+        if (!input.fire) this.triggerLocked = false;
+        if (this.state.shopOpen || this.triggerLocked) return;
+
+        const def = this.activeWeapon;
+        if (!(def.automatic ? input.fire : pressed)) return;
+        if (this.state.isReloading || this.time - this.lastShotAt <= def.fireRate) return;
+        this.lastShotAt = this.time;
+
+        const slot = activeWeaponSlot(this.state);
+        if (slot.ammo <= 0) {
+            this.events.push({ type: 'dry_fire' });
+            this.startReload();
+            return;
+        }
+        this.state = updateActiveWeapon(this.state, w => ({ ...w, ammo: w.ammo - 1 }));
+
+        const origin = this.player.position;
+        const aim = lookDirection(this.player.yaw, this.player.pitch);
+        const impacts: ShotImpact[] = [];
+        for (let i = 0; i < def.pellets; i++) {
+            impacts.push(this.firePellet(def, origin, this.spreadDirection(aim, def.spread)));
+        }
+        this.events.push({ type: 'shot', weapon: def.id, from: { ...origin }, impacts });
+    }
+
+    // Random direction inside a cone of half-angle `spread` around `aim`.
+    private spreadDirection(aim: Vector3, spread: number): Vector3 {
+        if (spread <= 0) return aim;
+        const yaw = Math.atan2(-aim.x, -aim.z) + (this.random() - 0.5) * 2 * spread;
+        const pitch = Math.asin(Math.max(-1, Math.min(1, aim.y))) + (this.random() - 0.5) * 2 * spread;
+        return lookDirection(yaw, pitch);
+    }
+
+    private firePellet(def: WeaponDefinition, origin: Vector3, dir: Vector3): ShotImpact {
+        // Sphere hitboxes, found through the enemy grid along the ray
+        const visibility = this.environment.visibility;
+        const enemyHit = this.enemyGrid.queryRay(origin.x, origin.z, dir.x, dir.z, HIT_RANGE, e => {
+            if (e.isDead) return null;
+            // Generous sphere hitbox (2.0 scale) for better game feel
+            const hit = raySphere(origin, dir, this.enemyCenter(e), 2.0 * ENEMY_CONFIG[e.type].scale);
+            // In the dark or the fog, only torchlit enemies can be picked out far away
+            if (hit !== null && hit > visibility && !this.isLit(e.position.x, e.position.z)) return null;
+            return hit;
+        });
+        // Walls, trees and hills stop bullets: only an enemy in front of them is hit
+        const worldHit = raycastWorld(origin, dir, enemyHit ? enemyHit.distance : HIT_RANGE, this.obstacleGrid, this.seed);
+
+        if (worldHit) return { to: worldHit.point, surface: worldHit.surface, hitEnemyId: null };
+
+        const distance = enemyHit ? enemyHit.distance : HIT_RANGE;
+        const to = { x: origin.x + dir.x * distance, y: origin.y + dir.y * distance, z: origin.z + dir.z * distance };
+        if (!enemyHit) return { to, surface: null, hitEnemyId: null };
+
+        const damage = damageAtDistance(def, distance) * this.state.damageMultiplier * damageScale(enemyHit.item);
+        this.damageEnemy(enemyHit.item, damage, dir);
+        return { to, surface: 'flesh', hitEnemyId: enemyHit.item.id };
+    }
+
+    private enemyCenter(e: Enemy): Vector3 {
+        return { x: e.position.x, y: getTerrainHeight(e.position.x, e.position.z, this.seed) + 0.9 * ENEMY_CONFIG[e.type].scale, z: e.position.z };
+    }
+
+    private damageEnemy(e: Enemy, amount: number, dir: Vector3) {
+        if (e.isDead) return;
+        e.hp = Math.max(0, e.hp - amount);
+        if (isBoss(e.type)) this.updateBoss(e);
+        if (e.hp > 0) return;
+
+        e.isDead = true;
+        e.isAttacking = false;
+        e.deadTime = this.time;
+        e.velocity = { x: dir.x * 8, y: dir.y * 8 + 4, z: dir.z * 8 };
+
+        const cfg = ENEMY_CONFIG[e.type];
+        this.patchState({
+            score: this.state.score + cfg.score,
+            gold: this.state.gold + cfg.gold,
+            goldEarned: this.state.goldEarned + cfg.gold,
+        });
+        this.events.push({ type: 'kill', enemy: e });
+
+        const rider = DISMOUNTS[e.type];
+        if (rider) stagger(this.spawnEnemy(rider, e.position), this.time);
+
+        if (e.type === 'villager') return;
+        this.killStreak++;
+        this.killsByType[e.type] = (this.killsByType[e.type] || 0) + 1;
+        if (this.killStreak % KILLSTREAK_STEP === 0) this.emitCommentary('killstreak');
+    }
+
+    // Keeps the HUD's boss bar current and starts the next phase once health
+    // drops past its threshold, calling in that phase's escort.
+    private updateBoss(e: Enemy) {
+        const type = e.type as BossType;
+        const config = BOSS_CONFIG[type];
+        const current = e.bossPhase ?? 0;
+        const phase = config.phases.filter(p => e.hp <= p.at * e.maxHp).length;
+        if (phase > current) {
+            e.bossPhase = phase;
+            // A killing blow skips the reinforcements
+            if (e.hp > 0) {
+                config.phases.slice(current, phase).forEach(p => {
+                    if (p.escort) escortOf(p.escort).forEach(t => this.spawnEnemy(t, this.escortPosition(e.position)));
+                });
+            }
+            this.events.push({ type: 'boss_phase', boss: type, phase });
+        }
+        this.patchState({ boss: { type, hp: e.hp, maxHp: e.maxHp, phase: e.bossPhase ?? 0 } });
+    }
+
+    // --- Waves & Enemies ---
+
+    private stepWaves() {
+        const aliveHostiles = this.enemies.filter(e => !e.isDead && e.type !== 'villager').length;
+        const spawns = this.waves.update(this.time, aliveHostiles);
+        // A boss's escort follows it in the list and gathers around it; anything
+        // else was paid for from the budget
+        let leader: Enemy | null = null;
+        for (const type of spawns) {
+            const e = this.spawnEnemy(type, leader ? this.escortPosition(leader.position) : undefined);
+            if (isBoss(type)) leader = e;
+            else if (!leader) e.fromBudget = true;
+        }
+    }
+
+    // Hostiles the player walked away from would hold the wave open forever:
+    // they leave the field, and those bought from the budget go back into it.
+    private dropStragglers() {
+        const p = this.player.position;
+        this.enemies = this.enemies.filter(e => {
+            if (e.isDead || isBoss(e.type) || Math.hypot(e.position.x - p.x, e.position.z - p.z) <= LEASH_RADIUS) return true;
+            if (e.fromBudget) this.waves.refund(e.type);
+            return false;
+        });
+    }
+
+    private escortPosition(around: Vector3): { x: number; z: number } {
+        let x: number, z: number;
+        let attempts = 0;
+        do {
+            const angle = this.random() * Math.PI * 2;
+            const dist = ESCORT_DISTANCE.min + this.random() * (ESCORT_DISTANCE.max - ESCORT_DISTANCE.min);
+            x = around.x + Math.cos(angle) * dist;
+            z = around.z + Math.sin(angle) * dist;
+        } while (checkCollision({ x, z }, this.obstacleGrid, ENEMY_RADIUS) && ++attempts < SPAWN_ATTEMPTS);
+        return { x, z };
+    }
+
+    spawnEnemy(type: EnemyType, position?: { x: number; z: number }): Enemy {
+        let x: number, z: number;
+        if (position) {
+            x = position.x;
+            z = position.z;
+        } else {
+            // Retry a few times so nobody spawns inside a rock or a mountain
+            let attempts = 0;
+            do {
+                const angle = this.random() * Math.PI * 2;
+                const dist = 30 + this.random() * 20;
+                x = this.player.position.x + Math.cos(angle) * dist;
+                z = this.player.position.z + Math.sin(angle) * dist;
+            } while (checkCollision({ x, z }, this.obstacleGrid, ENEMY_RADIUS) && ++attempts < SPAWN_ATTEMPTS);
+        }
+        const cfg = ENEMY_CONFIG[type];
+        const enemy: Enemy = {
+            id: `e${this.nextEnemyId++}`,
+            type,
+            position: { x, y: getTerrainHeight(x, z, this.seed), z },
+            hp: cfg.hp, maxHp: cfg.hp, speed: cfg.speed,
+            isAttacking: false
+        };
+        enemy.attack = createAttackState(enemy);
+        this.enemies.push(enemy);
+        if (isBoss(type)) {
+            enemy.bossPhase = 0;
+            this.updateBoss(enemy);
+        }
+        return enemy;
+    }
+
+    private stepEnemies(dt: number) {
+        const pPos = this.player.position;
+        const ctx = this.enemyContext(dt);
+
+        for (const e of this.enemies) {
+            if (e.isDead) continue;
+            const dx = pPos.x - e.position.x;
+            const dz = pPos.z - e.position.z;
+            const dist = Math.sqrt(dx * dx + dz * dz);
+            if (dist === 0) continue;
+
+            // Saves from before attack states have none
+            e.attack ??= createAttackState(e);
+            BEHAVIOURS[e.type](e, e.attack, { x: dx / dist, z: dz / dist, dist }, ctx);
+            e.position.y = getTerrainHeight(e.position.x, e.position.z, this.seed);
+        }
+
+        this.enemies = this.enemies.filter(e => !e.isDead || this.time - (e.deadTime || 0) < DEAD_BODY_TIME);
+    }
+
+    // What the behaviour controllers may ask of the world during one step.
+    private enemyContext(dt: number): EnemyContext {
+        let groups: Partial<Record<EnemyType, number>> | null = null;
+        return {
+            time: this.time,
+            nearPlayer: type => {
+                if (!groups) {
+                    const p = this.player.position;
+                    const counts: Partial<Record<EnemyType, number>> = {};
+                    for (const e of this.enemyGrid.queryCircle(p.x, p.z, GROUP_RANGE)) {
+                        if (e.isDead || Math.hypot(e.position.x - p.x, e.position.z - p.z) > GROUP_RANGE) continue;
+                        counts[e.type] = (counts[e.type] || 0) + 1;
+                    }
+                    groups = counts;
+                }
+                return groups[type] || 0;
+            },
+            approach: (e, to, speedScale = 1) => this.approach(e, to, dt, speedScale),
+            move: (e, dirX, dirZ, speedScale = 1) => this.moveEnemy(e, dirX, dirZ, dt, speedScale),
+            canSee: e => this.canSeePlayer(e),
+            isAimedAt: e => {
+                const p = this.player.position;
+                const aim = lookDirection(this.player.yaw, this.player.pitch);
+                const ex = e.position.x - p.x, ez = e.position.z - p.z;
+                const length = Math.hypot(ex, ez) * Math.hypot(aim.x, aim.z);
+                return length > 0 && (ex * aim.x + ez * aim.z) / length > AIMED_AT_COS;
+            },
+            hitPlayer: damage => this.damagePlayer(damage),
+            shoot: (e, weapon) => this.shootProjectile(e, weapon),
+            siegeTarget: e => this.siegeTarget(e),
+            demolish: target => {
+                if (!this.world.removeObstacle(target.id)) return;
+                const y = getTerrainHeight(target.x, target.z, this.seed);
+                this.events.push({ type: 'wall_destroyed', position: { x: target.x, y, z: target.z } });
+            },
+        };
+    }
+
+    // A wall already in reach, or else the nearest one around
+    private siegeTarget(e: Enemy): SiegeTarget | null {
+        const { x, z } = e.position;
+        let nearest: Obstacle | null = null;
+        let nearestDist = SIEGE_SEARCH_RADIUS;
+        for (const obs of this.obstacleGrid.queryCircle(x, z, SIEGE_SEARCH_RADIUS)) {
+            if (!SIEGE_TARGETS.has(obs.type)) continue;
+            if (circleHitsObstacle(obs, x, z, SIEGE_REACH)) return { id: obs.id, x: obs.position.x, z: obs.position.z, inReach: true };
+            const d = Math.hypot(obs.position.x - x, obs.position.z - z);
+            if (d < nearestDist) {
+                nearest = obs;
+                nearestDist = d;
+            }
+        }
+        return nearest && { id: nearest.id, x: nearest.position.x, z: nearest.position.z, inReach: false };
+    }
+
+    private updateFlowField() {
+        const p = this.player.position;
+        const moved = toCell(p.x) !== this.flowField.targetCellX || toCell(p.z) !== this.flowField.targetCellZ;
+        const worldChanged = this.flowWorldVersion !== this.world.version;
+        if (!worldChanged && (!moved || this.time - this.flowBuiltAt < FLOW_REBUILD_INTERVAL)) return;
+        if (worldChanged) this.nav.prune();
+        this.flowField.build(this.nav, p.x, p.z);
+        this.flowBuiltAt = this.time;
+        this.flowWorldVersion = this.world.version;
+    }
+
+    // Follows the flow field around buildings towards the player.
+    private approach(e: Enemy, to: ToPlayer, dt: number, speedScale: number) {
+        const flow = to.dist > 2 ? this.flowField.directionAt(e.position.x, e.position.z) : null;
+        this.moveEnemy(e, flow ? flow.x : to.x, flow ? flow.z : to.z, dt, speedScale);
+    }
+
+    // Keeps some room from other enemies and slides along walls instead of
+    // stopping dead. Returns false when the enemy could not move at all.
+    private moveEnemy(e: Enemy, dirX: number, dirZ: number, dt: number, speedScale = 1): boolean {
+        for (const other of this.enemyGrid.queryCircle(e.position.x, e.position.z, SEPARATION_RADIUS)) {
+            if (other === e || other.isDead) continue;
+            const ox = e.position.x - other.position.x;
+            const oz = e.position.z - other.position.z;
+            const d = Math.sqrt(ox * ox + oz * oz);
+            if (d === 0 || d > SEPARATION_RADIUS) continue;
+            const push = (1 - d / SEPARATION_RADIUS) * SEPARATION_WEIGHT;
+            dirX += (ox / d) * push;
+            dirZ += (oz / d) * push;
+        }
+
+        const len = Math.sqrt(dirX * dirX + dirZ * dirZ);
+        if (len === 0) return false;
+        const speed = e.speed * speedScale * this.groundSpeed(e.position.x, e.position.z);
+        const stepX = (dirX / len) * speed * dt;
+        const stepZ = (dirZ / len) * speed * dt;
+        const candidates = [
+            { x: e.position.x + stepX, z: e.position.z + stepZ },
+            { x: e.position.x + stepX, z: e.position.z },
+            { x: e.position.x, z: e.position.z + stepZ },
+        ];
+        // Last resort: recentre on the current nav cell, which is walkable by construction
+        const cx = (toCell(e.position.x) + 0.5) * NAV_CELL_SIZE - e.position.x;
+        const cz = (toCell(e.position.z) + 0.5) * NAV_CELL_SIZE - e.position.z;
+        const toCentre = Math.sqrt(cx * cx + cz * cz);
+        if (toCentre > 0) {
+            const k = Math.min(toCentre, e.speed * dt) / toCentre;
+            candidates.push({ x: e.position.x + cx * k, z: e.position.z + cz * k });
+        }
+        for (const next of candidates) {
+            if (checkCollision(next, this.obstacleGrid, ENEMY_RADIUS) || this.tooSteep(e.position, next)) continue;
+            e.position.x = next.x;
+            e.position.z = next.z;
+            return true;
+        }
+        return false;
+    }
+
+    // Unblocked line from the enemy's eyes to the player's. Ranged enemies ask
+    // every tick, so the answer is kept for SIGHT_CHECK_INTERVAL.
+    private canSeePlayer(e: Enemy): boolean {
+        const cached = this.sightChecks.get(e);
+        if (cached && this.time - cached.at < SIGHT_CHECK_INTERVAL) return cached.visible;
+        const visible = this.lineOfSight(e);
+        this.sightChecks.set(e, { at: this.time, visible });
+        return visible;
+    }
+
+    private lineOfSight(e: Enemy): boolean {
+        const from = this.enemyEyes(e);
+        const p = this.player.position;
+        const dx = p.x - from.x, dy = p.y - from.y, dz = p.z - from.z;
+        const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
+        if (dist === 0) return true;
+        return !raycastWorld(from, { x: dx / dist, y: dy / dist, z: dz / dist }, dist, this.obstacleGrid, this.seed);
+    }
+
+    private enemyEyes(e: Enemy): Vector3 {
+        const center = this.enemyCenter(e);
+        return { ...center, y: center.y + 0.6 * ENEMY_CONFIG[e.type].scale };
+    }
+
+    // --- Projectiles ---
+
+    // Aims at the player's chest, lobbing the shot to make up for the drop.
+    private shootProjectile(e: Enemy, weapon: RangedWeapon) {
+        const from = this.enemyEyes(e);
+        const p = this.player.position;
+        const dx = p.x - from.x, dy = p.y - 0.4 - from.y, dz = p.z - from.z;
+        const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
+        if (dist === 0) return;
+        const dir = this.spreadDirection({ x: dx / dist, y: dy / dist, z: dz / dist }, weapon.spread);
+        const flight = dist / weapon.speed;
+        this.projectiles.push({
+            id: `p${this.nextProjectileId++}`,
+            kind: weapon.projectile,
+            position: from,
+            velocity: {
+                x: dir.x * weapon.speed,
+                y: dir.y * weapon.speed + 0.5 * PROJECTILE_GRAVITY[weapon.projectile] * flight,
+                z: dir.z * weapon.speed,
+            },
+            damage: weapon.damage,
+            firedAt: this.time,
+        });
+        this.events.push({ type: 'enemy_shot', kind: weapon.projectile, from: { ...from } });
+    }
+
+    private stepProjectiles(dt: number) {
+        if (this.projectiles.length === 0) return;
+        const p = this.player.position;
+        this.projectiles = this.projectiles.filter(shot => {
+            if (this.time - shot.firedAt > PROJECTILE_LIFETIME) return false;
+            shot.velocity.y -= PROJECTILE_GRAVITY[shot.kind] * dt;
+            const from = shot.position;
+            const sx = shot.velocity.x * dt, sy = shot.velocity.y * dt, sz = shot.velocity.z * dt;
+            const length = Math.sqrt(sx * sx + sy * sy + sz * sz);
+
+            // Closest approach to the player's body, a column from the feet to the eyes
+            const flat = sx * sx + sz * sz;
+            const t = flat > 0 ? Math.max(0, Math.min(1, ((p.x - from.x) * sx + (p.z - from.z) * sz) / flat)) : 0;
+            const cy = from.y + sy * t;
+            const hitsPlayer = Math.hypot(p.x - (from.x + sx * t), p.z - (from.z + sz * t)) < PLAYER_RADIUS
+                && cy <= p.y + 0.2 && cy >= p.y - PLAYER_HEIGHT;
+
+            const wall = length > 0
+                ? raycastWorld(from, { x: sx / length, y: sy / length, z: sz / length }, length, this.obstacleGrid, this.seed)
+                : null;
+            if (hitsPlayer && (!wall || wall.distance >= t * length)) {
+                this.damagePlayer(shot.damage);
+                return false;
+            }
+            if (wall) return false;
+            shot.position = { x: from.x + sx, y: from.y + sy, z: from.z + sz };
+            return true;
+        });
+    }
+
+    private damagePlayer(amount: number) {
+        // Blows landing in the same step as the fatal one
+        if (!this.state.isPlaying) return;
+        const prev = this.state.health;
+        const health = Math.max(0, prev - amount);
+        this.killStreak = 0;
+        this.events.push({ type: 'player_damaged', amount });
+
+        if (health === 0) {
+            this.patchState({ health: 0, isPlaying: false, shopOpen: false });
+            this.events.push({ type: 'player_died' });
+            return;
+        }
+        this.patchState({ health });
+        if (prev >= LOW_HEALTH_THRESHOLD && health < LOW_HEALTH_THRESHOLD) this.emitCommentary('low_health');
+    }
+
+    // --- Helpers ---
+
+    // Rebuilds the obstacle index whenever chunks were loaded, evicted or modified.
+    private indexWorld() {
+        if (this.indexedWorldVersion === this.world.version) return;
+        this.indexedWorldVersion = this.world.version;
+        this.obstacleGrid = createObstacleGrid(this.world.obstacles());
+    }
+
+    // Enemies move every step, so their index is rebuilt from scratch.
+    private indexEnemies() {
+        this.enemyGrid.clear();
+        for (const e of this.enemies) if (!e.isDead) this.enemyGrid.insert(e);
+    }
+
+    // GameState is treated as immutable so React can detect changes by reference.
+    private patchState(patch: Partial<GameState>) {
+        this.state = { ...this.state, ...patch };
+    }
+
+    private emitCommentary(commentary: CommentaryType, extra: Partial<CommentaryContext> = {}) {
+        this.events.push({ type: 'commentary', commentary, context: this.commentaryContext(extra) });
+    }
+}
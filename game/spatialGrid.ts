@@ -0,0 +1,172 @@
+import { CHUNK_SIZE } from './config';
+
+// --- Spatial Hash Grid ---
+// Uniform grid over the x/z plane. The cell size divides CHUNK_SIZE so cells
+// never straddle a chunk border.
+
+export const GRID_CELL_SIZE = CHUNK_SIZE / 6;
+
+export interface Bounds2D {
+    minX: number;
+    minZ: number;
+    maxX: number;
+    maxZ: number;
+}
+
+export interface RayHit<T> {
+    item: T;
+    distance: number; // In units of the ray parameter
+}
+
+export class SpatialGrid<T> {
+    private cells = new Map<string, T[]>();
+    private bounds = new Map<T, Bounds2D>();
+    // Stamp-based dedup: an item spanning several cells is reported once per query
+    private stamps = new Map<T, number>();
+    private queryId = 0;
+
+    constructor(private getBounds: (item: T) => Bounds2D | null, private cellSize = GRID_CELL_SIZE) {}
+
+    get size() {
+        return this.bounds.size;
+    }
+
+    clear() {
+        this.cells.clear();
+        this.bounds.clear();
+        this.stamps.clear();
+    }
+
+    insert(item: T) {
+        const b = this.getBounds(item);
+        if (!b) return;
+        this.bounds.set(item, b);
+        this.forEachCell(b, key => {
+            const cell = this.cells.get(key);
+            if (cell) cell.push(item);
+            else this.cells.set(key, [item]);
+        });
+    }
+
+    remove(item: T) {
+        const b = this.bounds.get(item);
+        if (!b) return;
+        this.bounds.delete(item);
+        this.stamps.delete(item);
+        this.forEachCell(b, key => {
+            const cell = this.cells.get(key);
+            if (!cell) return;
+            const i = cell.indexOf(item);
+            if (i >= 0) cell.splice(i, 1);
+            if (cell.length === 0) this.cells.delete(key);
+        });
+    }
+
+    // Items whose bounds overlap the rectangle.
+    queryBounds(query: Bounds2D, out: T[] = []): T[] {
+        const id = ++this.queryId;
+        this.forEachCell(query, key => {
+            const cell = this.cells.get(key);
+            if (!cell) return;
+            for (const item of cell) {
+                if (this.stamps.get(item) === id) continue;
+                this.stamps.set(item, id);
+                const b = this.bounds.get(item)!;
+                if (b.maxX < query.minX || b.minX > query.maxX || b.maxZ < query.minZ || b.minZ > query.maxZ) continue;
+                out.push(item);
+            }
+        });
+        return out;
+    }
+
+    // Items whose bounds overlap the circle.
+    queryCircle(x: number, z: number, radius: number, out: T[] = []): T[] {
+        const candidates = this.queryBounds({ minX: x - radius, minZ: z - radius, maxX: x + radius, maxZ: z + radius });
+        for (const item of candidates) {
+            const b = this.bounds.get(item)!;
+            const cx = Math.max(b.minX, Math.min(x, b.maxX));
+            const cz = Math.max(b.minZ, Math.min(z, b.maxZ));
+            const dx = x - cx, dz = z - cz;
+            if (dx * dx + dz * dz <= radius * radius) out.push(item);
+        }
+        return out;
+    }
+
+    // Items whose bounds overlap a box of half extents (halfW, halfD) rotated by `rotation` around y.
+    queryOrientedBox(x: number, z: number, halfW: number, halfD: number, rotation: number, out: T[] = []): T[] {
+        const cos = Math.cos(rotation), sin = Math.sin(rotation);
+        const ex = Math.abs(cos) * halfW + Math.abs(sin) * halfD;
+        const ez = Math.abs(sin) * halfW + Math.abs(cos) * halfD;
+        const candidates = this.queryBounds({ minX: x - ex, minZ: z - ez, maxX: x + ex, maxZ: z + ez });
+        for (const item of candidates) {
+            // Separating axis test on the box's local axes (the world axes were covered above)
+            const b = this.bounds.get(item)!;
+            const bx = (b.minX + b.maxX) / 2 - x, bz = (b.minZ + b.maxZ) / 2 - z;
+            const bhx = (b.maxX - b.minX) / 2, bhz = (b.maxZ - b.minZ) / 2;
+            const localX = bx * cos - bz * sin;
+            const localZ = bx * sin + bz * cos;
+            const projX = bhx * Math.abs(cos) + bhz * Math.abs(sin);
+            const projZ = bhx * Math.abs(sin) + bhz * Math.abs(cos);
+            if (Math.abs(localX) > halfW + projX || Math.abs(localZ) > halfD + projZ) continue;
+            out.push(item);
+        }
+        return out;
+    }
+
+    // Walks the cells crossed by the ray in order (2D DDA on x/z) and asks `test`
+    // for the hit distance of each item met. Stops once no closer hit is possible.
+    // The direction need not be normalized: distances are in units of the ray parameter.
+    queryRay(ox: number, oz: number, dx: number, dz: number, maxDistance: number, test: (item: T) => number | null): RayHit<T> | null {
+        const id = ++this.queryId;
+        const result: { best: RayHit<T> | null } = { best: null };
+
+        const visitCell = (cx: number, cz: number) => {
+            const cell = this.cells.get(`${cx}:${cz}`);
+            if (!cell) return;
+            for (const item of cell) {
+                if (this.stamps.get(item) === id) continue;
+                this.stamps.set(item, id);
+                const d = test(item);
+                if (d === null || d < 0 || d > maxDistance) continue;
+                if (!result.best || d < result.best.distance) result.best = { item, distance: d };
+            }
+        };
+
+        let cx = Math.floor(ox / this.cellSize);
+        let cz = Math.floor(oz / this.cellSize);
+        const stepX = dx > 0 ? 1 : -1;
+        const stepZ = dz > 0 ? 1 : -1;
+        const tDeltaX = dx !== 0 ? this.cellSize / Math.abs(dx) : Infinity;
+        const tDeltaZ = dz !== 0 ? this.cellSize / Math.abs(dz) : Infinity;
+        const nextX = (dx > 0 ? cx + 1 : cx) * this.cellSize;
+        const nextZ = (dz > 0 ? cz + 1 : cz) * this.cellSize;
+        let tMaxX = dx !== 0 ? (nextX - ox) / dx : Infinity;
+        let tMaxZ = dz !== 0 ? (nextZ - oz) / dz : Infinity;
+        let tEnter = 0;
+
+        while (tEnter <= maxDistance) {
+            // Cells further along can only hold hits beyond the best one found so far
+            if (result.best && result.best.distance < tEnter) break;
+            visitCell(cx, cz);
+            if (tMaxX === Infinity && tMaxZ === Infinity) break;
+            if (tMaxX < tMaxZ) {
+                tEnter = tMaxX;
+                tMaxX += tDeltaX;
+                cx += stepX;
+            } else {
+                tEnter = tMaxZ;
+                tMaxZ += tDeltaZ;
+                cz += stepZ;
+            }
+        }
+        return result.best;
+    }
+
+    private forEachCell(b: Bounds2D, fn: (key: string) => void) {
+        const x0 = Math.floor(b.minX / this.cellSize), x1 = Math.floor(b.maxX / this.cellSize);
+        const z0 = Math.floor(b.minZ / this.cellSize), z1 = Math.floor(b.maxZ / this.cellSize);
+        for (let x = x0; x <= x1; x++) {
+            for (let z = z0; z <= z1; z++) fn(`${x}:${z}`);
+        }
+    }
+}
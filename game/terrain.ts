@@ -0,0 +1,44 @@
+import { Noise2D, fbm, getNoise, ridged, warpedFbm } from './noise';
+import { GRADE_BLEND, roadInfluenceAt } from './roads';
+
+// --- Terrain ---
+// Heights, roads and ground detail, all sampled from the seeded noise module.
+// Each layer samples its own far-off region of the noise plane so the layers
+// do not line up with each other.
+
+const HILL_SCALE = 0.008;
+const HILL_HEIGHT = 6;
+const RIDGE_SCALE = 0.004;
+const RIDGE_HEIGHT = 4;
+const LAND_OCTAVES = 4;
+const ROAD_OCTAVES = 2; // Roads are graded to the land without its finer bumps
+const DETAIL_GAIN = 0.3; // Per octave: finer octaves only roughen the surface, they should not steepen it
+const DIRT_SCALE = 0.08;
+
+// 0..1: 1 on the road surface, fading out over its verge.
+export const getRoadInfluence = (x: number, z: number, seed: number) => roadInfluenceAt(x, z, seed);
+
+// Rolling hills, with occasional ridge lines rising out of them. Fewer octaves
+// give a low-pass version of the same land.
+const landHeight = (noise: Noise2D, x: number, z: number, octaves: number) => {
+    const hills = (warpedFbm(noise, x * HILL_SCALE, z * HILL_SCALE, 0.8, { octaves, gain: DETAIL_GAIN }) + 1) / 2;
+    const ridge = ridged(noise, x * RIDGE_SCALE - 400, z * RIDGE_SCALE + 250, { octaves: octaves - 1, gain: DETAIL_GAIN });
+    return Math.pow(hills * HILL_HEIGHT, 1.2) + ridge * ridge * ridge * RIDGE_HEIGHT;
+};
+
+export const getTerrainHeight = (x: number, z: number, seed: number) => {
+    const noise = getNoise(seed);
+    let height = landHeight(noise, x, z, LAND_OCTAVES);
+
+    const grade = roadInfluenceAt(x, z, seed, GRADE_BLEND);
+    if (grade > 0) {
+        // Roads only follow the broad shape of the land; the verge eases back into it
+        height += (landHeight(noise, x, z, ROAD_OCTAVES) - height) * 0.9 * grade;
+    }
+
+    return height;
+};
+
+// How much bare dirt shows through the grass, 0..1.
+export const getDirtAmount = (x: number, z: number, seed: number) =>
+    (fbm(getNoise(seed), x * DIRT_SCALE - 700, z * DIRT_SCALE + 900, { octaves: 3 }) + 1) / 2;
@@ -0,0 +1,133 @@
+import { CHUNK_RES, CHUNK_SIZE, TERRAIN_LOD_RINGS } from './config';
+import { BIOMES, Biome, getBiome } from './biomes';
+import { getDirtAmount, getRoadInfluence, getTerrainHeight } from './terrain';
+
+// --- Terrain Meshing ---
+// Chunk meshes as plain typed arrays, so they can be built in a worker and
+// transferred to the main thread. Coarser rings use fewer quads; where a chunk
+// borders a coarser one, its edge vertices are pulled onto the neighbour's
+// edge so no cracks open between them.
+
+// Resolution of the neighbouring chunk across each edge
+export interface ChunkSeams {
+    north: number; // -z
+    south: number; // +z
+    west: number; // -x
+    east: number; // +x
+}
+
+export interface ChunkMeshRequest {
+    x: number;
+    z: number;
+    seed: number;
+    res: number; // Quads per side
+    seams: ChunkSeams;
+}
+
+export interface ChunkMeshData {
+    positions: Float32Array; // Local to the chunk's corner
+    normals: Float32Array;
+    colors: Float32Array;
+    indices: Uint16Array;
+}
+
+// Quads per side for a chunk `ring` chunks away from the player's.
+export const chunkResolution = (ring: number) =>
+    CHUNK_RES >> TERRAIN_LOD_RINGS.filter(r => ring > r).length;
+
+type Rgb = [number, number, number];
+
+// Hex colour to linear RGB, as THREE.Color does. Kept free of three.js so the
+// worker bundle stays small.
+const linearColor = (hex: string): Rgb => {
+    const n = parseInt(hex.slice(1), 16);
+    const toLinear = (c: number) => c < 0.04045 ? c * 0.0773993808 : Math.pow(c * 0.9478672986 + 0.0521327014, 2.4);
+    return [toLinear(((n >> 16) & 255) / 255), toLinear(((n >> 8) & 255) / 255), toLinear((n & 255) / 255)];
+};
+
+const grassColors = Object.fromEntries(
+    (Object.keys(BIOMES) as Biome[]).map(b => [b, linearColor(BIOMES[b].grass)])
+) as Record<Biome, Rgb>;
+const dirtColor = linearColor('#4d3319');
+const roadColor = linearColor('#8B7355');
+
+export const buildChunkMesh = ({ x, z, seed, res, seams }: ChunkMeshRequest): ChunkMeshData => {
+    const step = CHUNK_SIZE / res;
+    const worldX = x * CHUNK_SIZE;
+    const worldZ = z * CHUNK_SIZE;
+    const side = res + 1;
+
+    // Heights with a one-vertex border, so normals at the edges match the neighbours'
+    const padded = res + 3;
+    const heights = new Float32Array(padded * padded);
+    for (let j = 0; j < padded; j++) {
+        for (let i = 0; i < padded; i++) {
+            heights[j * padded + i] = getTerrainHeight(worldX + (i - 1) * step, worldZ + (j - 1) * step, seed);
+        }
+    }
+    const heightAt = (i: number, j: number) => heights[(j + 1) * padded + i + 1];
+
+    // Along an edge shared with a coarser chunk, lie on the straight line between its vertices
+    const stitched = (i: number, j: number) => {
+        const edge =
+            j === 0 ? seams.north : j === res ? seams.south : i === 0 ? seams.west : i === res ? seams.east : res;
+        if (edge >= res) return heightAt(i, j);
+        const ratio = res / edge;
+        const alongX = j === 0 || j === res;
+        const k = alongX ? i : j;
+        const k0 = k - (k % ratio);
+        if (k0 === k) return heightAt(i, j);
+        const t = (k - k0) / ratio;
+        const h0 = alongX ? heightAt(k0, j) : heightAt(i, k0);
+        const h1 = alongX ? heightAt(k0 + ratio, j) : heightAt(i, k0 + ratio);
+        return h0 + (h1 - h0) * t;
+    };
+
+    const count = side * side;
+    const positions = new Float32Array(count * 3);
+    const normals = new Float32Array(count * 3);
+    const colors = new Float32Array(count * 3);
+
+    for (let j = 0; j < side; j++) {
+        for (let i = 0; i < side; i++) {
+            const v = (j * side + i) * 3;
+            const px = worldX + i * step;
+            const pz = worldZ + j * step;
+            positions[v] = i * step;
+            positions[v + 1] = stitched(i, j);
+            positions[v + 2] = j * step;
+
+            // Central differences over the padded grid
+            const nx = heightAt(i - 1, j) - heightAt(i + 1, j);
+            const nz = heightAt(i, j - 1) - heightAt(i, j + 1);
+            const ny = 2 * step;
+            const len = Math.hypot(nx, ny, nz);
+            normals[v] = nx / len;
+            normals[v + 1] = ny / len;
+            normals[v + 2] = nz / len;
+
+            // Roads fade into the ground over their verge
+            const grass = grassColors[getBiome(px, pz, seed)];
+            const dirt = getDirtAmount(px, pz, seed) * 0.5;
+            const road = getRoadInfluence(px, pz, seed);
+            for (let c = 0; c < 3; c++) {
+                const ground = grass[c] + (dirtColor[c] - grass[c]) * dirt;
+                colors[v + c] = ground + (roadColor[c] - ground) * road;
+            }
+        }
+    }
+
+    const indices = new Uint16Array(res * res * 6);
+    let n = 0;
+    for (let j = 0; j < res; j++) {
+        for (let i = 0; i < res; i++) {
+            const a = j * side + i;
+            const b = a + side;
+            // Counter-clockwise seen from above
+            indices[n++] = a; indices[n++] = b; indices[n++] = a + 1;
+            indices[n++] = b; indices[n++] = b + 1; indices[n++] = a + 1;
+        }
+    }
+
+    return { positions, normals, colors, indices };
+};
@@ -0,0 +1,260 @@
+import { Obstacle } from '../types';
+import { CHUNK_SIZE } from './config';
+import { BUILDING_TEMPLATES, BuildingType, PartTemplate, box, placeBuilding, placeParts, rotateLocal } from './buildings';
+import { getRoadInfluence, getTerrainHeight } from './terrain';
+
+// --- Village Layout ---
+// A plaza with the market stall sits at the chunk centre. Streets run out of
+// it along the roads that reach the village (plus made-up lanes when there
+// are fewer than three), and building lots line both sides of each street.
+// Some villages close themselves in with a palisade, open where streets leave.
+
+const PLAZA_RADIUS = 8;
+const STREET_HALF_WIDTH = 3;
+const STREET_SETBACK = 10; // Lot centres from the street axis
+const LOT_DISTANCES = [12.5, 17, 22]; // Lot centres along each street, from the plaza centre
+const MIN_STREETS = 3;
+const CHURCH_DISTANCE = 16.5;
+const CHURCH_OFFSET = -1.5; // Centre of the church footprint, behind the nave's
+const PALISADE_CHANCE = 0.5;
+const PALISADE_RADIUS = 29;
+const PALISADE_SEGMENT = 4;
+const PALISADE_HEIGHT = 4;
+const GARDEN_CHANCE = 0.5;
+const TORCH_SPREAD = 1.4; // Torches stand this far outside a street's edge, either side
+
+// Village-wide buildings, placed once on the first lots that fit them
+const LANDMARKS: BuildingType[] = ['blacksmith', 'stables'];
+
+// Fence around a garden behind a cottage (its back wall is at z = -4)
+const GARDEN_FENCE: PartTemplate[] = [
+    box('fence:back', 'fence', 0, -9, 11, 1.2, 0.2),
+    box('fence:left', 'fence', -5.5, -6.5, 5, 1.2, 0.2, Math.PI / 2),
+    box('fence:right', 'fence', 5.5, -6.5, 5, 1.2, 0.2, Math.PI / 2),
+];
+const GARDEN_FOOTPRINT = { x: 0, z: -6.6, w: 11, d: 4.8 };
+
+export interface VillageLot {
+    x: number;
+    z: number;
+    r: number; // Radius of a circle enclosing everything built on the lot
+}
+
+export interface Village {
+    obstacles: Obstacle[];
+    lots: VillageLot[];
+}
+
+// Rotated rectangle on the ground, as claimed by a building lot
+interface Footprint {
+    x: number;
+    z: number;
+    rotation: number;
+    w: number;
+    d: number;
+}
+
+const angleDiff = (a: number, b: number) => Math.abs(Math.atan2(Math.sin(a - b), Math.cos(a - b)));
+
+// Points spread over a footprint (corners first), `n` per side.
+const samplePoints = (f: Footprint, n = 5) => {
+    const points: { x: number; z: number }[] = [];
+    for (let i = 0; i < n; i++) {
+        for (let j = 0; j < n; j++) {
+            const o = rotateLocal((i / (n - 1) - 0.5) * f.w, (j / (n - 1) - 0.5) * f.d, f.rotation);
+            points.push({ x: f.x + o.x, z: f.z + o.z });
+        }
+    }
+    return points;
+};
+
+// Separating axis test between two footprints.
+const footprintsOverlap = (a: Footprint, b: Footprint) => {
+    const ca = samplePoints(a, 2), cb = samplePoints(b, 2);
+    return [a.rotation, b.rotation].every(r => [0, Math.PI / 2].every(q => {
+        const ax = Math.cos(r + q), az = -Math.sin(r + q);
+        const pa = ca.map(p => p.x * ax + p.z * az), pb = cb.map(p => p.x * ax + p.z * az);
+        return Math.max(...pa) > Math.min(...pb) && Math.max(...pb) > Math.min(...pa);
+    }));
+};
+
+// Directions (radians, x = cos, z = sin) in which roads leave the plaza.
+const roadAngles = (cx: number, cz: number, seed: number): number[] => {
+    const samples = 72, radius = 20;
+    const onRoad = Array.from({ length: samples }, (_, i) => {
+        const a = (i / samples) * Math.PI * 2;
+        return getRoadInfluence(cx + Math.cos(a) * radius, cz + Math.sin(a) * radius, seed) > 0;
+    });
+    // Start the scan just after an off-road sample so no run wraps around
+    const start = onRoad.indexOf(false);
+    if (start < 0) return [];
+    const angles: number[] = [];
+    let run: number[] = [];
+    for (let k = 1; k <= samples; k++) {
+        const i = (start + k) % samples;
+        if (onRoad[i]) {
+            run.push(start + k);
+        } else if (run.length > 0) {
+            angles.push((((run[0] + run[run.length - 1]) / 2) / samples) * Math.PI * 2);
+            run = [];
+        }
+    }
+    return angles;
+};
+
+// Middle of the widest gap between the given directions.
+const widestGap = (angles: number[]): number => {
+    if (angles.length === 0) return 0;
+    const sorted = [...angles].map(a => ((a % (Math.PI * 2)) + Math.PI * 2) % (Math.PI * 2)).sort((a, b) => a - b);
+    let best = 0, bestMid = sorted[0] + Math.PI;
+    sorted.forEach((a, i) => {
+        const next = i + 1 < sorted.length ? sorted[i + 1] : sorted[0] + Math.PI * 2;
+        if (next - a > best) {
+            best = next - a;
+            bestMid = (a + next) / 2;
+        }
+    });
+    return bestMid;
+};
+
+export const generateVillage = (chunkX: number, chunkZ: number, seed: number, rand: (offset: number) => number): Village => {
+    const obstacles: Obstacle[] = [];
+    const lots: VillageLot[] = [];
+    const prefix = `${chunkX}:${chunkZ}`;
+    const cx = (chunkX + 0.5) * CHUNK_SIZE, cz = (chunkZ + 0.5) * CHUNK_SIZE;
+    const groundAt = (x: number, z: number) => getTerrainHeight(x, z, seed);
+
+    const streets = roadAngles(cx, cz, seed);
+    while (streets.length < MIN_STREETS) streets.push(widestGap(streets) + (rand(6000 + streets.length) - 0.5) * 0.3);
+
+    const hasPalisade = rand(6100) < PALISADE_CHANCE;
+    const maxReach = hasPalisade ? PALISADE_RADIUS - 1.5 : CHUNK_SIZE / 2;
+
+    // A footprint is buildable when it stays off the plaza, the streets, the roads and other lots
+    const claimed: Footprint[] = [];
+    const fits = (f: Footprint) => {
+        const points = samplePoints(f);
+        for (const p of points) {
+            const dist = Math.hypot(p.x - cx, p.z - cz);
+            if (dist < PLAZA_RADIUS || dist > maxReach) return false;
+            if (getRoadInfluence(p.x, p.z, seed) > 0) return false;
+        }
+        for (const a of streets) {
+            const along = points.map(p => (p.x - cx) * Math.cos(a) + (p.z - cz) * Math.sin(a));
+            const across = points.map(p => -(p.x - cx) * Math.sin(a) + (p.z - cz) * Math.cos(a));
+            if (Math.max(...along) > 0 && Math.min(...across) < STREET_HALF_WIDTH && Math.max(...across) > -STREET_HALF_WIDTH) return false;
+        }
+        return !claimed.some(c => footprintsOverlap(c, f));
+    };
+    const claim = (f: Footprint) => {
+        claimed.push(f);
+        lots.push({ x: f.x, z: f.z, r: Math.hypot(f.w, f.d) / 2 });
+    };
+    // Footprint of a building, which may be centred away from its origin
+    const footprintOf = (type: BuildingType, x: number, z: number, rotation: number, offsetZ = 0): Footprint => {
+        const { w, d } = BUILDING_TEMPLATES[type].footprint;
+        const o = rotateLocal(0, offsetZ, rotation);
+        return { x: x + o.x, z: z + o.z, rotation, w, d };
+    };
+
+    // Plaza: market stall in the middle, a well off to the side, torches where the streets come in
+    obstacles.push(...placeBuilding('market', cx, cz, groundAt(cx, cz), 0, `${prefix}:market`));
+    streets.forEach((a, s) => obstacles.push(...torchPair(`${prefix}:plaza${s}`, cx, cz, a, PLAZA_RADIUS - 0.5, seed)));
+    const quiet = widestGap(streets);
+    if (rand(6200) > 0.3) {
+        const wx = cx + Math.cos(quiet) * 6, wz = cz + Math.sin(quiet) * 6;
+        obstacles.push({
+            id: `${prefix}:well`, type: 'well',
+            position: { x: wx, y: groundAt(wx, wz), z: wz },
+            rotation: 0, scale: { x: 1, y: 1, z: 1 }, radius: 2
+        });
+    }
+
+    // Church across the quietest side of the plaza, door facing it. Its tower
+    // sticks out behind, so the footprint is centred a little back.
+    const churchX = cx + Math.cos(quiet) * CHURCH_DISTANCE, churchZ = cz + Math.sin(quiet) * CHURCH_DISTANCE;
+    const churchRot = Math.atan2(cx - churchX, cz - churchZ);
+    const church = footprintOf('church', churchX, churchZ, churchRot, CHURCH_OFFSET);
+    if (fits(church)) {
+        obstacles.push(...placeBuilding('church', churchX, churchZ, groundAt(churchX, churchZ), churchRot, `${prefix}:church`));
+        claim(church);
+    }
+
+    // Lots on both sides of every street, in a seeded order
+    const candidates: { x: number; z: number; rotation: number; order: number }[] = [];
+    streets.forEach((a, s) => {
+        const dirX = Math.cos(a), dirZ = Math.sin(a);
+        LOT_DISTANCES.forEach((d, k) => [-1, 1].forEach(side => {
+            // Perpendicular offset; the door (local +z) faces back towards the street
+            const x = cx + dirX * d - dirZ * side * STREET_SETBACK;
+            const z = cz + dirZ * d + dirX * side * STREET_SETBACK;
+            candidates.push({ x, z, rotation: Math.atan2(dirZ * side, -dirX * side), order: rand(6300 + s * 8 + k * 2 + (side + 1) / 2) });
+        }));
+    });
+    candidates.sort((a, b) => a.order - b.order);
+
+    const landmarks = [...LANDMARKS];
+    candidates.forEach((lot, i) => {
+        const landmark = landmarks.find(t => fits(footprintOf(t, lot.x, lot.z, lot.rotation)));
+        const type: BuildingType = landmark || (rand(6400 + i) > 0.8 ? 'tower' : 'cottage');
+        const footprint = footprintOf(type, lot.x, lot.z, lot.rotation);
+        if (!landmark && !fits(footprint)) return;
+        if (landmark) landmarks.splice(landmarks.indexOf(landmark), 1);
+
+        const y = groundAt(lot.x, lot.z);
+        const id = `${prefix}:lot${i}`;
+        obstacles.push(...placeBuilding(type, lot.x, lot.z, y, lot.rotation, id, rand(6500 + i)));
+        claim(footprint);
+
+        if (type !== 'cottage' || rand(6600 + i) > GARDEN_CHANCE) return;
+        const g = rotateLocal(GARDEN_FOOTPRINT.x, GARDEN_FOOTPRINT.z, lot.rotation);
+        const garden = { x: lot.x + g.x, z: lot.z + g.z, rotation: lot.rotation, w: GARDEN_FOOTPRINT.w, d: GARDEN_FOOTPRINT.d };
+        if (!fits(garden)) return;
+        obstacles.push(...placeParts(GARDEN_FENCE, lot.x, lot.z, y, lot.rotation, id));
+        claim(garden);
+    });
+
+    if (hasPalisade) obstacles.push(...generatePalisade(prefix, cx, cz, streets, seed));
+    return { obstacles, lots };
+};
+
+// Log wall around the village, with gates wherever a street or road passes.
+const generatePalisade = (prefix: string, cx: number, cz: number, streets: number[], seed: number): Obstacle[] => {
+    const out: Obstacle[] = [];
+    const count = Math.ceil((Math.PI * 2 * PALISADE_RADIUS) / PALISADE_SEGMENT);
+    const length = 2 * PALISADE_RADIUS * Math.sin(Math.PI / count) + 0.3; // Chord, slightly overlapping
+    const gate = (STREET_HALF_WIDTH + 1) / PALISADE_RADIUS;
+    for (let i = 0; i < count; i++) {
+        const a = (i / count) * Math.PI * 2;
+        if (streets.some(s => angleDiff(s, a) < gate)) continue;
+        const x = cx + Math.cos(a) * PALISADE_RADIUS, z = cz + Math.sin(a) * PALISADE_RADIUS;
+        if (getRoadInfluence(x, z, seed) > 0) continue;
+        out.push({
+            id: `${prefix}:palisade:${i}`,
+            type: 'palisade',
+            position: { x, y: getTerrainHeight(x, z, seed) + PALISADE_HEIGHT / 2, z },
+            // Lines the segment's length (local x) up with the circle's tangent
+            rotation: -a - Math.PI / 2,
+            scale: { x: 1, y: 1, z: 1 },
+            radius: 1,
+            dims: { w: length, h: PALISADE_HEIGHT, d: 0.8 }
+        });
+    }
+    streets.forEach((a, s) => out.push(...torchPair(`${prefix}:gate${s}`, cx, cz, a, PALISADE_RADIUS - 1.2, seed)));
+    return out;
+};
+
+// Two torches flanking a street at `distance` from the plaza centre.
+const torchPair = (prefix: string, cx: number, cz: number, angle: number, distance: number, seed: number): Obstacle[] =>
+    [-1, 1].map(side => {
+        const offset = Math.asin(Math.min(1, (STREET_HALF_WIDTH + TORCH_SPREAD) / distance)) * side;
+        const x = cx + Math.cos(angle + offset) * distance, z = cz + Math.sin(angle + offset) * distance;
+        return {
+            id: `${prefix}:torch${side > 0 ? 'r' : 'l'}`,
+            type: 'torch',
+            position: { x, y: getTerrainHeight(x, z, seed), z },
+            rotation: 0,
+            scale: { x: 1, y: 1, z: 1 },
+            radius: 0.3
+        };
+    });
@@ -0,0 +1,210 @@
+import { BossType, EnemyType, WavePhase } from '../types';
+import { BOSS_CONFIG } from './config';
+
+// --- Wave Data ---
+// Designers tune waves here: the director only reads these tables.
+
+export interface WaveDefinition {
+    budget: number; // Threat points spent on hostile spawns this wave
+    composition: Partial<Record<EnemyType, number>>; // Relative spawn weights
+    spawnInterval: number; // ms between spawn attempts
+    maxAlive: number; // Hostiles allowed on the field at once
+    intermission: number; // ms of calm before this wave starts
+    villagerChance: number; // Chance a civilian wanders in with each spawn
+    boss?: BossType; // Arrives with its escort as the wave starts
+}
+
+// Threat cost of each hostile. Villagers are civilians: free and never block a wave clear.
+// Bosses are never drawn from the budget either, they come with their wave.
+export const ENEMY_COST: Record<EnemyType, number> = {
+    peasant: 1,
+    knight: 2,
+    heavy: 5,
+    archer: 2,
+    crossbowman: 3,
+    cavalry: 4,
+    villager: 0,
+    king: 0,
+    ram: 0,
+};
+
+export const WAVES: WaveDefinition[] = [
+    { budget: 6, composition: { peasant: 1 }, spawnInterval: 1500, maxAlive: 4, intermission: 4000, villagerChance: 0.2 },
+    { budget: 10, composition: { peasant: 3, knight: 1 }, spawnInterval: 1400, maxAlive: 6, intermission: 8000, villagerChance: 0.2 },
+    { budget: 16, composition: { peasant: 2, knight: 2, archer: 1 }, spawnInterval: 1300, maxAlive: 8, intermission: 8000, villagerChance: 0.2 },
+    { budget: 24, composition: { peasant: 2, knight: 3, heavy: 1, archer: 1, crossbowman: 1 }, spawnInterval: 1200, maxAlive: 10, intermission: 10000, villagerChance: 0.15 },
+    { budget: 34, composition: { peasant: 1, knight: 3, heavy: 2, archer: 2, crossbowman: 1, cavalry: 1 }, spawnInterval: 1000, maxAlive: 12, intermission: 10000, villagerChance: 0.15, boss: 'king' },
+];
+
+// Past the authored table the last wave repeats with a growing budget.
+const BUDGET_GROWTH = 1.25;
+
+// Every BOSS_INTERVAL-th wave past the table brings a boss, taking turns.
+export const BOSS_INTERVAL = 5;
+const BOSS_ROTATION: BossType[] = ['king', 'ram'];
+
+// Waves that start after dark bring more threat, weighted towards armour.
+const NIGHT_BUDGET = 1.4;
+const NIGHT_EXTRA_WEIGHTS: Partial<Record<EnemyType, number>> = { knight: 1, heavy: 1 };
+
+export const nightWave = (def: WaveDefinition): WaveDefinition => {
+    const composition = { ...def.composition };
+    (Object.keys(NIGHT_EXTRA_WEIGHTS) as EnemyType[]).forEach(t => {
+        composition[t] = (composition[t] || 0) + (NIGHT_EXTRA_WEIGHTS[t] || 0);
+    });
+    return { ...def, budget: Math.round(def.budget * NIGHT_BUDGET), composition, villagerChance: def.villagerChance / 2 };
+};
+
+export const getWaveDefinition = (wave: number, table: WaveDefinition[] = WAVES): WaveDefinition => {
+    const index = Math.max(0, wave - 1);
+    if (index < table.length) return table[index];
+    const last = table[table.length - 1];
+    const extra = index - (table.length - 1);
+    return {
+        ...last,
+        budget: Math.round(last.budget * Math.pow(BUDGET_GROWTH, extra)),
+        maxAlive: last.maxAlive + extra,
+        spawnInterval: Math.max(400, last.spawnInterval - extra * 50),
+        boss: wave % BOSS_INTERVAL === 0 ? BOSS_ROTATION[(wave / BOSS_INTERVAL - 1) % BOSS_ROTATION.length] : undefined,
+    };
+};
+
+const pickWeighted = (weights: Partial<Record<EnemyType, number>>, maxCost: number, random: () => number): EnemyType | null => {
+    const options = (Object.keys(weights) as EnemyType[])
+        .filter(t => (weights[t] || 0) > 0 && ENEMY_COST[t] > 0 && ENEMY_COST[t] <= maxCost);
+    if (options.length === 0) return null;
+    const total = options.reduce((sum, t) => sum + (weights[t] || 0), 0);
+    let roll = random() * total;
+    for (const t of options) {
+        roll -= weights[t] || 0;
+        if (roll <= 0) return t;
+    }
+    return options[options.length - 1];
+};
+
+// Escort counts as a spawn list
+export const escortOf = (escort: Partial<Record<EnemyType, number>>): EnemyType[] =>
+    (Object.keys(escort) as EnemyType[]).flatMap(t => Array.from({ length: escort[t] || 0 }, () => t));
+
+// --- Director ---
+
+export interface WaveDirectorCallbacks {
+    onWaveStart?: (wave: number, night: boolean) => void;
+    onWaveCleared?: (wave: number) => void;
+    isNight?: () => boolean; // Asked when a wave starts
+}
+
+// Everything needed to resume the director mid-run.
+export interface WaveDirectorSnapshot {
+    wave: number;
+    phase: WavePhase;
+    remainingBudget: number;
+    phaseStart: number;
+    lastSpawn: number;
+    night?: boolean; // Missing in saves from before the day/night cycle
+}
+
+export class WaveDirector {
+    wave = 0;
+    phase: WavePhase = 'intermission';
+    remainingBudget = 0;
+    night = false; // Whether the current wave started after dark
+    private phaseStart = -1;
+    private lastSpawn = 0;
+
+    constructor(
+        private callbacks: WaveDirectorCallbacks = {},
+        private table: WaveDefinition[] = WAVES,
+        private random: () => number = Math.random
+    ) {}
+
+    reset() {
+        this.wave = 0;
+        this.phase = 'intermission';
+        this.remainingBudget = 0;
+        this.night = false;
+        this.phaseStart = -1;
+        this.lastSpawn = 0;
+    }
+
+    snapshot(): WaveDirectorSnapshot {
+        return {
+            wave: this.wave,
+            phase: this.phase,
+            remainingBudget: this.remainingBudget,
+            phaseStart: this.phaseStart,
+            lastSpawn: this.lastSpawn,
+            night: this.night,
+        };
+    }
+
+    restore(s: WaveDirectorSnapshot) {
+        this.wave = s.wave;
+        this.phase = s.phase;
+        this.remainingBudget = s.remainingBudget;
+        this.phaseStart = s.phaseStart;
+        this.lastSpawn = s.lastSpawn;
+        this.night = !!s.night;
+    }
+
+    // Time left before the next wave starts, in ms (0 while a wave is active).
+    timeUntilNextWave(time: number): number {
+        if (this.phase !== 'intermission' || this.phaseStart < 0) return 0;
+        const next = getWaveDefinition(this.wave + 1, this.table);
+        return Math.max(0, this.phaseStart + next.intermission - time);
+    }
+
+    private currentDefinition(): WaveDefinition {
+        const def = getWaveDefinition(this.wave, this.table);
+        return this.night ? nightWave(def) : def;
+    }
+
+    // Puts a hostile that left the field alive back into the budget, to be spawned again.
+    refund(type: EnemyType) {
+        if (this.phase === 'active') this.remainingBudget += ENEMY_COST[type];
+    }
+
+    // Advances the wave clock and returns the enemy types to spawn this tick.
+    update(time: number, aliveHostiles: number): EnemyType[] {
+        if (this.phaseStart < 0) this.phaseStart = time;
+
+        if (this.phase === 'intermission') {
+            if (this.timeUntilNextWave(time) > 0) return [];
+            this.wave++;
+            this.phase = 'active';
+            this.phaseStart = time;
+            this.lastSpawn = time;
+            this.night = !!this.callbacks.isNight?.();
+            const def = this.currentDefinition();
+            this.remainingBudget = def.budget;
+            this.callbacks.onWaveStart?.(this.wave, this.night);
+            return def.boss ? [def.boss, ...escortOf(BOSS_CONFIG[def.boss].escort)] : [];
+        }
+
+        const def = this.currentDefinition();
+
+        if (this.remainingBudget <= 0 && aliveHostiles === 0) {
+            this.phase = 'intermission';
+            this.phaseStart = time;
+            this.callbacks.onWaveCleared?.(this.wave);
+            return [];
+        }
+
+        if (time - this.lastSpawn < def.spawnInterval) return [];
+        this.lastSpawn = time;
+
+        const spawns: EnemyType[] = [];
+        if (this.remainingBudget > 0 && aliveHostiles < def.maxAlive) {
+            const type = pickWeighted(def.composition, this.remainingBudget, this.random);
+            if (type) {
+                this.remainingBudget -= ENEMY_COST[type];
+                spawns.push(type);
+            } else {
+                // Leftover budget too small for anything in the table
+                this.remainingBudget = 0;
+            }
+        }
+        if (spawns.length > 0 && this.random() < def.villagerChance) spawns.push('villager');
+        return spawns;
+    }
+}
@@ -0,0 +1,41 @@
+import { WeaponDefinition, WeaponId, WeaponSlot } from '../types';
+
+// --- Weapon Data ---
+
+export const WEAPONS: Record<WeaponId, WeaponDefinition> = {
+    pistol: {
+        id: 'pistol', name: 'PISTOL', automatic: false,
+        fireRate: 180, damage: 30, falloffStart: 15, falloffEnd: 50, minDamageScale: 0.5,
+        spread: 0.004, pellets: 1,
+        magazineSize: 12, reserve: 48, maxReserve: 96, reloadTime: 1000,
+    },
+    shotgun: {
+        id: 'shotgun', name: 'SHOTGUN', automatic: false,
+        fireRate: 800, damage: 18, falloffStart: 5, falloffEnd: 25, minDamageScale: 0.1,
+        spread: 0.08, pellets: 8,
+        magazineSize: 6, reserve: 24, maxReserve: 48, reloadTime: 2200,
+    },
+    ak47: {
+        id: 'ak47', name: 'AK-47', automatic: true,
+        fireRate: 100, damage: 35, falloffStart: 30, falloffEnd: 90, minDamageScale: 0.6,
+        spread: 0.012, pellets: 1,
+        magazineSize: 30, reserve: 90, maxReserve: 240, reloadTime: 1800,
+    },
+};
+
+// Slot order matches the number keys
+export const STARTING_LOADOUT: WeaponId[] = ['pistol', 'shotgun', 'ak47'];
+
+export const createWeaponSlot = (id: WeaponId): WeaponSlot => ({
+    id,
+    ammo: WEAPONS[id].magazineSize,
+    reserve: WEAPONS[id].reserve,
+});
+
+// Linear falloff between falloffStart and falloffEnd.
+export const damageAtDistance = (def: WeaponDefinition, distance: number): number => {
+    if (distance <= def.falloffStart) return def.damage;
+    if (distance >= def.falloffEnd) return def.damage * def.minDamageScale;
+    const k = (distance - def.falloffStart) / (def.falloffEnd - def.falloffStart);
+    return def.damage * (1 - k * (1 - def.minDamageScale));
+};
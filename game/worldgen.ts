@@ -0,0 +1,206 @@
+import { Obstacle } from '../types';
+import { CHUNK_SIZE } from './config';
+import { BIOMES, BiomeDefinition, getBiome } from './biomes';
+import { getChunkJunctions, isVillageChunk, villagesNear } from './roads';
+import { Rng, hashString } from './random';
+import { getRoadInfluence, getTerrainHeight } from './terrain';
+import { generateVillage } from './villages';
+
+// --- Generation Logic ---
+
+// rand(offset) is a fixed draw per chunk and offset, so each feature reads
+// the same values however many draws the others make.
+const chunkRandom = (chunkX: number, chunkZ: number, worldSeed: number) => {
+    const chunkSeed = hashString(`${worldSeed}:${chunkX}:${chunkZ}`);
+    return (offset: number) => new Rng(chunkSeed + offset).next();
+};
+
+// --- Villages ---
+
+const NAME_STARTS = ['Ash', 'Black', 'Bram', 'Cold', 'Elder', 'Glen', 'Hart', 'Kings', 'Mill', 'Oak', 'Raven', 'Stone', 'Thorn', 'Wolf'];
+const NAME_ENDS = ['bury', 'ford', 'ham', 'ley', 'mere', 'stead', 'ton', 'wick', 'wood', 'by'];
+
+export const villageName = (chunkX: number, chunkZ: number, worldSeed: number) => {
+    const rand = chunkRandom(chunkX, chunkZ, worldSeed);
+    return NAME_STARTS[Math.floor(rand(7001) * NAME_STARTS.length)] + NAME_ENDS[Math.floor(rand(7002) * NAME_ENDS.length)];
+};
+
+const nearestVillage = (x: number, z: number, worldSeed: number) => {
+    const site = villagesNear(x, z, worldSeed)[0];
+    if (!site) return null;
+    return { x: site.x, z: site.z, name: villageName(site.chunkX, site.chunkZ, worldSeed), dist: Math.hypot(site.x - x, site.z - z) };
+};
+
+// --- Scatter ---
+
+const SPAWN_CLEARANCE = 25; // Keeps large obstacles off the player's start point
+
+interface Footprint { x: number; z: number; r: number }
+
+const overlaps = (placed: Footprint[], x: number, z: number, r: number) =>
+    placed.some(p => Math.hypot(p.x - x, p.z - z) < p.r + r);
+
+// Road-free over the whole footprint, sampled at the centre and eight points of its rim.
+const offRoad = (x: number, z: number, r: number, worldSeed: number) => {
+    if (getRoadInfluence(x, z, worldSeed) > 0) return false;
+    for (let i = 0; i < 8 && r > 0; i++) {
+        const a = (i / 8) * Math.PI * 2;
+        if (getRoadInfluence(x + Math.cos(a) * r, z + Math.sin(a) * r, worldSeed) > 0) return false;
+    }
+    return true;
+};
+
+const rangeCount = ([min, max]: [number, number], roll: number) => min + Math.floor(roll * (max - min + 1));
+
+const generateMountains = (chunkX: number, chunkZ: number, worldSeed: number, rand: (o: number) => number, placed: Footprint[]): Obstacle[] => {
+    const out: Obstacle[] = [];
+    const mx = chunkX * CHUNK_SIZE + CHUNK_SIZE * (0.3 + rand(4000) * 0.4);
+    const mz = chunkZ * CHUNK_SIZE + CHUNK_SIZE * (0.3 + rand(4001) * 0.4);
+    if (Math.hypot(mx, mz) < SPAWN_CLEARANCE + 20) return out;
+    // Massifs spill over chunk borders: keep them away from neighbouring villages
+    for (let dx = -1; dx <= 1; dx++) {
+        for (let dz = -1; dz <= 1; dz++) if (isVillageChunk(chunkX + dx, chunkZ + dz, worldSeed)) return out;
+    }
+    const peaks = 3 + Math.floor(rand(4002) * 3);
+    for (let i = 0; i < peaks; i++) {
+        // The first peak is the summit, the others lean against it
+        const main = i === 0;
+        const r = main ? 8 + rand(4010 + i) * 4 : 4 + rand(4010 + i) * 3;
+        const angle = rand(4020 + i) * Math.PI * 2;
+        const dist = main ? 0 : 6 + rand(4030 + i) * 6;
+        const x = mx + Math.cos(angle) * dist, z = mz + Math.sin(angle) * dist;
+        if (!offRoad(x, z, r, worldSeed) || overlaps(placed, x, z, r * 0.5)) continue;
+        const height = main ? 18 + rand(4040) * 12 : 8 + rand(4040 + i) * 8;
+        out.push({
+            id: `${chunkX}:${chunkZ}:mountain:${i}`,
+            type: 'mountain',
+            position: { x, y: getTerrainHeight(x, z, worldSeed) - 1, z },
+            rotation: rand(4050 + i) * Math.PI,
+            scale: { x: r, y: height, z: r },
+            radius: r * 0.85 // The slopes are walkable a little way up
+        });
+    }
+    out.forEach(o => placed.push({ x: o.position.x, z: o.position.z, r: o.scale.x }));
+    return out;
+};
+
+const generateRuins = (chunkX: number, chunkZ: number, worldSeed: number, rand: (o: number) => number, placed: Footprint[]): Obstacle[] => {
+    const out: Obstacle[] = [];
+    const rx = chunkX * CHUNK_SIZE + CHUNK_SIZE * (0.2 + rand(3000) * 0.6);
+    const rz = chunkZ * CHUNK_SIZE + CHUNK_SIZE * (0.2 + rand(3001) * 0.6);
+    if (Math.hypot(rx, rz) < SPAWN_CLEARANCE || overlaps(placed, rx, rz, 8)) return out;
+    // Broken walls around a vanished building, roughly sharing its orientation
+    const baseRot = rand(3002) * Math.PI;
+    const segments = 3 + Math.floor(rand(3003) * 4);
+    for (let i = 0; i < segments; i++) {
+        const angle = rand(3010 + i) * Math.PI * 2;
+        const dist = 2 + rand(3020 + i) * 6;
+        const x = rx + Math.cos(angle) * dist, z = rz + Math.sin(angle) * dist;
+        const w = 2 + rand(3030 + i) * 3;
+        if (!offRoad(x, z, w / 2, worldSeed)) continue;
+        const h = 1 + rand(3040 + i) * 2.5;
+        out.push({
+            id: `${chunkX}:${chunkZ}:ruin:${i}`,
+            type: 'ruin',
+            position: { x, y: getTerrainHeight(x, z, worldSeed) + h / 2, z },
+            rotation: baseRot + (rand(3050 + i) > 0.5 ? Math.PI / 2 : 0),
+            scale: { x: 1, y: 1, z: 1 },
+            radius: 1,
+            dims: { w, h, d: 0.8 }
+        });
+    }
+    placed.push({ x: rx, z: rz, r: 8 });
+    return out;
+};
+
+const generateRocks = (chunkX: number, chunkZ: number, worldSeed: number, rand: (o: number) => number, biome: BiomeDefinition, placed: Footprint[]): Obstacle[] => {
+    const out: Obstacle[] = [];
+    const count = rangeCount(biome.rocks, rand(2000));
+    for (let i = 0; i < count; i++) {
+        const x = chunkX * CHUNK_SIZE + rand(2010 + i) * CHUNK_SIZE;
+        const z = chunkZ * CHUNK_SIZE + rand(2030 + i) * CHUNK_SIZE;
+        const s = 0.6 + rand(2050 + i) * 1.4;
+        if (!offRoad(x, z, 0, worldSeed) || overlaps(placed, x, z, s)) continue;
+        out.push({
+            id: `${chunkX}:${chunkZ}:rock:${i}`,
+            type: 'rock',
+            position: { x, y: getTerrainHeight(x, z, worldSeed), z },
+            rotation: rand(2070 + i) * Math.PI * 2,
+            scale: { x: s, y: s * (0.6 + rand(2090 + i) * 0.5), z: s },
+            radius: s * 0.9
+        });
+    }
+    return out;
+};
+
+// One signpost beside the first road crossing in the chunk.
+const generateSignpost = (chunkX: number, chunkZ: number, worldSeed: number): Obstacle[] => {
+    const junction = getChunkJunctions(chunkX, chunkZ, worldSeed)[0];
+    if (!junction) return [];
+    const village = nearestVillage(junction.x, junction.z, worldSeed);
+    if (!village) return [];
+    // Stand on the verge, not in the middle of the crossing
+    for (let dist = 5; dist <= 10; dist++) {
+        for (let k = 0; k < 8; k++) {
+            const a = (k / 8) * Math.PI * 2;
+            const x = junction.x + Math.cos(a) * dist, z = junction.z + Math.sin(a) * dist;
+            if (getRoadInfluence(x, z, worldSeed) > 0) continue;
+            return [{
+                id: `${chunkX}:${chunkZ}:signpost`,
+                type: 'signpost',
+                position: { x, y: getTerrainHeight(x, z, worldSeed), z },
+                // Turns the board's +x end towards the village
+                rotation: Math.atan2(-(village.z - z), village.x - x),
+                scale: { x: 1, y: 1, z: 1 },
+                radius: 0.3,
+                label: `${village.name} ${Math.round(village.dist)}m`
+            }];
+        }
+    }
+    return [];
+};
+
+export const generateChunk = (chunkX: number, chunkZ: number, worldSeed: number): Obstacle[] => {
+  const obstacles: Obstacle[] = [];
+  const getRand = chunkRandom(chunkX, chunkZ, worldSeed);
+
+  const worldX = chunkX * CHUNK_SIZE;
+  const worldZ = chunkZ * CHUNK_SIZE;
+  const centerX = worldX + CHUNK_SIZE / 2;
+  const centerZ = worldZ + CHUNK_SIZE / 2;
+  const isVillage = isVillageChunk(chunkX, chunkZ, worldSeed);
+  const biome = BIOMES[getBiome(centerX, centerZ, worldSeed)];
+  const placed: Footprint[] = [];
+
+  if (isVillage) {
+      const village = generateVillage(chunkX, chunkZ, worldSeed, getRand);
+      obstacles.push(...village.obstacles);
+      placed.push(...village.lots);
+  }
+
+  if (!isVillage) {
+      if (getRand(4100) < biome.mountainChance) obstacles.push(...generateMountains(chunkX, chunkZ, worldSeed, getRand, placed));
+      if (getRand(3100) < biome.ruinChance) obstacles.push(...generateRuins(chunkX, chunkZ, worldSeed, getRand, placed));
+      obstacles.push(...generateRocks(chunkX, chunkZ, worldSeed, getRand, biome, placed));
+  }
+  obstacles.push(...generateSignpost(chunkX, chunkZ, worldSeed));
+
+  const treeCount = isVillage ? 2 : rangeCount(biome.trees, getRand(1));
+  for (let i = 0; i < treeCount; i++) {
+      const lx = getRand(i * 10) * CHUNK_SIZE - (CHUNK_SIZE/2);
+      const lz = getRand(i * 10 + 1) * CHUNK_SIZE - (CHUNK_SIZE/2);
+      const wx = worldX + lx + CHUNK_SIZE/2;
+      const wz = worldZ + lz + CHUNK_SIZE/2;
+      if (getRoadInfluence(wx, wz, worldSeed) > 0 || overlaps(placed, wx, wz, 1)) continue;
+      const y = getTerrainHeight(wx, wz, worldSeed);
+      obstacles.push({
+          id: `${chunkX}:${chunkZ}:tree:${i}`,
+          type: 'tree',
+          position: { x: wx, y: y, z: wz },
+          rotation: getRand(i * 10 + 2) * Math.PI,
+          scale: { x: 1 + getRand(i)*0.5, y: 1 + getRand(i+5), z: 1 + getRand(i)*0.5 },
+          radius: 1
+      });
+  }
+  return obstacles;
+};
@@ -0,0 +1,33 @@
+import { CommentaryType } from "../types";
+import { CommentaryProvider } from "./commentary";
+
+// Offline lines, used when Gemini is unavailable and in tests.
+const CANNED_LINES: Record<CommentaryType, string[]> = {
+  intro: [
+    "Un mec avec une AK contre des chevaliers ? GG EZ... ou pas.",
+    "Le voyageur temporel est dans la place, les chevaliers vont rage quit !",
+  ],
+  killstreak: [
+    "Killstreak de malade ! Il farm les chevaliers comme des mobs !",
+    "C'est du carnage, il est full tryhard là !",
+  ],
+  low_health: [
+    "Il est one shot ! Soigne-toi, vite !!",
+    "Oulah, plus de PV, ça sent le respawn...",
+  ],
+  wave_start: [
+    "Nouvelle vague ! Ils arrivent en mode zerg rush !",
+    "Encore des chevaliers ? Ils ont pas compris le délire...",
+  ],
+  shop_buy: [
+    "Petit passage au shop, le stuff est validé !",
+    "Achat rentable, il se prépare pour le late game.",
+  ],
+};
+
+export const createCannedProvider = (random: () => number = Math.random): CommentaryProvider => ({
+  generate: async (type) => {
+    const lines = CANNED_LINES[type];
+    return lines[Math.floor(random() * lines.length)];
+  }
+});
@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CommentaryContext, CommentaryType } from '../types';
+import { CommentaryProvider, CommentaryScheduler, withFallback } from './commentary';
+import { GameEvent } from './events';
+
+const context = (score = 0): CommentaryContext => ({ score, wave: 1, health: 100, gold: 0, killStreak: 0, enemiesKilled: {} });
+
+const event = (type: CommentaryType, score = 0): GameEvent => ({ type, context: context(score) });
+
+// Answers with the event type and the score it was asked about
+const stubProvider = () => {
+    const generate = vi.fn(async (type: CommentaryType, ctx: CommentaryContext) => `${type}:${ctx.score}`);
+    return { provider: { generate } as CommentaryProvider, generate };
+};
+
+describe('CommentaryScheduler', () => {
+    let lines: string[] = [];
+    const onLine = (line: string) => { lines.push(line); };
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        lines = [];
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('collapses a burst of one event type into a single request once it settles', async () => {
+        const { provider, generate } = stubProvider();
+        const scheduler = new CommentaryScheduler(provider, onLine, { debounce: 400, minInterval: 0 });
+
+        for (let score = 1; score <= 3; score++) {
+            scheduler.request(event('killstreak', score));
+            await vi.advanceTimersByTimeAsync(300);
+        }
+        expect(generate).not.toHaveBeenCalled();
+
+        await vi.advanceTimersByTimeAsync(100);
+        expect(generate).toHaveBeenCalledTimes(1);
+        expect(lines).toEqual(['killstreak:3']);
+    });
+
+    it('spaces requests at least minInterval apart', async () => {
+        const { provider, generate } = stubProvider();
+        const scheduler = new CommentaryScheduler(provider, onLine, { debounce: 0, minInterval: 5000 });
+
+        scheduler.request(event('wave_start'));
+        await vi.advanceTimersByTimeAsync(0);
+        scheduler.request(event('low_health'));
+        await vi.advanceTimersByTimeAsync(4999);
+        expect(generate).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(1);
+        expect(lines).toEqual(['wave_start:0', 'low_health:0']);
+    });
+
+    it('drops the oldest pending events past maxQueue', async () => {
+        const { provider } = stubProvider();
+        const scheduler = new CommentaryScheduler(provider, onLine, { debounce: 100, minInterval: 0, maxQueue: 2 });
+
+        scheduler.request(event('intro'));
+        scheduler.request(event('wave_start'));
+        scheduler.request(event('shop_buy'));
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(lines).toEqual(['wave_start:0', 'shop_buy:0']);
+    });
+
+    it('requests nothing after being disposed', async () => {
+        const { provider, generate } = stubProvider();
+        const scheduler = new CommentaryScheduler(provider, onLine, { debounce: 100 });
+
+        scheduler.request(event('intro'));
+        scheduler.dispose();
+        await vi.advanceTimersByTimeAsync(10000);
+
+        expect(generate).not.toHaveBeenCalled();
+    });
+});
+
+describe('withFallback', () => {
+    const fallback: CommentaryProvider = { generate: async type => `canned ${type}` };
+
+    it('keeps the primary line when there is one', async () => {
+        const { provider } = stubProvider();
+        await expect(withFallback(provider, fallback).generate('intro', context(7))).resolves.toBe('intro:7');
+    });
+
+    it('falls back when the primary throws or answers nothing', async () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const failing: CommentaryProvider = { generate: async () => { throw new Error('quota exhausted'); } };
+        const silent: CommentaryProvider = { generate: async () => '' };
+
+        await expect(withFallback(failing, fallback).generate('intro', context())).resolves.toBe('canned intro');
+        await expect(withFallback(silent, fallback).generate('intro', context())).resolves.toBe('canned intro');
+        expect(warn).toHaveBeenCalledTimes(1);
+        warn.mockRestore();
+    });
+});
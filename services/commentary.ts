@@ -0,0 +1,89 @@
+import { CommentaryContext, CommentaryType } from "../types";
+import { GameEvent } from "./events";
+
+export interface CommentaryProvider {
+  generate: (type: CommentaryType, context: CommentaryContext) => Promise<string>;
+}
+
+// Uses `primary` and falls back to `fallback` when it fails or returns nothing
+// (no API key, offline, quota exhausted...).
+export const withFallback = (primary: CommentaryProvider, fallback: CommentaryProvider): CommentaryProvider => ({
+  generate: async (type, context) => {
+    try {
+      const line = await primary.generate(type, context);
+      if (line) return line;
+    } catch (error) {
+      console.warn("Commentary provider failed, using fallback:", error);
+    }
+    return fallback.generate(type, context);
+  }
+});
+
+export interface CommentarySchedulerOptions {
+  minInterval: number; // ms between two provider requests
+  debounce: number; // ms to wait for an event burst to settle
+  maxQueue: number; // pending events kept, oldest dropped first
+}
+
+const DEFAULT_OPTIONS: CommentarySchedulerOptions = {
+  minInterval: 6000,
+  debounce: 400,
+  maxQueue: 3,
+};
+
+// Serializes commentary requests: bursts of the same event type collapse into
+// one, at most one request is in flight, and requests are spaced out so a
+// busy fight does not hammer the provider.
+export class CommentaryScheduler {
+  private queue: GameEvent[] = [];
+  private busy = false;
+  private lastRequest = -Infinity;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private options: CommentarySchedulerOptions;
+
+  constructor(
+    private provider: CommentaryProvider,
+    private onLine: (line: string, event: GameEvent) => void,
+    options: Partial<CommentarySchedulerOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  request(event: GameEvent) {
+    this.queue = this.queue.filter(e => e.type !== event.type);
+    this.queue.push(event);
+    while (this.queue.length > this.options.maxQueue) this.queue.shift();
+    this.schedule(this.options.debounce);
+  }
+
+  dispose() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.queue = [];
+  }
+
+  private schedule(delay: number) {
+    if (this.timer) clearTimeout(this.timer);
+    const wait = Math.max(delay, this.lastRequest + this.options.minInterval - Date.now());
+    this.timer = setTimeout(() => this.flush(), wait);
+  }
+
+  private async flush() {
+    this.timer = null;
+    if (this.busy) return;
+    const event = this.queue.shift();
+    if (!event) return;
+
+    this.busy = true;
+    this.lastRequest = Date.now();
+    try {
+      const line = await this.provider.generate(event.type, event.context);
+      if (line) this.onLine(line, event);
+    } catch (error) {
+      console.error("Commentary Error:", error);
+    } finally {
+      this.busy = false;
+      if (this.queue.length > 0) this.schedule(0);
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import { CommentaryContext, CommentaryType } from "../types";
+
+export interface GameEvent {
+  type: CommentaryType;
+  context: CommentaryContext;
+}
+
+type Listener = (event: GameEvent) => void;
+
+// Minimal synchronous pub/sub so the game loop can announce moments
+// without knowing who (commentary, audio, analytics) is listening.
+export class GameEventBus {
+  private listeners = new Set<Listener>();
+
+  on(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  emit(event: GameEvent) {
+    this.listeners.forEach(l => l(event));
+  }
+}
@@ -1,39 +1,26 @@
 import { GoogleGenAI } from "@google/genai";
-import { CommentaryType } from "../types";
+import { CommentaryContext, CommentaryType } from "../types";
+import { CommentaryProvider } from "./commentary";
+import { buildPrompt, buildSystemInstruction, getCommentaryStyle } from "./prompts";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-const SYSTEM_INSTRUCTION = `
-You are a hyped-up, intense, and slightly humorous battle commentator for a video game.
-The scenario: A time-traveler with an AK-47 is fighting an infinite horde of medieval knights in a flat grassy field.
-Keep your comments short (max 2 sentences), punchy, and reactive.
-Use French language but with internet gaming slang style.
-`;
+// Created on first use so importing this module never touches the network stack.
+let ai: GoogleGenAI | null = null;
+const getClient = () => {
+  if (!ai) ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return ai;
+};
 
-export const generateBattleCommentary = async (type: CommentaryType, score: number, wave: number): Promise<string> => {
-  let prompt = "";
+export const hasGeminiKey = () => Boolean(process.env.API_KEY);
 
-  switch (type) {
-    case 'intro':
-      prompt = "Intro the game. Player has an AK-47. Knights are coming.";
-      break;
-    case 'killstreak':
-      prompt = `Player just hit a killstreak! Score is ${score}. Hype it up!`;
-      break;
-    case 'low_health':
-      prompt = "Player is about to die! Panic!";
-      break;
-    case 'wave_start':
-      prompt = `Wave ${wave} is starting! More knights!`;
-      break;
-  }
+export const generateBattleCommentary = async (type: CommentaryType, context: CommentaryContext): Promise<string> => {
+  const prompt = buildPrompt(type, context);
 
   try {
-    const response = await ai.models.generateContent({
+    const response = await getClient().models.generateContent({
       model: 'gemini-2.5-flash',
       contents: prompt,
       config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
+        systemInstruction: buildSystemInstruction(getCommentaryStyle(type)),
         maxOutputTokens: 60, // Keep it short
       }
     });
@@ -43,3 +30,7 @@ export const generateBattleCommentary = async (type: CommentaryType, score: numb
     return "";
   }
 };
+
+export const geminiProvider: CommentaryProvider = {
+  generate: generateBattleCommentary
+};
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_KEY_BINDINGS, InputManager } from '../game/input';
+import { createSettings } from '../game/settings';
+import { GamepadSource, KeyboardMouseSource } from './inputSources';
+
+// Just enough DOM for the sources to listen and be fed events under Node
+const key = (type: 'keydown' | 'keyup', code: string) => Object.assign(new Event(type), { code, repeat: false });
+
+const fakePad = (axes: number[], pressed: number[] = []) => ({
+    connected: true,
+    axes,
+    buttons: Array.from({ length: 16 }, (_, i) => ({ pressed: pressed.includes(i), value: pressed.includes(i) ? 1 : 0 })),
+});
+
+describe('input sources', () => {
+    let pads: unknown[] = [];
+
+    beforeEach(() => {
+        pads = [];
+        vi.stubGlobal('window', new EventTarget());
+        vi.stubGlobal('document', { pointerLockElement: null });
+        vi.stubGlobal('HTMLInputElement', class {});
+        vi.stubGlobal('HTMLTextAreaElement', class {});
+        vi.stubGlobal('navigator', { getGamepads: () => pads });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    const keyboard = () => new KeyboardMouseSource(new EventTarget() as HTMLElement, () => false);
+
+    it('maps bound keys to actions', () => {
+        const source = keyboard();
+        window.dispatchEvent(key('keydown', 'KeyW'));
+        window.dispatchEvent(key('keydown', 'KeyR'));
+        expect(source.poll()).toMatchObject({ moveY: -1, moveX: 0, reload: true });
+        // Held keys keep reporting, presses only once
+        expect(source.poll()).toMatchObject({ moveY: -1, reload: false });
+        window.dispatchEvent(key('keyup', 'KeyW'));
+        expect(source.poll()).toMatchObject({ moveY: 0 });
+        source.dispose();
+    });
+
+    it('follows rebound keys', () => {
+        const source = keyboard();
+        const controls = createSettings().controls;
+        source.configure({ ...controls, bindings: { ...DEFAULT_KEY_BINDINGS, forward: ['KeyI'], reload: ['KeyT'] } });
+
+        window.dispatchEvent(key('keydown', 'KeyW'));
+        expect(source.poll()).toMatchObject({ moveY: 0 });
+        window.dispatchEvent(key('keydown', 'KeyI'));
+        window.dispatchEvent(key('keydown', 'KeyT'));
+        expect(source.poll()).toMatchObject({ moveY: -1, reload: true });
+        source.dispose();
+    });
+
+    it('ignores stick noise inside the dead zone', () => {
+        const source = new GamepadSource();
+        pads = [fakePad([0.1, -0.1, 0.05, 0])];
+        const still = source.poll(1 / 60);
+        expect([still.moveX, still.moveY, still.lookYaw, still.lookPitch].every(v => v === 0)).toBe(true);
+        pads = [fakePad([1, 0, 0, 0])];
+        expect(source.poll(1 / 60).moveX).toBeCloseTo(1);
+    });
+
+    it('merges the keyboard with a gamepad in one InputManager', () => {
+        const input = new InputManager();
+        const keys = keyboard();
+        input.add(keys);
+        input.add(new GamepadSource());
+        window.dispatchEvent(key('keydown', 'KeyW'));
+        pads = [fakePad([1, 0, 0, 0], [0])]; // Stick right, A pressed
+
+        const actions = input.read(1 / 60);
+        expect(actions.moveX).toBeCloseTo(Math.SQRT1_2);
+        expect(actions.moveY).toBeCloseTo(-Math.SQRT1_2);
+        expect(actions.interact).toBe(true);
+        input.dispose();
+    });
+});
@@ -0,0 +1,229 @@
+import { AimAcceleration, InputActions, InputSource, KeyAction, OneShotAction, applyDeadZone } from "../game/input";
+import { ControlSettings, createSettings } from "../game/settings";
+
+// --- Keyboard & Mouse ---
+
+const MOUSE_SPEED = 0.002; // Radians per pixel of mouse movement
+
+const isTyping = (e: KeyboardEvent) => e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement;
+
+// Keys for movement and actions, the mouse for looking and firing. Clicking
+// `lockTarget` captures the pointer while `canLock` allows it.
+export class KeyboardMouseSource implements InputSource {
+  private held = new Set<string>();
+  private pressed = new Set<KeyAction>();
+  private mouseDown = false;
+  private lookYaw = 0;
+  private lookPitch = 0;
+  private selectWeapon: number | null = null;
+  private cycleWeapon = 0;
+  private controls: ControlSettings = createSettings().controls;
+  private cleanup: () => void;
+
+  constructor(private lockTarget: HTMLElement, private canLock: () => boolean) {
+    const keyDown = (e: KeyboardEvent) => {
+      if (isTyping(e)) return;
+      this.held.add(e.code);
+      if (e.repeat) return;
+      this.actionsFor(e.code).forEach(a => this.pressed.add(a));
+      if (e.code >= "Digit1" && e.code <= "Digit9") this.selectWeapon = Number(e.code.slice(5)) - 1;
+    };
+    const keyUp = (e: KeyboardEvent) => this.held.delete(e.code);
+    // Keys released while the window is in the background never report keyup
+    const blur = () => {
+      this.held.clear();
+      this.mouseDown = false;
+    };
+    const mouseDown = (e: MouseEvent) => { if (e.button === 0) this.mouseDown = true; };
+    const mouseUp = (e: MouseEvent) => { if (e.button === 0) this.mouseDown = false; };
+    const mouseMove = (e: MouseEvent) => {
+      if (document.pointerLockElement !== this.lockTarget) return;
+      const speed = MOUSE_SPEED * this.controls.mouseSensitivity;
+      this.lookYaw -= e.movementX * speed;
+      this.lookPitch -= e.movementY * speed * (this.controls.invertY ? -1 : 1);
+    };
+    const wheel = (e: WheelEvent) => { if (e.deltaY !== 0) this.cycleWeapon = Math.sign(e.deltaY); };
+    const click = () => {
+      if (document.pointerLockElement !== this.lockTarget && this.canLock() && this.lockTarget.requestPointerLock) {
+        // Rejects when the browser refuses (too soon after leaving lock); the next click retries
+        Promise.resolve(this.lockTarget.requestPointerLock()).catch(() => {});
+      }
+    };
+
+    window.addEventListener("keydown", keyDown);
+    window.addEventListener("keyup", keyUp);
+    window.addEventListener("blur", blur);
+    window.addEventListener("mousedown", mouseDown);
+    window.addEventListener("mouseup", mouseUp);
+    window.addEventListener("mousemove", mouseMove);
+    window.addEventListener("wheel", wheel);
+    lockTarget.addEventListener("click", click);
+    this.cleanup = () => {
+      window.removeEventListener("keydown", keyDown);
+      window.removeEventListener("keyup", keyUp);
+      window.removeEventListener("blur", blur);
+      window.removeEventListener("mousedown", mouseDown);
+      window.removeEventListener("mouseup", mouseUp);
+      window.removeEventListener("mousemove", mouseMove);
+      window.removeEventListener("wheel", wheel);
+      lockTarget.removeEventListener("click", click);
+    };
+  }
+
+  configure(controls: ControlSettings) {
+    this.controls = controls;
+  }
+
+  private actionsFor(code: string): KeyAction[] {
+    const bindings = this.controls.bindings;
+    return (Object.keys(bindings) as KeyAction[]).filter(a => bindings[a].includes(code));
+  }
+
+  private isHeld(action: KeyAction): boolean {
+    return this.controls.bindings[action].some(code => this.held.has(code));
+  }
+
+  poll(): Partial<InputActions> {
+    const actions: Partial<InputActions> = {
+      moveX: Number(this.isHeld("right")) - Number(this.isHeld("left")),
+      moveY: Number(this.isHeld("back")) - Number(this.isHeld("forward")),
+      lookYaw: this.lookYaw,
+      lookPitch: this.lookPitch,
+      fire: this.mouseDown,
+      reload: this.pressed.has("reload"),
+      interact: this.pressed.has("interact"),
+      selectWeapon: this.selectWeapon,
+      cycleWeapon: this.cycleWeapon,
+    };
+    this.pressed.clear();
+    this.lookYaw = 0;
+    this.lookPitch = 0;
+    this.selectWeapon = null;
+    this.cycleWeapon = 0;
+    return actions;
+  }
+
+  dispose() {
+    this.cleanup();
+    if (document.pointerLockElement === this.lockTarget) document.exitPointerLock();
+  }
+}
+
+// --- Touch ---
+
+// Fed by the on-screen controls rather than listening to the DOM itself.
+export class TouchSource implements InputSource {
+  private moveX = 0;
+  private moveY = 0;
+  private lookYaw = 0;
+  private lookPitch = 0;
+  private fire = false;
+  private pressed = new Set<OneShotAction>();
+  private cycleWeapon = 0;
+
+  move(x: number, y: number) {
+    this.moveX = x;
+    this.moveY = y;
+  }
+
+  look(yaw: number, pitch: number) {
+    this.lookYaw += yaw;
+    this.lookPitch += pitch;
+  }
+
+  setFire(held: boolean) {
+    this.fire = held;
+  }
+
+  press(action: OneShotAction) {
+    this.pressed.add(action);
+  }
+
+  swapWeapon() {
+    this.cycleWeapon = 1;
+  }
+
+  poll(): Partial<InputActions> {
+    const actions: Partial<InputActions> = {
+      moveX: this.moveX,
+      moveY: this.moveY,
+      lookYaw: this.lookYaw,
+      lookPitch: this.lookPitch,
+      fire: this.fire,
+      reload: this.pressed.has("reload"),
+      interact: this.pressed.has("interact"),
+      cycleWeapon: this.cycleWeapon,
+    };
+    this.lookYaw = 0;
+    this.lookPitch = 0;
+    this.pressed.clear();
+    this.cycleWeapon = 0;
+    return actions;
+  }
+}
+
+// --- Gamepad ---
+
+// Standard mapping (https://w3c.github.io/gamepad/#remapping)
+const BUTTON = { a: 0, x: 2, y: 3, lb: 4, rb: 5, rt: 7 };
+const STICK_DEAD_ZONE = 0.15;
+const TRIGGER_THRESHOLD = 0.5;
+const LOOK_RATE = 2.5; // Radians per second at full deflection, before acceleration
+const LOOK_CURVE = 2; // Deflection exponent: finer control near the centre
+
+// The first connected pad. Movement on the left stick, aim on the right,
+// right trigger fires.
+export class GamepadSource implements InputSource {
+  private previous: boolean[] = [];
+  private acceleration = new AimAcceleration();
+  private controls: ControlSettings = createSettings().controls;
+
+  configure(controls: ControlSettings) {
+    this.controls = controls;
+  }
+
+  private pad(): Gamepad | null {
+    if (typeof navigator === "undefined" || !navigator.getGamepads) return null;
+    return navigator.getGamepads().find((p): p is Gamepad => !!p && p.connected) ?? null;
+  }
+
+  poll(dt: number): Partial<InputActions> {
+    const pad = this.pad();
+    if (!pad) {
+      this.previous = [];
+      return {};
+    }
+    const axis = (i: number) => pad.axes[i] ?? 0;
+    const down = (i: number) => !!pad.buttons[i]?.pressed;
+    const pressed = (i: number) => down(i) && !this.previous[i];
+
+    const move = applyDeadZone(axis(0), axis(1), STICK_DEAD_ZONE);
+    const aim = applyDeadZone(axis(2), axis(3), STICK_DEAD_ZONE);
+    const deflection = Math.hypot(aim.x, aim.y);
+    const multiplier = this.acceleration.update(deflection, dt);
+    // Curves the response while keeping the stick's direction
+    const rate = deflection > 0
+      ? LOOK_RATE * this.controls.gamepadSensitivity * multiplier * Math.pow(deflection, LOOK_CURVE - 1)
+      : 0;
+
+    const actions: Partial<InputActions> = {
+      moveX: move.x,
+      moveY: move.y,
+      lookYaw: -aim.x * rate * dt,
+      lookPitch: -aim.y * rate * dt * (this.controls.invertY ? -1 : 1),
+      fire: (pad.buttons[BUTTON.rt]?.value ?? 0) > TRIGGER_THRESHOLD,
+      reload: pressed(BUTTON.x),
+      interact: pressed(BUTTON.a),
+      cycleWeapon: pressed(BUTTON.rb) || pressed(BUTTON.y) ? 1 : pressed(BUTTON.lb) ? -1 : 0,
+    };
+    this.previous = pad.buttons.map(b => b.pressed);
+    return actions;
+  }
+
+  rumble(strength: number, duration: number) {
+    const actuator = this.pad()?.vibrationActuator;
+    if (!actuator?.playEffect) return;
+    actuator.playEffect("dual-rumble", { duration, strongMagnitude: strength, weakMagnitude: Math.min(1, strength * 1.5) })
+      .catch(() => {});
+  }
+}
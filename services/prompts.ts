@@ -0,0 +1,52 @@
+import { CommentaryContext, CommentaryType } from "../types";
+
+export interface CommentaryStyle {
+  language: string;
+  persona: string;
+}
+
+export const DEFAULT_STYLE: CommentaryStyle = {
+  language: "French, with internet gaming slang",
+  persona: "a hyped-up, intense, and slightly humorous battle commentator for a video game",
+};
+
+// Per-type overrides on top of DEFAULT_STYLE.
+export const COMMENTARY_STYLES: Partial<Record<CommentaryType, Partial<CommentaryStyle>>> = {
+  low_health: { persona: "a panicking battle commentator who fears the player is about to lose" },
+  shop_buy: { persona: "a sarcastic merchant-turned-commentator who judges the player's purchases" },
+};
+
+export const getCommentaryStyle = (type: CommentaryType): CommentaryStyle => ({
+  ...DEFAULT_STYLE,
+  ...COMMENTARY_STYLES[type],
+});
+
+export const buildSystemInstruction = (style: CommentaryStyle) => `
+You are ${style.persona}.
+The scenario: A time-traveler with an AK-47 is fighting an infinite horde of medieval knights in a flat grassy field.
+Keep your comments short (max 2 sentences), punchy, and reactive.
+Use this language: ${style.language}.
+`;
+
+const describeKills = (kills: CommentaryContext['enemiesKilled']) => {
+  const parts = Object.entries(kills)
+    .filter(([, n]) => (n || 0) > 0)
+    .map(([type, n]) => `${n} ${type}${n === 1 ? '' : 's'}`);
+  return parts.length > 0 ? parts.join(', ') : 'nobody yet';
+};
+
+// One template per CommentaryType; the Record type makes a missing entry a compile error.
+export const PROMPT_TEMPLATES: Record<CommentaryType, (ctx: CommentaryContext) => string> = {
+  intro: () =>
+    "Intro the game. Player has an AK-47. Knights are coming.",
+  killstreak: (ctx) =>
+    `Player just hit a ${ctx.killStreak}-kill streak! Score is ${ctx.score}. Kills so far: ${describeKills(ctx.enemiesKilled)}. Hype it up!`,
+  low_health: (ctx) =>
+    `Player is down to ${Math.round(ctx.health)} HP on wave ${ctx.wave} and is about to die! Panic!`,
+  wave_start: (ctx) =>
+    `Wave ${ctx.wave} is starting! More knights! Player has ${Math.round(ctx.health)} HP and ${ctx.gold} gold.`,
+  shop_buy: (ctx) =>
+    `Player just bought ${ctx.itemBought || 'something'} at the village shop and has ${ctx.gold} gold left. React to the purchase.`,
+};
+
+export const buildPrompt = (type: CommentaryType, ctx: CommentaryContext) => PROMPT_TEMPLATES[type](ctx);
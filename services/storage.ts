@@ -0,0 +1,56 @@
+import { GameState } from "../types";
+import { Profile, SaveGame, createProfile, migrateProfile, migrateSave } from "../game/save";
+import { Settings, createSettings, migrateSettings } from "../game/settings";
+
+const SAVE_KEY = "medieval-gemini.save";
+const PROFILE_KEY = "medieval-gemini.profile";
+const SETTINGS_KEY = "medieval-gemini.settings";
+
+// localStorage can be missing (private mode) or full: persistence failures
+// are logged and never interrupt the game.
+const read = (key: string): unknown => {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch (error) {
+    console.error("Storage read failed:", error);
+    return null;
+  }
+};
+
+const write = (key: string, value: unknown) => {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error("Storage write failed:", error);
+  }
+};
+
+const remove = (key: string) => {
+  try {
+    window.localStorage.removeItem(key);
+  } catch (error) {
+    console.error("Storage remove failed:", error);
+  }
+};
+
+// `defaults` fills GameState fields added since the save was written.
+export const loadRun = (defaults: GameState): SaveGame | null => migrateSave(read(SAVE_KEY), defaults);
+
+export const saveRun = (save: SaveGame) => write(SAVE_KEY, save);
+
+export const clearRun = () => remove(SAVE_KEY);
+
+export const loadProfile = (): Profile => {
+  const raw = read(PROFILE_KEY);
+  return raw ? migrateProfile(raw) : createProfile();
+};
+
+export const saveProfile = (profile: Profile) => write(PROFILE_KEY, profile);
+
+export const loadSettings = (): Settings => {
+  const raw = read(SETTINGS_KEY);
+  return raw ? migrateSettings(raw) : createSettings();
+};
+
+export const saveSettings = (settings: Settings) => write(SETTINGS_KEY, settings);
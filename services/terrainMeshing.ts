@@ -0,0 +1,111 @@
+import { ChunkMeshData, ChunkMeshRequest, buildChunkMesh } from "../game/terrainMesh";
+import type { MeshJobMessage } from "./terrainWorker";
+
+interface Job extends MeshJobMessage {
+  priority: number; // Lower runs first
+  onDone: (mesh: ChunkMeshData) => void;
+  cancelled: boolean;
+  worker?: Worker; // Set while a worker is building it
+}
+
+const MAX_WORKERS = 3;
+
+// Meshes terrain chunks on a small pool of workers, nearest chunks first.
+// Without worker support the same code runs on the main thread, one chunk
+// per task so a burst of requests cannot freeze a frame.
+export class TerrainMesher {
+  private workers: Worker[] = [];
+  private idle: Worker[] = [];
+  private queue: Job[] = [];
+  private running = new Map<number, Job>();
+  private nextId = 1;
+
+  constructor(size = Math.min(MAX_WORKERS, Math.max(1, (navigator.hardwareConcurrency || 2) - 1))) {
+    if (typeof Worker === "undefined") return;
+    for (let i = 0; i < size; i++) {
+      try {
+        const worker = new Worker(new URL("./terrainWorker.ts", import.meta.url), { type: "module" });
+        worker.onmessage = (event: MessageEvent<{ id: number; mesh: ChunkMeshData }>) => this.finish(worker, event.data.id, event.data.mesh);
+        worker.onerror = (event) => {
+          console.error("Terrain worker failed:", event.message);
+          this.retire(worker);
+        };
+        this.workers.push(worker);
+        this.idle.push(worker);
+      } catch (error) {
+        console.error("Terrain worker unavailable:", error);
+        break;
+      }
+    }
+  }
+
+  // Returns a function that drops the request if it has not been delivered yet.
+  request(request: ChunkMeshRequest, priority: number, onDone: (mesh: ChunkMeshData) => void): () => void {
+    const job: Job = { id: this.nextId++, request, priority, onDone, cancelled: false };
+    this.queue.push(job);
+    this.pump();
+    return () => { job.cancelled = true; };
+  }
+
+  private take(): Job | undefined {
+    this.queue = this.queue.filter(j => !j.cancelled);
+    if (this.queue.length === 0) return undefined;
+    let best = 0;
+    this.queue.forEach((j, i) => { if (j.priority < this.queue[best].priority) best = i; });
+    return this.queue.splice(best, 1)[0];
+  }
+
+  private pump() {
+    if (this.workers.length === 0) {
+      if (this.running.size > 0) return;
+      const job = this.take();
+      if (!job) return;
+      this.running.set(job.id, job);
+      setTimeout(() => {
+        this.running.delete(job.id);
+        if (!job.cancelled) job.onDone(buildChunkMesh(job.request));
+        this.pump();
+      }, 0);
+      return;
+    }
+    while (this.idle.length > 0) {
+      const job = this.take();
+      if (!job) return;
+      const worker = this.idle.pop()!;
+      job.worker = worker;
+      this.running.set(job.id, job);
+      const message: MeshJobMessage = { id: job.id, request: job.request };
+      worker.postMessage(message);
+    }
+  }
+
+  private finish(worker: Worker, id: number, mesh: ChunkMeshData) {
+    const job = this.running.get(id);
+    this.running.delete(id);
+    this.idle.push(worker);
+    if (job && !job.cancelled) job.onDone(mesh);
+    this.pump();
+  }
+
+  // A broken worker hands its job back to the queue; with none left, meshing moves to the main thread.
+  private retire(worker: Worker) {
+    worker.terminate();
+    this.workers = this.workers.filter(w => w !== worker);
+    this.idle = this.idle.filter(w => w !== worker);
+    this.running.forEach((job, id) => {
+      if (job.worker !== worker) return;
+      this.running.delete(id);
+      job.worker = undefined;
+      this.queue.push(job);
+    });
+    this.pump();
+  }
+}
+
+let shared: TerrainMesher | null = null;
+
+// One pool for the whole app; workers are cheap to keep alive between runs.
+export const getTerrainMesher = () => {
+  if (!shared) shared = new TerrainMesher();
+  return shared;
+};
@@ -0,0 +1,16 @@
+import { ChunkMeshRequest, buildChunkMesh } from "../game/terrainMesh";
+
+export interface MeshJobMessage {
+  id: number;
+  request: ChunkMeshRequest;
+}
+
+// Builds terrain chunk meshes off the main thread. The buffers are
+// transferred back, not copied.
+self.onmessage = (event: MessageEvent<MeshJobMessage>) => {
+  const { id, request } = event.data;
+  const mesh = buildChunkMesh(request);
+  self.postMessage({ id, mesh }, {
+    transfer: [mesh.positions.buffer, mesh.normals.buffer, mesh.colors.buffer, mesh.indices.buffer],
+  });
+};
@@ -4,7 +4,21 @@ export interface Vector3 {
   z: number;
 }
 
-export type EnemyType = 'peasant' | 'knight' | 'heavy' | 'villager';
+export type BossType = 'king' | 'ram';
+
+export type EnemyType = 'peasant' | 'knight' | 'heavy' | 'archer' | 'crossbowman' | 'cavalry' | 'villager' | BossType;
+
+// What an enemy is doing with its weapon, see game/enemyAI.ts
+export type AttackPhase = 'idle' | 'windup' | 'strike' | 'recover' | 'block' | 'charge';
+
+export interface AttackState {
+  phase: AttackPhase;
+  phaseEndsAt: number; // Simulation ms
+  readyAt: number; // Simulation ms before the next attack may start
+  chargeReadyAt?: number; // Knights only
+  heading?: { x: number; z: number }; // Locked direction of a charge
+  flank?: number; // Peasants: -1 or 1, the side they circle round to
+}
 
 export interface Enemy {
   id: string;
@@ -13,30 +27,105 @@ export interface Enemy {
   hp: number;
   maxHp: number;
   speed: number;
-  isAttacking: boolean;
+  isAttacking: boolean; // Winding up or striking, drives the animation
+  attack?: AttackState; // Missing in saves from before attack states
+  bossPhase?: number; // Bosses only: 0 until the first health threshold is crossed
   isDead?: boolean;
   deadTime?: number;
   velocity?: Vector3;
+  fromBudget?: boolean; // Paid for from the wave budget, which gets it back if it leaves the field alive
+}
+
+export type ProjectileKind = 'arrow' | 'bolt';
+
+export interface Projectile {
+  id: string;
+  kind: ProjectileKind;
+  position: Vector3;
+  velocity: Vector3;
+  damage: number;
+  firedAt: number; // Simulation ms
 }
 
 export interface Obstacle {
   id: string;
-  type: 'tree' | 'rock' | 'ruin' | 'mountain' | 'wall' | 'roof' | 'shop_table' | 'well' | 'signpost';
+  type: 'tree' | 'rock' | 'ruin' | 'mountain' | 'wall' | 'roof' | 'shop_table' | 'well' | 'signpost'
+    | 'fence' | 'palisade' | 'furniture' | 'torch';
   position: Vector3;
   rotation: number;
   scale: Vector3;
   radius: number; // Used for cylindrical collision (trees, rocks)
   dims?: { w: number, d: number, h: number }; // New: Used for box collision (walls)
+  label?: string; // Text painted on signposts
+  variant?: string; // Which piece of furniture
+}
+
+export type WavePhase = 'intermission' | 'active';
+
+export type Weather = 'clear' | 'rain' | 'fog' | 'storm';
+
+// What a bullet hit, drives impact effects
+export type SurfaceType = 'ground' | 'wood' | 'plaster' | 'stone' | 'foliage' | 'flesh';
+
+export type WeaponId = 'pistol' | 'shotgun' | 'ak47';
+
+export interface WeaponDefinition {
+  id: WeaponId;
+  name: string;
+  automatic: boolean; // Keeps firing while the trigger is held
+  fireRate: number; // ms between shots
+  damage: number; // Per pellet, before falloff and upgrades
+  falloffStart: number; // Distance where damage starts dropping
+  falloffEnd: number; // Distance where damage reaches minDamageScale
+  minDamageScale: number;
+  spread: number; // Half-angle of the shot cone, radians
+  pellets: number; // Rays per shot
+  magazineSize: number;
+  reserve: number; // Spare rounds carried at the start of a run
+  maxReserve: number;
+  reloadTime: number; // ms
+}
+
+export interface WeaponSlot {
+  id: WeaponId;
+  ammo: number; // Rounds in the magazine
+  reserve: number; // Spare rounds
+}
+
+// The boss of the current wave, for the HUD
+export interface BossStatus {
+  type: BossType;
+  hp: number;
+  maxHp: number;
+  phase: number;
 }
 
 export interface GameState {
   score: number;
   gold: number; // New: Currency
+  goldEarned: number; // Total gold picked up this run, spending does not lower it
   health: number;
   wave: number;
+  wavePhase: WavePhase;
   isPlaying: boolean;
-  ammo: number;
+  weapons: WeaponSlot[];
+  activeWeapon: number; // Index into weapons
+  isReloading: boolean;
   damageMultiplier: number; // New: Upgrade tracking
+  reloadMultiplier: number; // Scales reload time, lowered by upgrades
+  purchases: Record<string, number>; // Shop item id -> times bought this run
+  nearShop: boolean;
+  shopOpen: boolean;
+  isNight: boolean;
+  weather: Weather;
+  boss: BossStatus | null; // Kept at 0 hp once beaten, until the wave is cleared
+}
+
+// On-screen controls for phones and tablets
+export interface TouchSettings {
+  leftHanded: boolean; // Mirrors the layout: stick on the right, buttons on the left
+  lookSensitivity: number; // Multiplier on the drag-to-look speed
+  buttonScale: number; // Multiplier on button size
 }
 
 export enum WeaponState {
@@ -45,4 +134,14 @@ export enum WeaponState {
   RELOADING
 }
 
-export type CommentaryType = 'intro' | 'killstreak' | 'low_health' | 'wave_start' | 'shop_buy';
\ No newline at end of file
+export type CommentaryType = 'intro' | 'killstreak' | 'low_health' | 'wave_start' | 'shop_buy';
+
+export interface CommentaryContext {
+  score: number;
+  wave: number;
+  health: number;
+  gold: number;
+  killStreak: number; // Kills since the player last took damage
+  enemiesKilled: Partial<Record<EnemyType, number>>; // Run totals per type
+  itemBought?: string; // Set for 'shop_buy'
+}